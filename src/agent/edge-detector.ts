@@ -2,45 +2,63 @@
 // Edge Detector — Compares forecasts to market prices
 // ============================================================
 
-import type { KalshiMarket, Forecast, Edge, AgentConfig } from "../types/index.js";
+import type { KalshiMarket, Forecast, Edge, AgentConfig, UncertaintySource } from "../types/index.js";
 import type { Logger } from "../utils/logger.js";
+import type { MarketCache } from "../api/market-cache.js";
+import { feePerContract } from "../risk/fees.js";
 
 export class EdgeDetector {
   private minEdge: number;
+  private uncertaintySource: UncertaintySource;
+  private takerRate: number;
   private logger: Logger;
+  private marketCache?: MarketCache;
 
-  constructor(config: AgentConfig, logger: Logger) {
+  /** With a market cache, edges are priced off the latest streamed quotes */
+  constructor(config: AgentConfig, logger: Logger, marketCache?: MarketCache) {
     this.minEdge = config.trading.minEdgeThreshold;
+    this.uncertaintySource = config.trading.uncertaintySource;
+    this.takerRate = config.fees.takerRate;
     this.logger = logger;
+    this.marketCache = marketCache;
   }
 
   /**
    * Detect edges where our model disagrees with the market price.
-   * Returns only edges that exceed the minimum threshold.
+   * Returns only edges that exceed the minimum threshold — widened by the
+   * ensemble spread when UNCERTAINTY_SOURCE includes it. Edges are net of the
+   * taker fee for buying at the ask.
    */
   detectEdges(markets: KalshiMarket[], forecasts: Forecast[]): Edge[] {
     const forecastMap = new Map(forecasts.map((f) => [f.ticker, f]));
     const edges: Edge[] = [];
 
-    for (const market of markets) {
+    for (const listed of markets) {
+      // Forecasting takes a while; prices may have moved since the markets were fetched
+      const market = this.marketCache?.getMarket(listed.ticker) ?? listed;
       const forecast = forecastMap.get(market.ticker);
-      if (!forecast) continue;
+      // A forecast whose output never validated is a placeholder, not an opinion
+      if (!forecast || forecast.parseFailed) continue;
+
+      const threshold = this.thresholdFor(forecast);
 
       // Market-implied probability for YES (use midpoint of bid/ask)
       const marketProbYes = this.getImpliedProb(market, "yes");
       const marketProbNo = this.getImpliedProb(market, "no");
 
       // Check YES side edge
-      const yesEdge = forecast.modelProbYes - marketProbYes;
-      if (yesEdge > this.minEdge) {
-        edges.push(this.buildEdge(market, forecast, "yes", marketProbYes, forecast.modelProbYes, yesEdge));
+      const yesFee = this.feeFor(marketProbYes);
+      const yesEdge = forecast.modelProbYes - marketProbYes - yesFee;
+      if (yesEdge > threshold) {
+        edges.push(this.buildEdge(market, forecast, "yes", marketProbYes, forecast.modelProbYes, yesFee, yesEdge));
       }
 
       // Check NO side edge
       const modelProbNo = 1 - forecast.modelProbYes;
-      const noEdge = modelProbNo - marketProbNo;
-      if (noEdge > this.minEdge) {
-        edges.push(this.buildEdge(market, forecast, "no", marketProbNo, modelProbNo, noEdge));
+      const noFee = this.feeFor(marketProbNo);
+      const noEdge = modelProbNo - marketProbNo - noFee;
+      if (noEdge > threshold) {
+        edges.push(this.buildEdge(market, forecast, "no", marketProbNo, modelProbNo, noFee, noEdge));
       }
     }
 
@@ -51,7 +69,8 @@ export class EdgeDetector {
     for (const edge of edges.slice(0, 10)) {
       this.logger.info(
         `  ${edge.side.toUpperCase()} ${edge.ticker}: ` +
-        `model=${(edge.modelProb * 100).toFixed(1)}% vs market=${(edge.marketProb * 100).toFixed(1)}% → ` +
+        `model=${(edge.modelProb * 100).toFixed(1)}% vs market=${(edge.marketProb * 100).toFixed(1)}% ` +
+        `+ fee ${(edge.fee * 100).toFixed(2)}¢ → ` +
         `edge=${(edge.edge * 100).toFixed(1)}%, EV=${(edge.expectedValue * 100).toFixed(1)}%`
       );
     }
@@ -66,7 +85,7 @@ export class EdgeDetector {
    *
    * In binary markets, no_ask ≈ 100 - yes_bid, so
    * yes_ask + no_ask ≈ 100 + spread. Values > 100 are normal.
-   * Only yes_ask + no_ask < 100 represents a true arbitrage.
+   * Only yes_ask + no_ask + taker fees on both legs < 100 is a true arbitrage.
    */
   findArbitrageOpportunities(markets: KalshiMarket[]): Array<{
     ticker: string;
@@ -74,6 +93,7 @@ export class EdgeDetector {
     yesAsk: number;
     noAsk: number;
     total: number;
+    fees: number;
     type: "guaranteed_profit" | "wide_spread";
   }> {
     const opps: Array<{
@@ -82,22 +102,25 @@ export class EdgeDetector {
       yesAsk: number;
       noAsk: number;
       total: number;
+      fees: number;
       type: "guaranteed_profit" | "wide_spread";
     }> = [];
 
     for (const m of markets) {
       if (m.yesAsk === 0 || m.noAsk === 0) continue;
       const total = m.yesAsk + m.noAsk;
+      // Per pair, before per-fill rounding — a single pair pays at least 1¢ a leg
+      const fees = feePerContract(m.yesAsk, this.takerRate) + feePerContract(m.noAsk, this.takerRate);
 
-      // True arbitrage: buy both sides for < $1 total, guaranteed $1 payout.
-      // Use < 98 to account for Kalshi's ~1-2¢ fees per side.
-      if (total < 98) {
+      // True arbitrage: buy both sides for < $1 all-in, guaranteed $1 payout
+      if (total + fees < 100) {
         opps.push({
           ticker: m.ticker,
           title: m.title,
           yesAsk: m.yesAsk,
           noAsk: m.noAsk,
           total,
+          fees,
           type: "guaranteed_profit",
         });
       }
@@ -111,6 +134,7 @@ export class EdgeDetector {
           yesAsk: m.yesAsk,
           noAsk: m.noAsk,
           total,
+          fees,
           type: "wide_spread",
         });
       }
@@ -119,7 +143,7 @@ export class EdgeDetector {
     // Sort: guaranteed profits first (lowest total), then widest spreads
     opps.sort((a, b) => {
       if (a.type !== b.type) return a.type === "guaranteed_profit" ? -1 : 1;
-      return a.type === "guaranteed_profit" ? a.total - b.total : b.total - a.total;
+      return a.type === "guaranteed_profit" ? a.total + a.fees - (b.total + b.fees) : b.total - a.total;
     });
 
     if (opps.length > 0) {
@@ -133,6 +157,12 @@ export class EdgeDetector {
 
   // --- Helpers ---
 
+  /** An edge smaller than the ensemble members' own disagreement is noise */
+  private thresholdFor(forecast: Forecast): number {
+    if (this.uncertaintySource === "confidence" || !forecast.ensemble) return this.minEdge;
+    return this.minEdge + forecast.ensemble.spread;
+  }
+
   /**
    * Get the implied probability = the price you'd actually pay to acquire the position.
    * Uses the ask price (not the mid-price) because that's the real cost of the trade.
@@ -146,18 +176,24 @@ export class EdgeDetector {
     }
   }
 
+  /** Taker fee per contract at this price, as a fraction of $1 */
+  private feeFor(marketProb: number): number {
+    return feePerContract(marketProb * 100, this.takerRate) / 100;
+  }
+
   private buildEdge(
     market: KalshiMarket,
     forecast: Forecast,
     side: "yes" | "no",
     marketProb: number,
     modelProb: number,
+    fee: number,
     edge: number
   ): Edge {
     // EV = (modelProb × payout) - cost
-    // For a $1 contract: cost = marketProb, payout if correct = 1
-    // EV per dollar risked = (modelProb / marketProb) - 1
-    const cost = marketProb;
+    // For a $1 contract: cost = marketProb + fee, payout if correct = 1
+    // EV per dollar risked = (modelProb / cost) - 1
+    const cost = marketProb + fee;
     const ev = cost > 0 ? (modelProb * 1) / cost - 1 : 0;
 
     return {
@@ -167,6 +203,7 @@ export class EdgeDetector {
       side,
       marketProb,
       modelProb,
+      fee,
       edge,
       expectedValue: ev,
     };
@@ -0,0 +1,219 @@
+// ============================================================
+// Live Portfolio — Exchange positions reconciled against our log
+// ============================================================
+
+import type { KalshiMarket, Portfolio, Position, TradeRecord } from "../types/index.js";
+import type { KalshiClient, KalshiMarketPosition, KalshiOrder } from "../api/kalshi-client.js";
+import type { TradeLog } from "./trade-log.js";
+import { markPositions, totalUnrealizedPnl, tradePnl, voidedValue } from "./mark-to-market.js";
+import type { Logger } from "../utils/logger.js";
+
+/** A disagreement between Kalshi's positions and our local trade log */
+export interface PositionMismatch {
+  ticker: string;
+  expected: { side: "yes" | "no"; contracts: number } | null;
+  actual: { side: "yes" | "no"; contracts: number } | null;
+}
+
+export class LivePortfolio {
+  private kalshi: KalshiClient;
+  private tradeLog: TradeLog;
+  private logger: Logger;
+
+  constructor(kalshi: KalshiClient, tradeLog: TradeLog, logger: Logger) {
+    this.kalshi = kalshi;
+    this.tradeLog = tradeLog;
+    this.logger = logger;
+  }
+
+  /**
+   * Fetch balance, positions and resting orders from Kalshi, mark positions
+   * at the current bid, and reconcile against the local trade log.
+   */
+  async sync(markets: KalshiMarket[] = []): Promise<Portfolio> {
+    const [balanceUsd, rawPositions, restingOrders] = await Promise.all([
+      this.kalshi.getBalance(),
+      this.kalshi.getPositions(),
+      this.kalshi.getOrders({ status: "resting" }),
+    ]);
+
+    const marketMap = new Map(markets.map((m) => [m.ticker, m]));
+    const positions = rawPositions.map((raw) => toPosition(raw, marketMap.get(raw.ticker)));
+    markPositions(positions, marketMap);
+    const entryEdges = this.entryEdges();
+    const basketIds = this.basketIds();
+    for (const position of positions) {
+      position.entryEdge = entryEdges.get(`${position.ticker}:${position.side}`);
+      position.basketId = basketIds.get(`${position.ticker}:${position.side}`);
+    }
+
+    const portfolio: Portfolio = {
+      balanceUsd,
+      positions,
+      totalExposureUsd: rawPositions.reduce((sum, p) => sum + p.market_exposure, 0) / 100,
+      restingExposureUsd: restingOrders.reduce((sum, o) => sum + restingCost(o), 0) / 100,
+      realizedPnl: rawPositions.reduce((sum, p) => sum + p.realized_pnl - p.fees_paid, 0) / 100,
+      unrealizedPnl: totalUnrealizedPnl(positions),
+    };
+
+    const mismatches = this.reconcile(positions);
+    for (const m of mismatches) {
+      this.logger.warn(
+        `Position mismatch on ${m.ticker}: local log expects ${describe(m.expected)}, ` +
+        `Kalshi reports ${describe(m.actual)}`
+      );
+    }
+
+    this.logger.info(
+      `Live portfolio: $${balanceUsd.toFixed(2)} cash, ${positions.length} positions, ` +
+      `$${portfolio.totalExposureUsd.toFixed(2)} exposure + $${portfolio.restingExposureUsd!.toFixed(2)} resting` +
+      (mismatches.length > 0 ? ` — ${mismatches.length} mismatches` : "")
+    );
+
+    return portfolio;
+  }
+
+  /**
+   * Book P&L on positions that are gone: those we sold out of, and any
+   * ticker our log still holds but Kalshi no longer reports because the
+   * market resolved. P&L is net of fees and recorded on the logged trades.
+   * Returns the realized P&L per closed ticker.
+   */
+  async settleResolved(): Promise<Map<string, number>> {
+    const settled = this.bookSoldOut();
+    const held = new Set((await this.kalshi.getPositions()).map((p) => p.ticker));
+
+    for (const ticker of this.tradeLog.getExpectedHoldings().keys()) {
+      if (held.has(ticker)) continue;
+
+      try {
+        const market = await this.kalshi.getMarket(ticker);
+        if (market.status !== "settled" || !market.result) continue;
+
+        const result = market.result;
+        const voided = result === "voided" ? voidedValue(this.tradeLog.getTrades(), ticker) : 0;
+        const pnl = this.bookTrades(ticker, (trade) =>
+          result === "voided" ? voided : trade.signal.side === result ? 100 : 0
+        );
+
+        settled.set(ticker, pnl);
+        this.logger.info(
+          `[LIVE] Settled ${ticker}: ${market.result.toUpperCase()} → P&L: ${pnl >= 0 ? "+" : ""}$${pnl.toFixed(2)}`
+        );
+      } catch (err) {
+        this.logger.warn(`Could not check settlement for ${ticker}: ${err}`);
+      }
+    }
+
+    return settled;
+  }
+
+  /**
+   * Tickers whose filled buys and sells net to zero but aren't booked yet:
+   * positions we sold out of. Nothing remains to settle, so their P&L is the
+   * cash in and out.
+   */
+  private bookSoldOut(): Map<string, number> {
+    const holdings = this.tradeLog.getExpectedHoldings();
+    const open = new Set(
+      this.tradeLog
+        .getTrades()
+        .filter((t) => t.filled && t.pnl === undefined)
+        .map((t) => t.signal.edge.ticker)
+    );
+    const booked = new Map<string, number>();
+    for (const ticker of open) {
+      if (holdings.has(ticker) || this.hasOpenOrders(ticker)) continue;
+      const pnl = this.bookTrades(ticker, () => 0);
+      booked.set(ticker, pnl);
+      this.logger.info(`[LIVE] Closed ${ticker} → P&L: ${pnl >= 0 ? "+" : ""}$${pnl.toFixed(2)}`);
+    }
+    return booked;
+  }
+
+  /** Set P&L on every unbooked fill in `ticker` at the contract value `valueOf` gives */
+  private bookTrades(ticker: string, valueOf: (trade: TradeRecord) => number): number {
+    let pnl = 0;
+    for (const trade of this.tradeLog.getTrades()) {
+      if (trade.signal.edge.ticker !== ticker || !trade.filled || trade.pnl !== undefined) continue;
+      trade.pnl = tradePnl(trade, valueOf(trade));
+      pnl += trade.pnl;
+      this.tradeLog.append(trade);
+    }
+    return pnl;
+  }
+
+  /** A working order can still change the position, so don't book it yet */
+  private hasOpenOrders(ticker: string): boolean {
+    return this.tradeLog
+      .getTrades()
+      .some((t) => t.signal.edge.ticker === ticker && (t.orderStatus === "resting" || t.orderStatus === "partially_filled"));
+  }
+
+  /** Contract-weighted entry edge of the unbooked buys, by `ticker:side` */
+  private entryEdges(): Map<string, number> {
+    const sums = new Map<string, { edge: number; contracts: number }>();
+    for (const trade of this.tradeLog.getTrades()) {
+      if (!trade.filled || trade.pnl !== undefined || trade.signal.action !== "buy") continue;
+      const key = `${trade.signal.edge.ticker}:${trade.signal.side}`;
+      const contracts = trade.filledContracts ?? trade.signal.contracts;
+      const sum = sums.get(key) ?? { edge: 0, contracts: 0 };
+      sum.edge += trade.signal.edge.edge * contracts;
+      sum.contracts += contracts;
+      sums.set(key, sum);
+    }
+    return new Map([...sums].filter(([, s]) => s.contracts > 0).map(([key, s]) => [key, s.edge / s.contracts]));
+  }
+
+  /** Basket of the unbooked buys, by `ticker:side`, for positions that are basket legs */
+  private basketIds(): Map<string, string> {
+    const ids = new Map<string, string>();
+    for (const trade of this.tradeLog.getTrades()) {
+      if (!trade.filled || trade.pnl !== undefined || !trade.signal.basketId) continue;
+      ids.set(`${trade.signal.edge.ticker}:${trade.signal.side}`, trade.signal.basketId);
+    }
+    return ids;
+  }
+
+  /** Compare exchange positions with what the local trade log says we hold */
+  reconcile(positions: Position[]): PositionMismatch[] {
+    const expected = this.tradeLog.getExpectedHoldings();
+    const actual = new Map(positions.map((p) => [p.ticker, { side: p.side, contracts: p.contracts }]));
+    const mismatches: PositionMismatch[] = [];
+
+    for (const ticker of new Set([...expected.keys(), ...actual.keys()])) {
+      const e = expected.get(ticker) ?? null;
+      const a = actual.get(ticker) ?? null;
+      if (e && a && e.side === a.side && e.contracts === a.contracts) continue;
+      mismatches.push({ ticker, expected: e, actual: a });
+    }
+
+    return mismatches;
+  }
+}
+
+// --- Helpers ---
+
+function toPosition(raw: KalshiMarketPosition, market?: KalshiMarket): Position {
+  const contracts = Math.abs(raw.position);
+  const avgPrice = contracts > 0 ? raw.market_exposure / contracts : 0;
+  return {
+    ticker: raw.ticker,
+    side: raw.position > 0 ? "yes" : "no",
+    contracts,
+    avgPrice,
+    currentPrice: avgPrice, // replaced by the bid when the market is quoted
+    marketTitle: market?.title ?? raw.ticker,
+  };
+}
+
+/** Cents committed by a resting buy order (sells release, not commit, capital) */
+function restingCost(order: KalshiOrder): number {
+  if (order.action !== "buy") return 0;
+  const price = order.side === "yes" ? order.yes_price : order.no_price;
+  return order.remaining_count * price;
+}
+
+function describe(holding: { side: "yes" | "no"; contracts: number } | null): string {
+  return holding ? `${holding.contracts}x ${holding.side.toUpperCase()}` : "no position";
+}
@@ -0,0 +1,87 @@
+// ============================================================
+// Mark-to-Market — Revalue open positions at executable prices
+// ============================================================
+
+import type { KalshiMarket, Position, TradeRecord } from "../types/index.js";
+
+/**
+ * The price (cents) we could actually exit a position at right now: the best
+ * bid on our side. Marking at the ask or the mid overstates value — on thin
+ * books the bid can be far below either. An empty bid marks at 0.
+ */
+export function exitPrice(market: KalshiMarket, side: "yes" | "no"): number {
+  return side === "yes" ? market.yesBid : market.noBid;
+}
+
+/**
+ * Update `currentPrice` on each position whose market is in `markets`.
+ * Positions without a current quote keep their last mark.
+ */
+export function markPositions(positions: Position[], markets: Map<string, KalshiMarket>): void {
+  for (const position of positions) {
+    const market = markets.get(position.ticker);
+    if (market) position.currentPrice = exitPrice(market, position.side);
+  }
+}
+
+/** Marked P&L of a single position in dollars */
+export function positionUnrealizedPnl(position: Position): number {
+  return (position.contracts * (position.currentPrice - position.avgPrice)) / 100;
+}
+
+/** Total marked P&L across positions in dollars */
+export function totalUnrealizedPnl(positions: Position[]): number {
+  return positions.reduce((sum, p) => sum + positionUnrealizedPnl(p), 0);
+}
+
+/** Current exit value of positions in dollars */
+export function markedValue(positions: Position[]): number {
+  return positions.reduce((sum, p) => sum + (p.contracts * p.currentPrice) / 100, 0);
+}
+
+/**
+ * Realized P&L of one filled trade, net of its fees, if each contract it
+ * bought (or sold) ends up worth `valueCents`: 100 or 0 at settlement.
+ * Summed over every trade in a position, buys and sells net out, so once a
+ * position is sold down to zero any `valueCents` gives its cash P&L.
+ */
+export function tradePnl(trade: TradeRecord, valueCents: number): number {
+  const price = trade.fillPrice ?? trade.signal.limitPrice;
+  const contracts = trade.filledContracts ?? trade.signal.contracts;
+  const direction = trade.signal.action === "buy" ? 1 : -1;
+  return (direction * contracts * (valueCents - price)) / 100 - (trade.fees ?? 0);
+}
+
+/**
+ * Contract value a voided market settles `ticker` at: the average price paid
+ * on its unbooked buys, which is what the refund of the contracts still held
+ * comes to. Valuing every unbooked fill at it leaves what sells made or lost
+ * against that cost, less fees.
+ */
+export function voidedValue(trades: TradeRecord[], ticker: string): number {
+  let contracts = 0;
+  let cost = 0;
+  for (const trade of trades) {
+    if (trade.signal.edge.ticker !== ticker || trade.signal.action !== "buy" || !trade.filled) continue;
+    if (trade.pnl !== undefined) continue;
+    const filled = trade.filledContracts ?? trade.signal.contracts;
+    contracts += filled;
+    cost += filled * (trade.fillPrice ?? trade.signal.limitPrice);
+  }
+  return contracts > 0 ? cost / contracts : 0;
+}
+
+/**
+ * Net P&L of an event basket once every leg has been booked, or undefined
+ * while any leg is still open. A basket's losing legs are paid for by its
+ * winner, so only the net is a realized loss.
+ */
+export function basketPnl(trades: TradeRecord[], basketId: string): number | undefined {
+  let pnl = 0;
+  for (const trade of trades) {
+    if (trade.signal.basketId !== basketId || !trade.filled) continue;
+    if (trade.pnl === undefined) return undefined;
+    pnl += trade.pnl;
+  }
+  return pnl;
+}
@@ -0,0 +1,274 @@
+// ============================================================
+// Order Manager — Lifecycle tracking for live limit orders
+// ============================================================
+
+import { randomUUID } from "node:crypto";
+import type { AgentConfig, FeeSchedule, KalshiMarket, OrderStatus, TradeRecord, TradeSignal } from "../types/index.js";
+import type { KalshiClient, KalshiFill, KalshiOrder, KalshiOrderRequest } from "../api/kalshi-client.js";
+import type { TradeLog } from "./trade-log.js";
+import type { Logger } from "../utils/logger.js";
+import { OrderValidator, type ValidationOptions } from "./order-validator.js";
+import { fillFeeCents } from "../risk/fees.js";
+
+const OPEN_STATUSES: OrderStatus[] = ["resting", "partially_filled"];
+
+export class OrderManager {
+  private kalshi: KalshiClient;
+  private tradeLog: TradeLog;
+  private logger: Logger;
+  private ttlSeconds: number;
+  private staleAction: "cancel" | "reprice";
+  private maxReprices: number;
+  private fees: FeeSchedule;
+  private shadow: boolean;
+  private validator: OrderValidator;
+
+  constructor(kalshi: KalshiClient, tradeLog: TradeLog, config: AgentConfig, logger: Logger) {
+    this.kalshi = kalshi;
+    this.tradeLog = tradeLog;
+    this.logger = logger;
+    this.ttlSeconds = config.execution.orderTtlSeconds;
+    this.staleAction = config.execution.staleOrderAction;
+    this.maxReprices = config.execution.maxReprices;
+    this.fees = config.fees;
+    this.shadow = config.execution.shadow;
+    this.validator = new OrderValidator(kalshi, this, config, logger);
+  }
+
+  /**
+   * Place a limit order that Kalshi will cancel after the configured TTL,
+   * and start tracking it in the trade log. Every order must first pass the
+   * pre-trade checks (see OrderValidator); a rejected one is logged and
+   * null returned.
+   *
+   * In shadow mode the signed request is logged instead of sent, and the
+   * returned record — cancelled, with no order id — is not tracked.
+   */
+  async submit(signal: TradeSignal, reprices = 0, checks: ValidationOptions = {}): Promise<TradeRecord | null> {
+    const rejection = await this.validator.validate(signal, checks);
+    if (rejection) {
+      this.logger.warn(`Order rejected for ${signal.edge.ticker} (${rejection.code}): ${rejection.reason}`);
+      return null;
+    }
+
+    const expirationTs = Math.floor(Date.now() / 1000) + this.ttlSeconds;
+    const order: KalshiOrderRequest = {
+      ticker: signal.edge.ticker,
+      action: signal.action,
+      side: signal.side,
+      type: "limit",
+      count: signal.contracts,
+      yesPrice: signal.side === "yes" ? signal.limitPrice : undefined,
+      noPrice: signal.side === "no" ? signal.limitPrice : undefined,
+      expiration_ts: expirationTs,
+    };
+
+    if (this.shadow) {
+      const request = this.kalshi.signOrder(order);
+      this.logger.info(
+        `[SHADOW] Not sent: ${order.action} ${order.count}x ${order.side.toUpperCase()} ${order.ticker} @ ` +
+        `${signal.limitPrice}¢ — ${request.method} ${request.url} ` +
+        `headers=${JSON.stringify(request.headers)} body=${request.body}`
+      );
+      return {
+        id: randomUUID(),
+        signal,
+        executedAt: new Date(),
+        filled: false,
+        mode: "live",
+        orderStatus: "cancelled",
+        filledContracts: 0,
+        expirationTs,
+        reprices,
+      };
+    }
+
+    const result = await this.kalshi.placeOrder(order);
+    this.logger.info(`LIVE order placed: ${result.order.order_id} (expires in ${this.ttlSeconds}s)`);
+
+    const record: TradeRecord = {
+      id: randomUUID(),
+      signal,
+      executedAt: new Date(),
+      filled: false,
+      orderId: result.order.order_id,
+      mode: "live",
+      orderStatus: "resting",
+      filledContracts: 0,
+      expirationTs,
+      reprices,
+    };
+    this.tradeLog.append(record);
+    return record;
+  }
+
+  /**
+   * Place an order and keep only what fills on arrival: whatever would rest
+   * is cancelled straight away. Used where a resting remainder would leave
+   * us exposed, like the legs of a basket.
+   */
+  async submitImmediate(signal: TradeSignal, checks: ValidationOptions = {}): Promise<TradeRecord | null> {
+    const record = await this.submit(signal, 0, checks);
+    if (!record?.orderId) return record; // rejected, or shadow: nothing was sent
+    let order = await this.kalshi.getOrder(record.orderId!);
+    if (order.status === "resting") {
+      await this.kalshi.cancelOrder(record.orderId!);
+      order = { ...order, status: "canceled" };
+    }
+    const fills = await this.kalshi.getFills({ orderId: record.orderId });
+    const updated = this.applyOrderState(record, order, fills);
+    this.tradeLog.append(updated);
+    return updated;
+  }
+
+  /** Orders we placed that are still working on the book */
+  getOpenOrders(): TradeRecord[] {
+    return this.tradeLog
+      .getTrades()
+      .filter((t) => t.orderId && t.orderStatus && OPEN_STATUSES.includes(t.orderStatus));
+  }
+
+  /**
+   * Refresh every open order: pull status and fills from Kalshi, update the
+   * trade record, and handle orders that outlived their TTL.
+   */
+  async poll(): Promise<void> {
+    const open = this.getOpenOrders();
+    if (open.length === 0) return;
+
+    for (const record of open) {
+      try {
+        const order = await this.kalshi.getOrder(record.orderId!);
+        const fills = await this.kalshi.getFills({ orderId: record.orderId });
+        const updated = this.applyOrderState(record, order, fills);
+
+        if (updated.orderStatus !== record.orderStatus || updated.filledContracts !== record.filledContracts) {
+          this.tradeLog.append(updated);
+          this.logger.info(
+            `Order ${record.orderId} on ${record.signal.edge.ticker}: ${updated.orderStatus} ` +
+            `(${updated.filledContracts}/${record.signal.contracts} filled` +
+            `${updated.fillPrice !== undefined ? ` @ ${updated.fillPrice.toFixed(1)}¢` : ""})`
+          );
+        }
+
+        // Safety net: cancel if still working past its expiry (e.g. clock skew)
+        if (OPEN_STATUSES.includes(updated.orderStatus!) && this.isPastExpiry(updated)) {
+          await this.kalshi.cancelOrder(record.orderId!);
+          updated.orderStatus = "expired";
+          this.tradeLog.append(updated);
+        }
+
+        if (updated.orderStatus === "expired" && this.staleAction === "reprice") {
+          await this.reprice(updated);
+        }
+      } catch (err) {
+        this.logger.warn(`Could not refresh order ${record.orderId}: ${err}`);
+      }
+    }
+  }
+
+  /**
+   * Cancel every open order we're tracking, recording the fills each got
+   * since the last poll (a cancelled order is never polled again). Returns
+   * how many were cancelled.
+   */
+  async cancelAll(reason: string): Promise<number> {
+    let cancelled = 0;
+    for (const record of this.getOpenOrders()) {
+      try {
+        await this.kalshi.cancelOrder(record.orderId!);
+        const order = await this.kalshi.getOrder(record.orderId!);
+        const fills = await this.kalshi.getFills({ orderId: record.orderId });
+        this.tradeLog.append({ ...this.applyOrderState(record, order, fills), orderStatus: "cancelled" });
+        cancelled++;
+      } catch (err) {
+        this.logger.error(`Failed to cancel order ${record.orderId}: ${err}`);
+      }
+    }
+    if (cancelled > 0) this.logger.warn(`Cancelled ${cancelled} open orders: ${reason}`);
+    return cancelled;
+  }
+
+  // --- Helpers ---
+
+  /** Fills that crossed the book pay the taker rate; fills against our resting order pay the maker rate */
+  private applyOrderState(record: TradeRecord, order: KalshiOrder, fills: KalshiFill[]): TradeRecord {
+    const priceOf = (f: KalshiFill) => (record.signal.side === "yes" ? f.yes_price : f.no_price);
+    const filledContracts = fills.reduce((sum, f) => sum + f.count, 0);
+    const fillCost = fills.reduce((sum, f) => sum + f.count * priceOf(f), 0);
+    const feeCents = fills.reduce((sum, f) => sum + fillFeeCents(f.count, priceOf(f), f.is_taker, this.fees), 0);
+
+    let orderStatus: OrderStatus;
+    switch (order.status) {
+      case "executed":
+        orderStatus = "filled";
+        break;
+      case "canceled":
+        // Kalshi reports TTL expiry as a cancel — tell them apart by the clock
+        orderStatus = this.isPastExpiry(record) ? "expired" : "cancelled";
+        break;
+      default: // resting, pending
+        orderStatus = filledContracts > 0 ? "partially_filled" : "resting";
+    }
+
+    return {
+      ...record,
+      orderStatus,
+      filledContracts,
+      filled: filledContracts > 0,
+      fillPrice: filledContracts > 0 ? fillCost / filledContracts : undefined,
+      fees: feeCents / 100,
+    };
+  }
+
+  /**
+   * Re-place the unfilled remainder of an expired order at the current ask.
+   * The pre-trade checks in `submit` hold it back unless the original
+   * forecast still shows an edge at that price after fees. Sells have
+   * already been decided on, so they go to the current bid.
+   */
+  private async reprice(record: TradeRecord): Promise<void> {
+    const reprices = record.reprices ?? 0;
+    const remaining = record.signal.contracts - (record.filledContracts ?? 0);
+    if (remaining <= 0 || reprices >= this.maxReprices) return;
+
+    const { signal } = record;
+    const market = await this.kalshi.getMarket(signal.edge.ticker);
+    if (signal.action === "sell") {
+      const bid = signal.side === "yes" ? market.yesBid : market.noBid;
+      if (market.status !== "open" || bid <= 0) return;
+      this.logger.info(
+        `Repricing exit ${signal.edge.ticker}: ${remaining}x ${signal.side.toUpperCase()} ` +
+        `${signal.limitPrice}¢ → ${bid}¢ (attempt ${reprices + 1}/${this.maxReprices})`
+      );
+      await this.submit(this.withPrice(signal, market, remaining, bid), reprices + 1);
+      return;
+    }
+
+    const ask = signal.side === "yes" ? market.yesAsk : market.noAsk;
+    if (market.status !== "open" || ask <= 0 || ask >= 100) return;
+
+    this.logger.info(
+      `Repricing ${signal.edge.ticker}: ${remaining}x ${signal.side.toUpperCase()} ` +
+      `${signal.limitPrice}¢ → ${ask}¢ (attempt ${reprices + 1}/${this.maxReprices})`
+    );
+    await this.submit(this.withPrice(signal, market, remaining, ask), reprices + 1);
+  }
+
+  /** The signal re-priced against a fresh quote, which later price-move checks start from */
+  private withPrice(signal: TradeSignal, market: KalshiMarket, contracts: number, price: number): TradeSignal {
+    return {
+      ...signal,
+      edge: { ...signal.edge, market },
+      contracts,
+      limitPrice: price,
+      expectedFillPrice: price,
+      slippageCents: 0,
+      expectedFees: fillFeeCents(contracts, price, true, this.fees) / 100,
+    };
+  }
+
+  private isPastExpiry(record: TradeRecord): boolean {
+    return record.expirationTs !== undefined && Date.now() / 1000 >= record.expirationTs;
+  }
+}
@@ -0,0 +1,119 @@
+// ============================================================
+// Order Validator — Pre-trade checks before a live order goes out
+// ============================================================
+
+import type { AgentConfig, FeeSchedule, KalshiMarket, OrderRejection, TradeSignal } from "../types/index.js";
+import type { KalshiClient } from "../api/kalshi-client.js";
+import type { OrderManager } from "./order-manager.js";
+import type { Logger } from "../utils/logger.js";
+import { exitPrice } from "./mark-to-market.js";
+import { feePerContract } from "../risk/fees.js";
+
+/** Checks a caller may leave out */
+export interface ValidationOptions {
+  checkEdge?: boolean;      // false for basket legs, whose model probability is just the price
+}
+
+/**
+ * Last line of defence between a signal and `placeOrder`. Each signal is
+ * checked against a fresh quote for its market:
+ *
+ *   - the limit price is a whole number of cents in 1–99, the count positive
+ *   - the market is still open and not past its expiration
+ *   - the price we'd trade against (ask for buys, bid for sells) has moved no
+ *     more than `maxPriceMoveCents` since the edge was priced
+ *   - a buy still clears `minEdgeThreshold` after fees at the fresh ask
+ *     (unless `checkEdge` is off)
+ *   - no order on the same market, side and action is still working
+ *
+ * The first failed check is returned with a human-readable reason. The
+ * order manager runs it on every live order it places, reprices included.
+ */
+export class OrderValidator {
+  private kalshi: KalshiClient;
+  private orderManager: OrderManager;
+  private maxPriceMoveCents: number;
+  private minEdge: number;
+  private fees: FeeSchedule;
+  private logger: Logger;
+
+  constructor(kalshi: KalshiClient, orderManager: OrderManager, config: AgentConfig, logger: Logger) {
+    this.kalshi = kalshi;
+    this.orderManager = orderManager;
+    this.maxPriceMoveCents = config.execution.maxPriceMoveCents;
+    this.minEdge = config.trading.minEdgeThreshold;
+    this.fees = config.fees;
+    this.logger = logger;
+  }
+
+  /** Null when the order may go out, else why it may not */
+  async validate(signal: TradeSignal, options: ValidationOptions = {}): Promise<OrderRejection | null> {
+    const { ticker } = signal.edge;
+
+    if (!Number.isInteger(signal.limitPrice) || signal.limitPrice < 1 || signal.limitPrice > 99) {
+      return { code: "invalid_price", reason: `limit price ${signal.limitPrice}¢ is not a whole number in 1–99¢` };
+    }
+    if (!Number.isInteger(signal.contracts) || signal.contracts <= 0) {
+      return { code: "invalid_size", reason: `contract count ${signal.contracts} is not a positive whole number` };
+    }
+
+    const duplicate = this.orderManager
+      .getOpenOrders()
+      .find(
+        (o) => o.signal.edge.ticker === ticker && o.signal.side === signal.side && o.signal.action === signal.action
+      );
+    if (duplicate) {
+      return {
+        code: "duplicate",
+        reason: `${signal.action} ${signal.side.toUpperCase()} order ${duplicate.orderId} is already working`,
+      };
+    }
+
+    let market: KalshiMarket;
+    try {
+      market = await this.kalshi.getMarket(ticker);
+    } catch (err) {
+      return { code: "market_unavailable", reason: `could not fetch a fresh quote: ${err}` };
+    }
+    if (market.status !== "open") {
+      return { code: "market_closed", reason: `market is ${market.status}` };
+    }
+    if (Date.parse(market.expirationDate) <= Date.now()) {
+      return { code: "market_closed", reason: `market expired at ${market.expirationDate}` };
+    }
+
+    const quoted = this.tradePrice(signal.edge.market, signal);
+    const current = this.tradePrice(market, signal);
+    const side = signal.action === "buy" ? "ask" : "bid";
+    if (current <= 0 || current >= 100) {
+      return { code: "price_moved", reason: `no ${signal.side.toUpperCase()} ${side} left to trade against` };
+    }
+    if (Math.abs(current - quoted) > this.maxPriceMoveCents) {
+      return {
+        code: "price_moved",
+        reason:
+          `${signal.side.toUpperCase()} ${side} moved ${quoted}¢ → ${current}¢ since the edge was priced ` +
+          `(tolerance ${this.maxPriceMoveCents}¢)`,
+      };
+    }
+
+    if (signal.action === "buy" && options.checkEdge !== false) {
+      const edge = signal.edge.modelProb - (current + feePerContract(current, this.fees.takerRate)) / 100;
+      if (edge < this.minEdge) {
+        return {
+          code: "edge_gone",
+          reason: `edge at the ${current}¢ ask after fees is ${(edge * 100).toFixed(1)}%, below threshold`,
+        };
+      }
+    }
+
+    this.logger.debug(`Order for ${ticker} passed pre-trade checks`);
+    return null;
+  }
+
+  /** What the order trades against: the ask for buys, the bid for sells */
+  private tradePrice(market: KalshiMarket, signal: TradeSignal): number {
+    if (signal.action === "sell") return exitPrice(market, signal.side);
+    return signal.side === "yes" ? market.yesAsk : market.noAsk;
+  }
+}
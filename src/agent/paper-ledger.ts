@@ -0,0 +1,60 @@
+// ============================================================
+// Paper Ledger — On-disk persistence for paper-trading accounts
+// ============================================================
+
+import fs from "node:fs";
+import path from "node:path";
+import type { PaperLedger } from "../types/index.js";
+import { reviveTradeRecord } from "./trade-log.js";
+
+const ACCOUNT_NAME_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+/** Path of the ledger file for a named account */
+export function paperLedgerPath(dataDir: string, account: string): string {
+  if (!ACCOUNT_NAME_PATTERN.test(account)) {
+    throw new Error(`Invalid paper account name "${account}" (use letters, digits, - and _)`);
+  }
+  return path.join(dataDir, "paper", `${account}.json`);
+}
+
+/** Load a ledger, reviving Date fields. Returns undefined if it doesn't exist. */
+export function loadPaperLedger(filePath: string): PaperLedger | undefined {
+  if (!fs.existsSync(filePath)) return undefined;
+
+  const ledger = JSON.parse(fs.readFileSync(filePath, "utf8")) as PaperLedger;
+  ledger.trades = ledger.trades.map(reviveTradeRecord);
+  return ledger;
+}
+
+/** Write a ledger atomically (temp file + rename) so a crash can't truncate it */
+export function savePaperLedger(filePath: string, ledger: PaperLedger): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  const tmpPath = `${filePath}.tmp`;
+  fs.writeFileSync(tmpPath, JSON.stringify(ledger, null, 2));
+  fs.renameSync(tmpPath, filePath);
+}
+
+/** All saved paper accounts under the data directory */
+export function listPaperLedgers(dataDir: string): PaperLedger[] {
+  const dir = path.join(dataDir, "paper");
+  if (!fs.existsSync(dir)) return [];
+
+  return fs
+    .readdirSync(dir)
+    .filter((f) => f.endsWith(".json"))
+    .map((f) => loadPaperLedger(path.join(dir, f)))
+    .filter((l): l is PaperLedger => l !== undefined);
+}
+
+/**
+ * Reset an account by moving its ledger aside to a timestamped backup.
+ * Returns the backup path, or undefined if there was nothing to reset.
+ */
+export function archivePaperLedger(filePath: string): string | undefined {
+  if (!fs.existsSync(filePath)) return undefined;
+
+  const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+  const backupPath = filePath.replace(/\.json$/, `.${stamp}.bak`);
+  fs.renameSync(filePath, backupPath);
+  return backupPath;
+}
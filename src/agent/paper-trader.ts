@@ -3,57 +3,151 @@
 // ============================================================
 
 import { randomUUID } from "node:crypto";
-import type { TradeSignal, TradeRecord, Portfolio, Position } from "../types/index.js";
+import path from "node:path";
+import type {
+  TradeSignal,
+  TradeRecord,
+  Portfolio,
+  Position,
+  PaperLedger,
+  KalshiMarket,
+  LlmCostSummary,
+  OrderBook,
+  FeeSchedule,
+} from "../types/index.js";
 import type { Logger } from "../utils/logger.js";
+import { loadPaperLedger, savePaperLedger } from "./paper-ledger.js";
+import { exitPrice, markPositions, positionUnrealizedPnl, totalUnrealizedPnl, tradePnl, voidedValue } from "./mark-to-market.js";
+import { askLevels, bidLevels, fillContracts, sellContracts } from "../risk/book-depth.js";
+import { tradingFeeCents } from "../risk/fees.js";
+
+/** A paper order's record, plus the P&L booked when it closed out a position */
+export interface PaperExecution {
+  record: TradeRecord;
+  closedPnl?: number;
+}
 
 export class PaperTrader {
   private trades: TradeRecord[] = [];
   private positions: Map<string, Position> = new Map();
   private balance: number;
   private initialBalance: number;
+  private takerRate: number;
   private logger: Logger;
+  private ledgerPath?: string;
+  private account: string;
+  private createdAt: string;
 
-  constructor(initialBalanceUsd: number, logger: Logger) {
+  /**
+   * @param fees       Every paper order crosses the book, so fills pay the taker rate.
+   * @param ledgerPath If set, the account is loaded from this file when it
+   *                   exists and saved back after every trade or settlement.
+   *                   Without it the account lives in memory only (backtests).
+   */
+  constructor(initialBalanceUsd: number, fees: FeeSchedule, logger: Logger, ledgerPath?: string) {
     this.balance = initialBalanceUsd;
     this.initialBalance = initialBalanceUsd;
+    this.takerRate = fees.takerRate;
     this.logger = logger;
-    this.logger.info(`Paper trader initialized with $${initialBalanceUsd} balance`);
+    this.ledgerPath = ledgerPath;
+    this.account = ledgerPath ? path.basename(ledgerPath, ".json") : "memory";
+    this.createdAt = new Date().toISOString();
+
+    const ledger = ledgerPath ? loadPaperLedger(ledgerPath) : undefined;
+    if (ledger) {
+      this.account = ledger.account;
+      this.createdAt = ledger.createdAt;
+      this.initialBalance = ledger.initialBalanceUsd;
+      this.balance = ledger.balanceUsd;
+      this.trades = ledger.trades;
+      this.positions = new Map(ledger.positions.map((p) => [p.ticker, p]));
+      this.logger.info(
+        `Paper account "${this.account}" restored: $${this.balance.toFixed(2)} balance, ` +
+        `${this.positions.size} open positions, ${this.trades.length} trades`
+      );
+    } else {
+      this.logger.info(`Paper trader initialized with $${initialBalanceUsd} balance`);
+      this.save();
+    }
   }
 
-  /** Execute a trade signal in paper mode */
-  execute(signal: TradeSignal): TradeRecord {
-    const cost = (signal.contracts * signal.limitPrice) / 100;
+  /**
+   * Execute a trade signal in paper mode. With an order book, the order walks
+   * the ask levels (bids, for a sell) up to its limit price and may fill only
+   * partly; without one it fills in full at the signal's expected price.
+   * Taker fees are charged per level crossed.
+   */
+  execute(signal: TradeSignal, book?: OrderBook): PaperExecution {
+    return signal.action === "sell" ? this.sell(signal, book) : { record: this.buy(signal, book) };
+  }
+
+  private buy(signal: TradeSignal, book?: OrderBook): TradeRecord {
+    let contracts = signal.contracts;
+    let fillPrice = signal.expectedFillPrice ?? signal.limitPrice;
+    let feeCents: number;
+    if (book) {
+      const fill = fillContracts(askLevels(book, signal.side), signal.contracts, signal.limitPrice, this.takerRate);
+      contracts = fill.contracts;
+      fillPrice = fill.avgPrice;
+      feeCents = fill.feeCents;
+    } else {
+      feeCents = tradingFeeCents(contracts, fillPrice, this.takerRate);
+    }
+
+    if (contracts === 0) {
+      this.logger.warn(`[PAPER] No liquidity for ${signal.edge.ticker} at or below ${signal.limitPrice}¢`);
+      return {
+        id: randomUUID(),
+        signal,
+        executedAt: new Date(),
+        filled: false,
+        filledContracts: 0,
+        mode: "paper",
+      };
+    }
+
+    const cost = (contracts * fillPrice) / 100;
+    const fees = feeCents / 100;
 
-    if (cost > this.balance) {
-      this.logger.warn(`Insufficient balance for ${signal.edge.ticker}: need $${cost.toFixed(2)}, have $${this.balance.toFixed(2)}`);
+    if (cost + fees > this.balance) {
+      this.logger.warn(
+        `Insufficient balance for ${signal.edge.ticker}: need $${(cost + fees).toFixed(2)}, have $${this.balance.toFixed(2)}`
+      );
       return {
         id: randomUUID(),
         signal,
         executedAt: new Date(),
         filled: false,
+        filledContracts: 0,
         mode: "paper",
       };
     }
 
-    // Deduct cost
-    this.balance -= cost;
+    // Deduct cost and fees
+    this.balance -= cost + fees;
 
     // Add/update position
     const existing = this.positions.get(signal.edge.ticker);
     if (existing && existing.side === signal.side) {
       // Average in
-      const totalContracts = existing.contracts + signal.contracts;
+      const totalContracts = existing.contracts + contracts;
       existing.avgPrice =
-        (existing.avgPrice * existing.contracts + signal.limitPrice * signal.contracts) / totalContracts;
+        (existing.avgPrice * existing.contracts + fillPrice * contracts) / totalContracts;
+      if (existing.entryEdge !== undefined) {
+        existing.entryEdge =
+          (existing.entryEdge * existing.contracts + signal.edge.edge * contracts) / totalContracts;
+      }
       existing.contracts = totalContracts;
     } else {
       this.positions.set(signal.edge.ticker, {
         ticker: signal.edge.ticker,
         side: signal.side,
-        contracts: signal.contracts,
-        avgPrice: signal.limitPrice,
-        currentPrice: signal.limitPrice,
+        contracts,
+        avgPrice: fillPrice,
+        currentPrice: exitPrice(signal.edge.market, signal.side),
         marketTitle: signal.edge.market.title,
+        entryEdge: signal.edge.edge,
+        basketId: signal.basketId,
       });
     }
 
@@ -61,38 +155,126 @@ export class PaperTrader {
       id: randomUUID(),
       signal,
       executedAt: new Date(),
-      fillPrice: signal.limitPrice,
+      fillPrice,
       filled: true,
+      filledContracts: contracts,
+      fees,
       mode: "paper",
     };
 
     this.trades.push(record);
+    this.save();
+    const partial = contracts < signal.contracts ? ` (${contracts}/${signal.contracts} filled)` : "";
     this.logger.info(
-      `[PAPER] Executed: BUY ${signal.contracts}x ${signal.side.toUpperCase()} ${signal.edge.ticker} @ ${signal.limitPrice}¢ ($${cost.toFixed(2)})`
+      `[PAPER] Executed: BUY ${contracts}x ${signal.side.toUpperCase()} ${signal.edge.ticker} ` +
+      `@ ${fillPrice.toFixed(1)}¢ ($${cost.toFixed(2)} + $${fees.toFixed(2)} fees)${partial}`
     );
 
     return record;
   }
 
-  /** Settle a market (call when market resolves) */
-  settle(ticker: string, result: "yes" | "no"): number {
+  /**
+   * Sell out of (part of) a held position into the bids. Proceeds less fees
+   * go to the balance right away; once the position is gone, its P&L is
+   * booked on every trade that built and sold it, and returned as `closedPnl`.
+   */
+  private sell(signal: TradeSignal, book?: OrderBook): PaperExecution {
+    const ticker = signal.edge.ticker;
+    const position = this.positions.get(ticker);
+    const unfilled: TradeRecord = {
+      id: randomUUID(),
+      signal,
+      executedAt: new Date(),
+      filled: false,
+      filledContracts: 0,
+      mode: "paper",
+    };
+    if (!position || position.side !== signal.side) {
+      this.logger.warn(`[PAPER] Can't sell ${signal.side.toUpperCase()} ${ticker}: no such position`);
+      return { record: unfilled };
+    }
+
+    let contracts = Math.min(signal.contracts, position.contracts);
+    let fillPrice = signal.expectedFillPrice ?? signal.limitPrice;
+    let feeCents: number;
+    if (book) {
+      const fill = sellContracts(bidLevels(book, signal.side), contracts, signal.limitPrice, this.takerRate);
+      contracts = fill.contracts;
+      fillPrice = fill.avgPrice;
+      feeCents = fill.feeCents;
+    } else {
+      feeCents = tradingFeeCents(contracts, fillPrice, this.takerRate);
+    }
+    if (contracts === 0) {
+      this.logger.warn(`[PAPER] No bids for ${ticker} at or above ${signal.limitPrice}¢`);
+      return { record: unfilled };
+    }
+
+    const proceeds = (contracts * fillPrice) / 100;
+    const fees = feeCents / 100;
+    this.balance += proceeds - fees;
+    position.contracts -= contracts;
+
+    const record: TradeRecord = {
+      id: randomUUID(),
+      signal,
+      executedAt: new Date(),
+      fillPrice,
+      filled: true,
+      filledContracts: contracts,
+      fees,
+      mode: "paper",
+    };
+    this.trades.push(record);
+
+    const partial = contracts < signal.contracts ? ` (${contracts}/${signal.contracts} filled)` : "";
+    this.logger.info(
+      `[PAPER] Executed: SELL ${contracts}x ${signal.side.toUpperCase()} ${ticker} ` +
+      `@ ${fillPrice.toFixed(1)}¢ ($${proceeds.toFixed(2)} − $${fees.toFixed(2)} fees)${partial}`
+    );
+
+    let closedPnl: number | undefined;
+    if (position.contracts === 0) {
+      this.positions.delete(ticker);
+      // Buys and sells net to zero contracts, so the value used doesn't matter
+      closedPnl = this.bookTrades(ticker, () => 0);
+      this.logger.info(`[PAPER] Closed ${ticker} → P&L: ${closedPnl >= 0 ? "+" : ""}$${closedPnl.toFixed(2)}`);
+    }
+    this.save();
+    return { record, closedPnl };
+  }
+
+  /**
+   * Settle a market (call when market resolves). P&L is net of the fees
+   * paid on the position's fills, and includes anything already sold out
+   * of it. A voided market refunds the cost basis, but not the fees.
+   */
+  settle(ticker: string, result: "yes" | "no" | "voided"): number {
     const position = this.positions.get(ticker);
     if (!position) return 0;
 
-    let pnl: number;
-    if (position.side === result) {
-      // Won: receive $1 per contract, subtract cost
-      const revenue = position.contracts; // $1 per contract
-      const cost = (position.contracts * position.avgPrice) / 100;
-      pnl = revenue - cost;
+    const cost = (position.contracts * position.avgPrice) / 100;
+    let payout: number;
+    if (result === "voided") {
+      // Voided: stake returned
+      payout = cost;
+    } else if (position.side === result) {
+      // Won: receive $1 per contract
+      payout = position.contracts;
     } else {
       // Lost: lose entire cost
-      pnl = -(position.contracts * position.avgPrice) / 100;
+      payout = 0;
     }
 
-    this.balance += (position.contracts * (position.side === result ? 100 : 0)) / 100;
+    this.balance += payout;
     this.positions.delete(ticker);
 
+    const voided = result === "voided" ? voidedValue(this.trades, ticker) : 0;
+    const pnl = this.bookTrades(ticker, (trade) =>
+      result === "voided" ? voided : trade.signal.side === result ? 100 : 0
+    );
+    this.save();
+
     this.logger.info(
       `[PAPER] Settled ${ticker}: ${result.toUpperCase()} → P&L: ${pnl >= 0 ? "+" : ""}$${pnl.toFixed(2)}`
     );
@@ -114,7 +296,27 @@ export class PaperTrader {
       positions,
       totalExposureUsd: totalExposure,
       realizedPnl,
-      unrealizedPnl: 0, // Would need live prices to calculate
+      unrealizedPnl: totalUnrealizedPnl(positions),
+    };
+  }
+
+  /** Revalue open positions at the current bid from a fresh market list */
+  markToMarket(markets: KalshiMarket[]): void {
+    if (this.positions.size === 0) return;
+    markPositions(Array.from(this.positions.values()), new Map(markets.map((m) => [m.ticker, m])));
+    this.save();
+  }
+
+  /** Snapshot of the full account state, as persisted to disk */
+  toLedger(): PaperLedger {
+    return {
+      account: this.account,
+      createdAt: this.createdAt,
+      updatedAt: new Date().toISOString(),
+      initialBalanceUsd: this.initialBalance,
+      balanceUsd: this.balance,
+      positions: Array.from(this.positions.values()),
+      trades: this.trades,
     };
   }
 
@@ -123,31 +325,67 @@ export class PaperTrader {
     return [...this.trades];
   }
 
-  /** Print a summary report */
-  printSummary(): void {
+  /** Print balances and P&L; pass the LLM cost summary to net forecasting spend against P&L */
+  printSummary(llmCost?: LlmCostSummary): void {
     const portfolio = this.getPortfolio();
     const totalTrades = this.trades.length;
     const filledTrades = this.trades.filter((t) => t.filled).length;
 
     console.log("\n" + "=".repeat(60));
-    console.log("  PAPER TRADING SUMMARY");
+    console.log(`  PAPER TRADING SUMMARY — account "${this.account}"`);
     console.log("=".repeat(60));
     console.log(`  Initial Balance:   $${this.initialBalance.toFixed(2)}`);
     console.log(`  Current Balance:   $${portfolio.balanceUsd.toFixed(2)}`);
     console.log(`  Open Positions:    ${portfolio.positions.length}`);
     console.log(`  Total Exposure:    $${portfolio.totalExposureUsd.toFixed(2)}`);
     console.log(`  Total Trades:      ${totalTrades} (${filledTrades} filled)`);
-    console.log(`  Realized P&L:      ${portfolio.realizedPnl >= 0 ? "+" : ""}$${portfolio.realizedPnl.toFixed(2)}`);
+    console.log(`  Fees Paid:         $${this.trades.reduce((sum, t) => sum + (t.fees ?? 0), 0).toFixed(2)}`);
+    console.log(`  Realized P&L:      ${formatUsd(portfolio.realizedPnl)}`);
+    console.log(`  Unrealized P&L:    ${formatUsd(portfolio.unrealizedPnl)} (marked at bid)`);
+    console.log(`  Total P&L:         ${formatUsd(portfolio.realizedPnl + portfolio.unrealizedPnl)}`);
+    if (llmCost) {
+      const budget = llmCost.dailyBudgetUsd > 0 ? ` of $${llmCost.dailyBudgetUsd.toFixed(2)} budget` : "";
+      console.log(`  LLM Cost (today):  $${llmCost.todayUsd.toFixed(2)}${budget} — ${llmCost.calls} calls, ` +
+        `${llmCost.inputTokens + llmCost.outputTokens} tokens, ${llmCost.webSearches} searches`);
+      console.log(`  LLM Cost (total):  $${llmCost.totalUsd.toFixed(2)}`);
+      console.log(`  P&L net of LLM:    ${formatUsd(portfolio.realizedPnl + portfolio.unrealizedPnl - llmCost.totalUsd)}`);
+    }
     console.log("=".repeat(60));
 
     if (portfolio.positions.length > 0) {
       console.log("\n  OPEN POSITIONS:");
       for (const pos of portfolio.positions) {
         console.log(
-          `  ${pos.side.toUpperCase().padEnd(4)} ${pos.contracts}x ${pos.ticker.padEnd(30)} @ ${pos.avgPrice}¢ — ${pos.marketTitle}`
+          `  ${pos.side.toUpperCase().padEnd(4)} ${pos.contracts}x ${pos.ticker.padEnd(30)} ` +
+          `@ ${pos.avgPrice.toFixed(0)}¢ → ${pos.currentPrice}¢ ${formatUsd(positionUnrealizedPnl(pos)).padStart(9)} — ${pos.marketTitle}`
         );
       }
     }
     console.log("");
   }
+
+  /**
+   * Attribute P&L back to the individual fills of a closed position, at the
+   * contract value `valueOf` gives. Returns the position's total.
+   */
+  private bookTrades(ticker: string, valueOf: (trade: TradeRecord) => number): number {
+    let pnl = 0;
+    for (const trade of this.trades) {
+      if (trade.signal.edge.ticker !== ticker || !trade.filled || trade.pnl !== undefined) continue;
+      trade.pnl = tradePnl(trade, valueOf(trade));
+      pnl += trade.pnl;
+    }
+    return pnl;
+  }
+
+  // --- Persistence ---
+
+  private save(): void {
+    if (!this.ledgerPath) return;
+    savePaperLedger(this.ledgerPath, this.toLedger());
+  }
+}
+
+function formatUsd(amount: number): string {
+  return `${amount >= 0 ? "+" : "-"}$${Math.abs(amount).toFixed(2)}`;
 }
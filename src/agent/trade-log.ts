@@ -0,0 +1,73 @@
+// ============================================================
+// Trade Log — Append-only local record of live trades
+// ============================================================
+
+import path from "node:path";
+import type { TradeRecord } from "../types/index.js";
+import { appendJsonl, readJsonl } from "../utils/jsonl.js";
+
+/** Net contracts per ticker and side that our own records say we hold */
+export type ExpectedHoldings = Map<string, { side: "yes" | "no"; contracts: number }>;
+
+/**
+ * Live trades are appended as JSON lines. Updating a trade (a fill, a
+ * settlement) appends a new copy with the same id; the latest copy wins.
+ */
+export class TradeLog {
+  private filePath: string;
+
+  constructor(dataDir: string) {
+    this.filePath = path.join(dataDir, "live", "trades.jsonl");
+  }
+
+  append(record: TradeRecord): void {
+    appendJsonl(this.filePath, record);
+  }
+
+  /** Latest version of every trade, in first-seen order */
+  getTrades(): TradeRecord[] {
+    const latest = new Map<string, TradeRecord>();
+    for (const raw of readJsonl<TradeRecord>(this.filePath)) {
+      latest.set(raw.id, reviveTradeRecord(raw));
+    }
+    return [...latest.values()];
+  }
+
+  /**
+   * Net holdings implied by filled, not-yet-settled trades. YES and NO
+   * contracts in the same market net against each other, as on Kalshi.
+   */
+  getExpectedHoldings(): ExpectedHoldings {
+    const net = new Map<string, number>(); // > 0 YES, < 0 NO
+    for (const trade of this.getTrades()) {
+      if (!trade.filled || trade.pnl !== undefined) continue;
+      const contracts = trade.filledContracts ?? trade.signal.contracts;
+      const signed =
+        (trade.signal.side === "yes" ? 1 : -1) * (trade.signal.action === "buy" ? 1 : -1) * contracts;
+      net.set(trade.signal.edge.ticker, (net.get(trade.signal.edge.ticker) ?? 0) + signed);
+    }
+
+    const holdings: ExpectedHoldings = new Map();
+    for (const [ticker, position] of net) {
+      if (position === 0) continue;
+      holdings.set(ticker, { side: position > 0 ? "yes" : "no", contracts: Math.abs(position) });
+    }
+    return holdings;
+  }
+}
+
+/** Restore Date fields on a trade record parsed from JSON */
+export function reviveTradeRecord(trade: TradeRecord): TradeRecord {
+  const forecast = trade.signal.edge.forecast;
+  return {
+    ...trade,
+    executedAt: new Date(trade.executedAt),
+    signal: {
+      ...trade.signal,
+      edge: {
+        ...trade.signal.edge,
+        forecast: { ...forecast, timestamp: new Date(forecast.timestamp) },
+      },
+    },
+  };
+}
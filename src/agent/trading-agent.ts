@@ -2,38 +2,126 @@
 // Trading Agent — Main orchestration loop
 // ============================================================
 
-import type { AgentConfig, TradeSignal } from "../types/index.js";
+import type {
+  AgentConfig,
+  Forecast,
+  Forecaster,
+  KalshiEvent,
+  KalshiMarket,
+  NewsItem,
+  OrderBook,
+  Portfolio,
+  TradeRecord,
+  TradeSignal,
+} from "../types/index.js";
 import { KalshiClient } from "../api/kalshi-client.js";
-import { LLMForecaster } from "../forecaster/llm-forecaster.js";
+import { KalshiWebSocket } from "../api/kalshi-ws.js";
+import { MarketCache } from "../api/market-cache.js";
+import { createForecaster } from "../forecaster/create-forecaster.js";
+import { ForecastStore } from "../forecaster/forecast-store.js";
+import { CostTracker } from "../forecaster/cost-tracker.js";
+import { ContextProvider } from "../context/context-provider.js";
+import { newsSnippet } from "../context/news-source.js";
+import { NewsIngestor } from "../news/news-ingestor.js";
 import { EdgeDetector } from "./edge-detector.js";
 import { RiskManager } from "../risk/risk-manager.js";
+import { CircuitBreaker, breakerStatePath } from "../risk/circuit-breaker.js";
+import { ExitEngine } from "../risk/exit-engine.js";
 import { PaperTrader } from "./paper-trader.js";
+import { paperLedgerPath } from "./paper-ledger.js";
+import { basketPnl } from "./mark-to-market.js";
+import { TradeLog } from "./trade-log.js";
+import { LivePortfolio } from "./live-portfolio.js";
+import { OrderManager } from "./order-manager.js";
+import { BasketDetector, describeBasket } from "../arbitrage/basket-detector.js";
+import { BasketExecutor } from "../arbitrage/basket-executor.js";
 import { isLLMForecastable, hasTightSpread, selectDiverseCandidates } from "../utils/market-filter.js";
 import type { Logger } from "../utils/logger.js";
 
 export type ExecutionMode = "paper" | "live";
 
+/** Context score for the item that triggered a re-forecast: just below the rules */
+const BREAKING_NEWS_SCORE = 0.95;
+
 export class TradingAgent {
   private kalshi: KalshiClient;
-  private forecaster: LLMForecaster;
+  /** Set when MARKET_DATA_SOURCE=websocket */
+  private marketCache?: MarketCache;
+  private forecaster: Forecaster;
+  private costTracker: CostTracker;
+  private contextProvider: ContextProvider;
+  private newsIngestor: NewsIngestor;
+  private forecastStore: ForecastStore;
   private edgeDetector: EdgeDetector;
   private riskManager: RiskManager;
+  private breaker: CircuitBreaker;
+  private exitEngine: ExitEngine;
   private paperTrader: PaperTrader;
+  private tradeLog: TradeLog;
+  private livePortfolio: LivePortfolio;
+  private orderManager: OrderManager;
+  private basketDetector: BasketDetector;
+  private basketExecutor: BasketExecutor;
   private config: AgentConfig;
   private logger: Logger;
   private mode: ExecutionMode;
   private running = false;
+  /** Forecastable markets from the last cycle — what news is matched against */
+  private watchlist: KalshiMarket[] = [];
+  /** Open events from the last fetch — which markets move together */
+  private events: KalshiEvent[] = [];
+  private eventsFetchedAt = 0;
+  /** The trip whose resting orders were already cancelled */
+  private haltedAt?: string;
 
   constructor(config: AgentConfig, logger: Logger, mode: ExecutionMode = "paper") {
     this.config = config;
     this.logger = logger;
     this.mode = mode;
+    // Real money needs an explicit opt-in; a shadow run only logs its orders
+    const { allowProdOrders, shadow } = config.execution;
+    if (mode === "live" && config.kalshi.environment === "prod" && !allowProdOrders && !shadow) {
+      throw new Error("Live trading on prod needs ALLOW_PROD_ORDERS=true (or SHADOW_LIVE=true for a dry run)");
+    }
 
     this.kalshi = new KalshiClient(config, logger);
-    this.forecaster = new LLMForecaster(config, logger);
-    this.edgeDetector = new EdgeDetector(config, logger);
-    this.riskManager = new RiskManager(config, logger);
-    this.paperTrader = new PaperTrader(1000, logger); // $1000 paper balance
+    if (config.marketData.source === "websocket") {
+      const ws = new KalshiWebSocket(this.kalshi, config, logger);
+      this.marketCache = new MarketCache(this.kalshi, ws, config, logger);
+      if (mode === "live") {
+        ws.subscribe(["fill"]);
+        ws.on("fill", (fill) =>
+          this.logger.info(
+            `Fill: ${fill.action} ${fill.count}x ${fill.side.toUpperCase()} ${fill.market_ticker} @ ` +
+            `${fill.side === "yes" ? fill.yes_price : fill.no_price}¢ (order ${fill.order_id})`
+          )
+        );
+      }
+    }
+    this.costTracker = new CostTracker(config.storage.dataDir, config.forecaster.dailyBudgetUsd, logger);
+    this.forecaster = createForecaster(config, logger, this.costTracker);
+    this.contextProvider = new ContextProvider(config, logger);
+    this.newsIngestor = new NewsIngestor(config, logger);
+    this.forecastStore = new ForecastStore(config.storage.dataDir, logger);
+    this.edgeDetector = new EdgeDetector(config, logger, this.marketCache);
+    this.breaker = new CircuitBreaker(
+      config,
+      logger,
+      breakerStatePath(config.storage.dataDir, mode, config.paper.account)
+    );
+    this.riskManager = new RiskManager(config, logger, this.breaker);
+    this.exitEngine = new ExitEngine(config, logger);
+    this.paperTrader = new PaperTrader(
+      config.paper.startingBalanceUsd,
+      config.fees,
+      logger,
+      paperLedgerPath(config.storage.dataDir, config.paper.account)
+    );
+    this.tradeLog = new TradeLog(config.storage.dataDir);
+    this.livePortfolio = new LivePortfolio(this.kalshi, this.tradeLog, logger);
+    this.orderManager = new OrderManager(this.kalshi, this.tradeLog, config, logger);
+    this.basketDetector = new BasketDetector(config, logger);
+    this.basketExecutor = new BasketExecutor(this.paperTrader, this.orderManager, mode, logger);
 
     this.logger.info(`Trading agent initialized in ${mode.toUpperCase()} mode`);
   }
@@ -41,17 +129,33 @@ export class TradingAgent {
   /** Run a single scan cycle */
   async runCycle(): Promise<void> {
     this.logger.info("--- Starting scan cycle ---");
+    this.costTracker.startCycle();
 
     try {
-      // 1. Fetch all open markets
-      const markets = await this.kalshi.getAllOpenMarkets();
+      // 0. Settle any held positions whose markets have resolved, and
+      //    refresh fills / expiries on our working live orders
+      await this.settleResolvedPositions();
+      if (this.mode === "live") {
+        await this.orderManager.poll();
+      }
+
+      // 1. Fetch all open markets (from the streaming cache when enabled)
+      const markets = this.marketCache
+        ? await this.marketCache.getOpenMarkets()
+        : await this.kalshi.getAllOpenMarkets();
       this.logger.info(`Fetched ${markets.length} open markets`);
 
+      // Revalue held positions at the current bid (live: reconcile with Kalshi)
+      const portfolio = await this.getPortfolio(markets);
+      this.events = await this.getEvents(markets);
+      this.riskManager.reportScenarios(portfolio, this.events, markets);
+      const halted = await this.checkCircuitBreakers(portfolio);
+
       // 2. Filter to interesting markets
       const filtered = this.filterMarkets(markets);
       this.logger.info(`Filtered to ${filtered.length} candidate markets`);
 
-      if (filtered.length === 0) {
+      if (filtered.length === 0 && portfolio.positions.length === 0) {
         this.logger.info("No candidate markets found, skipping cycle");
         return;
       }
@@ -63,44 +167,73 @@ export class TradingAgent {
           this.logger.info(`ARB: ${opp.ticker} — YES ${opp.yesAsk}¢ + NO ${opp.noAsk}¢ = ${opp.total}¢ (${opp.type})`);
         }
       }
+      if (this.config.arbitrage.baskets && !halted) {
+        await this.runBasketArbitrage(markets, portfolio);
+      }
 
       // 4. Forecast probabilities (LLM calls — this is the expensive part)
       // Skip markets the LLM can't forecast well and illiquid markets,
       // then pick diverse candidates across event groups
       const forecastable = filtered.filter((m) => isLLMForecastable(m) && hasTightSpread(m));
       const topCandidates = selectDiverseCandidates(forecastable, 10);
-      const forecasts = await this.forecaster.forecastBatch(topCandidates);
+      this.watchlist = forecastable;
+      // Held markets are re-forecast every cycle so the exit engine can review them
+      const held = this.config.exits.enabled ? this.heldMarkets(markets, portfolio, topCandidates) : [];
+      const toForecast = [...topCandidates, ...held];
+      // Live books for what we may trade or already hold
+      this.marketCache?.trackBooks([
+        ...topCandidates.map((m) => m.ticker),
+        ...portfolio.positions.map((p) => p.ticker),
+      ]);
+      const contexts = await this.contextProvider.buildContexts(toForecast, markets);
+      const forecasts = await this.forecaster.forecastBatch(toForecast, contexts);
+      this.forecastStore.recordBatch(forecasts, toForecast);
+      this.logCost();
+
+      // 5–7. Review held positions, detect edges, size and execute
+      const executed = await this.trade(toForecast, forecasts, portfolio);
+      this.logger.info(`--- Cycle complete: ${executed} trades executed ---`);
+    } catch (err) {
+      this.logger.error(`Cycle failed: ${err}`);
+    }
+  }
 
-      // 5. Detect edges
-      const edges = this.edgeDetector.detectEdges(topCandidates, forecasts);
+  /**
+   * Re-forecast markets that breaking news mentions, outside the regular
+   * cycle. The triggering items go into the prompt at the top of the context.
+   */
+  async runNewsReforecast(queued: Map<string, NewsItem[]>): Promise<void> {
+    this.logger.info(`--- News re-forecast: ${queued.size} markets ---`);
+    this.costTracker.startCycle();
 
-      if (edges.length === 0) {
-        this.logger.info("No edges found above threshold");
-        return;
+    try {
+      // Fresh quotes for the whole event, so siblings and price history are current
+      const queuedMarkets = this.watchlist.filter((m) => queued.has(m.ticker));
+      const events = [...new Set(queuedMarkets.map((m) => m.eventTicker))];
+      const eventMarkets: KalshiMarket[] = [];
+      for (const eventTicker of events) {
+        eventMarkets.push(...(await this.kalshi.getMarkets({ eventTicker, status: "open" })));
       }
 
-      // 6. Generate sized trade signals
-      const portfolio =
-        this.mode === "paper"
-          ? this.paperTrader.getPortfolio()
-          : {
-              balanceUsd: await this.kalshi.getBalance(),
-              positions: [],
-              totalExposureUsd: 0,
-              realizedPnl: 0,
-              unrealizedPnl: 0,
-            };
-
-      const signals = this.riskManager.generateSignals(edges, portfolio);
-
-      // 7. Execute signals
-      for (const signal of signals) {
-        await this.executeSignal(signal);
+      const markets = eventMarkets.filter((m) => queued.has(m.ticker) && m.status === "open");
+      if (markets.length === 0) {
+        this.logger.info("News-matched markets are no longer open, skipping");
+        return;
       }
 
-      this.logger.info(`--- Cycle complete: ${signals.length} trades executed ---`);
+      const portfolio = await this.getPortfolio(eventMarkets);
+      const news = new Map(
+        markets.map((m) => [m.ticker, queued.get(m.ticker)!.map((item) => newsSnippet(item, BREAKING_NEWS_SCORE))])
+      );
+      const contexts = await this.contextProvider.buildContexts(markets, eventMarkets, news);
+      const forecasts = await this.forecaster.forecastBatch(markets, contexts);
+      this.forecastStore.recordBatch(forecasts, markets);
+      this.logCost();
+
+      const executed = await this.trade(markets, forecasts, portfolio);
+      this.logger.info(`--- News re-forecast complete: ${executed} trades executed ---`);
     } catch (err) {
-      this.logger.error(`Cycle failed: ${err}`);
+      this.logger.error(`News re-forecast failed: ${err}`);
     }
   }
 
@@ -109,26 +242,284 @@ export class TradingAgent {
     this.running = true;
     this.logger.info(`Agent starting — scanning every ${this.config.trading.scanIntervalSeconds}s`);
 
+    // Surface any drift between Kalshi and our trade log before trading
+    if (this.mode === "live") {
+      await this.livePortfolio.sync();
+    }
+
     while (this.running) {
       await this.runCycle();
 
       if (this.mode === "paper") {
-        this.paperTrader.printSummary();
+        this.paperTrader.printSummary(this.costTracker.getSummary());
       }
 
       this.logger.info(`Sleeping ${this.config.trading.scanIntervalSeconds}s until next cycle...`);
-      await sleep(this.config.trading.scanIntervalSeconds * 1000);
+      await this.waitForNextCycle();
     }
   }
 
+  /**
+   * Throw the kill switch: no new entries until someone runs
+   * `npm run breaker -- rearm`, and resting live orders are cancelled.
+   */
+  async killSwitch(reason: string): Promise<void> {
+    this.breaker.trip("kill_switch", reason);
+    await this.checkCircuitBreakers();
+  }
+
   /** Stop the trading loop */
   stop(): void {
     this.running = false;
+    this.marketCache?.stop();
     this.logger.info("Agent stopping...");
   }
 
   // --- Private ---
 
+  /**
+   * Sleep until the next scan, polling for news every `news.pollSeconds`
+   * and re-forecasting matched markets as soon as they come in.
+   */
+  private async waitForNextCycle(): Promise<void> {
+    const deadline = Date.now() + this.config.trading.scanIntervalSeconds * 1000;
+    if (!this.config.news.enabled) {
+      await sleep(deadline - Date.now());
+      return;
+    }
+
+    while (this.running && Date.now() < deadline) {
+      await sleep(Math.min(this.config.news.pollSeconds * 1000, deadline - Date.now()));
+      if (Date.now() >= deadline) break; // the scan cycle is due anyway
+
+      try {
+        await this.newsIngestor.ingest(this.watchlist);
+      } catch (err) {
+        this.logger.warn(`News poll failed: ${err}`);
+      }
+      const queued = this.newsIngestor.takeQueue();
+      if (queued.size > 0) await this.runNewsReforecast(queued);
+    }
+  }
+
+  /**
+   * Steps 5–7 of a cycle: exits for held positions in `markets`, then
+   * edges → sized signals → execution. Exits go first, so what they free
+   * up counts toward new entries. Returns trades placed.
+   */
+  private async trade(markets: KalshiMarket[], forecasts: Forecast[], portfolio: Portfolio): Promise<number> {
+    const edges = this.edgeDetector.detectEdges(markets, forecasts);
+    const listed = new Set(markets.map((m) => m.ticker));
+    const heldTickers = this.config.exits.enabled
+      ? portfolio.positions.filter((p) => !p.basketId).map((p) => p.ticker).filter((t) => listed.has(t))
+      : [];
+    if (edges.length === 0 && heldTickers.length === 0) {
+      this.logger.info("No edges found above threshold");
+      return 0;
+    }
+
+    const books = await this.getOrderBooks([...edges.map((e) => e.ticker), ...heldTickers]);
+    let scaleIns = new Set<string>();
+    const exited = new Set<string>();
+    if (heldTickers.length > 0) {
+      const working = new Set(
+        this.mode === "live" ? this.orderManager.getOpenOrders().map((o) => o.signal.edge.ticker) : []
+      );
+      const plan = this.exitEngine.review(portfolio, markets, forecasts, edges, books, working);
+      for (const signal of plan.exits) {
+        await this.executeSignal(signal, books.get(signal.edge.ticker));
+        exited.add(signal.edge.ticker);
+      }
+      scaleIns = plan.scaleIns;
+      if (exited.size > 0 && this.mode === "paper") portfolio = this.paperTrader.getPortfolio();
+    }
+
+    // Don't buy back into what we just sold
+    const entries = edges.filter((e) => !exited.has(e.ticker));
+    if (entries.length === 0) {
+      if (exited.size === 0) this.logger.info("No edges found above threshold");
+      return exited.size;
+    }
+    const signals = this.riskManager.generateSignals(entries, portfolio, books, scaleIns, this.events);
+    for (const signal of signals) {
+      await this.executeSignal(signal, books.get(signal.edge.ticker));
+    }
+    return exited.size + signals.length;
+  }
+
+  /**
+   * Feed equity (cash, resting buys and positions at the bid) to the drawdown
+   * breaker, then check every breaker. Resting live orders are cancelled once
+   * per trip; exits placed while halted are left to work. Returns true while
+   * new entries are halted.
+   */
+  private async checkCircuitBreakers(portfolio?: Portfolio): Promise<boolean> {
+    if (portfolio) {
+      this.breaker.observeEquity(
+        portfolio.balanceUsd +
+          (portfolio.restingExposureUsd ?? 0) +
+          portfolio.totalExposureUsd +
+          portfolio.unrealizedPnl
+      );
+    }
+    const trip = this.breaker.check();
+    if (!trip) return false;
+
+    this.logger.warn(`Trading halted by the ${trip.breaker} breaker since ${trip.trippedAt}: ${trip.reason}`);
+    if (this.mode === "live" && this.haltedAt !== trip.trippedAt) {
+      await this.orderManager.cancelAll(`circuit breaker (${trip.breaker})`);
+      this.haltedAt = trip.trippedAt;
+    }
+    return true;
+  }
+
+  /**
+   * Every open event with its markets, for basket arbitrage and correlated
+   * risk. Paging through them is as heavy as listing every market, so they
+   * are refetched every `marketData.refreshMinutes`, or sooner once the open
+   * `markets` show a known event gaining or losing one. Quotes always come
+   * from `markets`. On failure the last fetch stands in.
+   */
+  private async getEvents(markets: KalshiMarket[]): Promise<KalshiEvent[]> {
+    const due = Date.now() - this.eventsFetchedAt >= this.config.marketData.refreshMinutes * 60_000;
+    if (!due && !eventsChanged(this.events, markets)) return this.events;
+    try {
+      const events = await this.kalshi.getAllOpenEvents();
+      this.eventsFetchedAt = Date.now();
+      this.logger.debug(`Fetched ${events.length} open events`);
+      return events;
+    } catch (err) {
+      this.logger.warn(`Could not fetch events, using the last fetch's: ${err}`);
+      return this.events;
+    }
+  }
+
+  /**
+   * Open markets we hold a position in that aren't already among the
+   * candidates. Basket legs are held to settlement, so there's nothing to review.
+   */
+  private heldMarkets(markets: KalshiMarket[], portfolio: Portfolio, candidates: KalshiMarket[]): KalshiMarket[] {
+    const held = new Set(portfolio.positions.filter((p) => !p.basketId).map((p) => p.ticker));
+    const included = new Set(candidates.map((m) => m.ticker));
+    return markets.filter((m) => held.has(m.ticker) && !included.has(m.ticker) && m.status === "open");
+  }
+
+  /**
+   * Step 3b: event baskets across mutually exclusive markets. Found from
+   * quotes, sized against every leg's book within the exposure cap, and
+   * executed when ARB_EXECUTE is on. Events where we already hold a leg are
+   * skipped, so a basket never mixes with a directional position.
+   */
+  private async runBasketArbitrage(markets: KalshiMarket[], portfolio: Portfolio): Promise<void> {
+    const candidates = this.basketDetector.findCandidates(this.events, markets);
+    if (candidates.length === 0) return;
+
+    const held = new Set(portfolio.positions.map((p) => p.ticker));
+    let remainingExposure =
+      this.config.trading.maxPortfolioExposureUsd - portfolio.totalExposureUsd - (portfolio.restingExposureUsd ?? 0);
+
+    for (const candidate of candidates) {
+      const tickers = candidate.markets.map((m) => m.ticker);
+      if (tickers.some((t) => held.has(t))) {
+        this.logger.debug(`Skipping basket ${candidate.event.eventTicker}: already hold one of its markets`);
+        continue;
+      }
+      const budget = Math.min(this.config.arbitrage.maxBasketUsd, remainingExposure);
+      if (budget <= 0) {
+        this.logger.warn("Max portfolio exposure reached, skipping remaining baskets");
+        break;
+      }
+
+      this.marketCache?.trackBooks(tickers);
+      const books = await this.getOrderBooks(tickers);
+      const opp = this.basketDetector.size(candidate, books, budget);
+      if (!opp) continue;
+
+      this.logger.info(`BASKET: ${describeBasket(opp)}`);
+      if (!this.config.arbitrage.execute) continue;
+      if (await this.basketExecutor.execute(opp, books) > 0) {
+        remainingExposure -= (opp.costCents + opp.feeCents) / 100;
+      }
+      tickers.forEach((t) => held.add(t));
+    }
+  }
+
+  /**
+   * Order books for sizing against real depth: the streamed book when the
+   * market cache has one, otherwise a REST fetch. Markets whose book can't
+   * be fetched are sized at the top of book.
+   */
+  private async getOrderBooks(tickers: string[]): Promise<Map<string, OrderBook>> {
+    const books = new Map<string, OrderBook>();
+    for (const ticker of new Set(tickers)) {
+      try {
+        books.set(ticker, this.marketCache?.getOrderBook(ticker) ?? (await this.kalshi.getOrderBook(ticker)));
+      } catch (err) {
+        this.logger.warn(`Could not fetch order book for ${ticker}: ${err}`);
+      }
+    }
+    return books;
+  }
+
+  /**
+   * Poll each held ticker and settle positions in markets that have resolved
+   * (including voided ones). Realized losses feed the daily-loss circuit breaker.
+   */
+  private async settleResolvedPositions(): Promise<void> {
+    if (this.mode === "live") {
+      this.recordRealized(await this.livePortfolio.settleResolved(), this.tradeLog.getTrades());
+      return;
+    }
+
+    const settled = new Map<string, number>();
+    for (const position of this.paperTrader.getPortfolio().positions) {
+      try {
+        const market = await this.kalshi.getMarket(position.ticker);
+        if (market.status !== "settled" || !market.result) continue;
+
+        settled.set(position.ticker, this.paperTrader.settle(position.ticker, market.result));
+      } catch (err) {
+        this.logger.warn(`Could not check settlement for ${position.ticker}: ${err}`);
+      }
+    }
+    this.recordRealized(settled, this.paperTrader.getTrades());
+  }
+
+  /**
+   * Feed the losses on closed positions (P&L by ticker) to the daily-loss
+   * breaker. A basket leg counts only once every leg is booked, and then as
+   * the basket's net: a winning basket's losing legs are no loss.
+   */
+  private recordRealized(closed: Map<string, number>, trades: TradeRecord[]): void {
+    const baskets = new Set<string>();
+    for (const [ticker, pnl] of closed) {
+      const basketId = lastFill(trades, ticker)?.signal.basketId;
+      if (basketId) baskets.add(basketId);
+      else if (pnl < 0) this.riskManager.recordLoss(-pnl);
+    }
+    for (const basketId of baskets) {
+      const pnl = basketPnl(trades, basketId);
+      if (pnl !== undefined && pnl < 0) this.riskManager.recordLoss(-pnl);
+    }
+  }
+
+  private logCost(): void {
+    const cost = this.costTracker.getSummary();
+    this.logger.info(
+      `LLM spend: $${cost.cycleUsd.toFixed(2)} this cycle, $${cost.todayUsd.toFixed(2)} today` +
+      (cost.dailyBudgetUsd > 0 ? ` of $${cost.dailyBudgetUsd.toFixed(2)} budget` : "")
+    );
+  }
+
+  /** Current portfolio, marked to market. Live mode reconciles against Kalshi. */
+  private async getPortfolio(markets: KalshiMarket[]): Promise<Portfolio> {
+    if (this.mode === "live") {
+      return this.livePortfolio.sync(markets);
+    }
+    this.paperTrader.markToMarket(markets);
+    return this.paperTrader.getPortfolio();
+  }
+
   private filterMarkets(markets: import("../types/index.js").KalshiMarket[]): import("../types/index.js").KalshiMarket[] {
     return markets.filter((m) => {
       // Must be open
@@ -161,21 +552,20 @@ export class TradingAgent {
     });
   }
 
-  private async executeSignal(signal: TradeSignal): Promise<void> {
+  /**
+   * Paper fills against the book; live orders go through the order manager's
+   * pre-trade checks. A paper sell that closes a position feeds its P&L to
+   * the daily-loss breaker, as settlements do (live sell-outs are booked there).
+   */
+  private async executeSignal(signal: TradeSignal, book?: OrderBook): Promise<void> {
     if (this.mode === "paper") {
-      this.paperTrader.execute(signal);
+      const { closedPnl } = this.paperTrader.execute(signal, book);
+      if (closedPnl !== undefined) {
+        this.recordRealized(new Map([[signal.edge.ticker, closedPnl]]), this.paperTrader.getTrades());
+      }
     } else {
       try {
-        const result = await this.kalshi.placeOrder({
-          ticker: signal.edge.ticker,
-          action: signal.action,
-          side: signal.side,
-          type: "limit",
-          count: signal.contracts,
-          yesPrice: signal.side === "yes" ? signal.limitPrice : undefined,
-          noPrice: signal.side === "no" ? signal.limitPrice : undefined,
-        });
-        this.logger.info(`LIVE order placed: ${result.order.order_id}`);
+        await this.orderManager.submit(signal);
       } catch (err) {
         this.logger.error(`Order failed for ${signal.edge.ticker}: ${err}`);
       }
@@ -183,6 +573,30 @@ export class TradingAgent {
   }
 }
 
+/**
+ * True when the open `markets` disagree with the open markets of the known
+ * events: one was added to an event, or has closed since the events were fetched.
+ */
+function eventsChanged(events: KalshiEvent[], markets: KalshiMarket[]): boolean {
+  const known = new Set(events.map((e) => e.eventTicker));
+  const listed = new Set(events.flatMap((e) => e.markets.filter((m) => m.status === "open").map((m) => m.ticker)));
+  let open = 0;
+  for (const m of markets) {
+    if (m.status !== "open" || !known.has(m.eventTicker)) continue;
+    if (!listed.has(m.ticker)) return true;
+    open++;
+  }
+  return open !== listed.size;
+}
+
+/** The most recent fill in `ticker`: part of the position that just closed */
+function lastFill(trades: TradeRecord[], ticker: string): TradeRecord | undefined {
+  for (let i = trades.length - 1; i >= 0; i--) {
+    if (trades[i].filled && trades[i].signal.edge.ticker === ticker) return trades[i];
+  }
+  return undefined;
+}
+
 function sleep(ms: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
@@ -5,10 +5,10 @@
 
 import crypto from "node:crypto";
 import fs from "node:fs";
-import type { AgentConfig, KalshiMarket } from "../types/index.js";
+import type { AgentConfig, KalshiEvent, KalshiMarket, OrderBook } from "../types/index.js";
 import type { Logger } from "../utils/logger.js";
 
-interface KalshiOrderRequest {
+export interface KalshiOrderRequest {
   ticker: string;
   action: "buy" | "sell";
   side: "yes" | "no";
@@ -16,10 +16,10 @@ interface KalshiOrderRequest {
   count: number;
   yesPrice?: number;  // in cents (1–99)
   noPrice?: number;
-  expiration_ts?: number;
+  expiration_ts?: number;  // unix seconds; Kalshi cancels the order at this time
 }
 
-interface KalshiOrderResponse {
+export interface KalshiOrderResponse {
   order: {
     order_id: string;
     status: string;
@@ -33,15 +33,68 @@ interface KalshiOrderResponse {
   };
 }
 
+/** A signed HTTP request, exactly as it goes (or, in shadow mode, would go) to Kalshi */
+export interface SignedRequest {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  body?: string;
+}
+
+/** A market position as returned by GET /portfolio/positions (cents) */
+export interface KalshiMarketPosition {
+  ticker: string;
+  position: number;           // signed: > 0 long YES, < 0 long NO
+  market_exposure: number;    // cost basis of the open position, cents
+  realized_pnl: number;       // cents
+  fees_paid: number;          // cents
+  total_traded: number;
+  resting_orders_count: number;
+}
+
+/** An order as returned by GET /portfolio/orders */
+export interface KalshiOrder {
+  order_id: string;
+  ticker: string;
+  status: string;             // resting | canceled | executed | pending
+  side: "yes" | "no";
+  action: "buy" | "sell";
+  type: string;
+  yes_price: number;
+  no_price: number;
+  remaining_count: number;
+  fill_count?: number;
+  created_time: string;
+  expiration_time?: string | null;
+}
+
+/** A fill as returned by GET /portfolio/fills */
+export interface KalshiFill {
+  trade_id: string;
+  order_id: string;
+  ticker: string;
+  side: "yes" | "no";
+  action: "buy" | "sell";
+  count: number;
+  yes_price: number;
+  no_price: number;
+  is_taker: boolean;
+  created_time: string;
+}
+
 export class KalshiClient {
   private apiKeyId: string;
   private privateKey: crypto.KeyObject;
   private basePath: string;
+  private environment: "prod" | "demo";
+  private allowProdOrders: boolean;
   private logger: Logger;
 
   constructor(config: AgentConfig, logger: Logger) {
     this.apiKeyId = config.kalshi.apiKeyId;
     this.basePath = config.kalshi.basePath;
+    this.environment = config.kalshi.environment;
+    this.allowProdOrders = config.execution.allowProdOrders;
     this.logger = logger;
 
     // Load RSA private key
@@ -60,7 +113,8 @@ export class KalshiClient {
 
   // --- Authentication ---
 
-  private signRequest(method: string, path: string): Record<string, string> {
+  /** Auth headers for a request; also used for the WebSocket handshake */
+  signRequest(method: string, path: string): Record<string, string> {
     const timestampMs = Date.now().toString();
     // Strip query params for signing
     const pathWithoutQuery = path.split("?")[0];
@@ -82,17 +136,21 @@ export class KalshiClient {
     };
   }
 
-  private async request<T>(method: string, path: string, body?: unknown): Promise<T> {
+  private prepare(method: string, path: string, body?: unknown): SignedRequest {
     const url = `${this.basePath}${path}`;
-    const headers = this.signRequest(method, path);
+    // Kalshi signs the full request path, including the /trade-api/v2 prefix
+    const headers = this.signRequest(method, new URL(url).pathname);
+    return { method, url, headers, body: body ? JSON.stringify(body) : undefined };
+  }
 
-    const options: RequestInit = { method, headers };
-    if (body) {
-      options.body = JSON.stringify(body);
-    }
+  private async request<T>(method: string, path: string, body?: unknown): Promise<T> {
+    return this.send<T>(this.prepare(method, path, body));
+  }
 
-    this.logger.debug(`API ${method} ${path}`);
-    const response = await fetch(url, options);
+  private async send<T>(request: SignedRequest): Promise<T> {
+    const { method, url, headers, body } = request;
+    this.logger.debug(`API ${method} ${url}`);
+    const response = await fetch(url, { method, headers, body });
 
     if (!response.ok) {
       const errorText = await response.text();
@@ -108,12 +166,14 @@ export class KalshiClient {
   async getMarkets(params?: {
     status?: string;
     seriesTicker?: string;
+    eventTicker?: string;
     limit?: number;
     cursor?: string;
   }): Promise<KalshiMarket[]> {
     const query = new URLSearchParams();
     if (params?.status) query.set("status", params.status);
     if (params?.seriesTicker) query.set("series_ticker", params.seriesTicker);
+    if (params?.eventTicker) query.set("event_ticker", params.eventTicker);
     if (params?.limit) query.set("limit", params.limit.toString());
     if (params?.cursor) query.set("cursor", params.cursor);
 
@@ -139,29 +199,69 @@ export class KalshiClient {
     return allMarkets;
   }
 
+  /** Fetch all open events with their markets, paginating through results */
+  async getAllOpenEvents(): Promise<KalshiEvent[]> {
+    const events: KalshiEvent[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const data = await this.request<any>(
+        "GET",
+        `/events?status=open&with_nested_markets=true&limit=200${cursor ? `&cursor=${cursor}` : ""}`
+      );
+      events.push(
+        ...(data.events || []).map((raw: any) => ({
+          eventTicker: raw.event_ticker,
+          seriesTicker: raw.series_ticker ?? "",
+          title: raw.title ?? raw.event_ticker,
+          mutuallyExclusive: raw.mutually_exclusive === true,
+          markets: (raw.markets || []).map(this.mapMarket),
+        }))
+      );
+      cursor = data.cursor || undefined;
+    } while (cursor);
+
+    return events;
+  }
+
   /** Get a single market by ticker */
   async getMarket(ticker: string): Promise<KalshiMarket> {
     const data = await this.request<any>("GET", `/markets/${ticker}`);
     return this.mapMarket(data.market);
   }
 
-  /** Get order book for a market */
-  async getOrderBook(ticker: string, depth?: number): Promise<{
-    yes: Array<{ price: number; quantity: number }>;
-    no: Array<{ price: number; quantity: number }>;
-  }> {
+  /** Get order book for a market: bids per side, best first */
+  async getOrderBook(ticker: string, depth?: number): Promise<OrderBook> {
     const depthParam = depth ? `?depth=${depth}` : "";
     const data = await this.request<any>("GET", `/markets/${ticker}/orderbook${depthParam}`);
+    // Kalshi returns [price, quantity] tuples, lowest price first (null for an empty side)
+    const levels = (raw: Array<[number, number]> | null | undefined) =>
+      (raw ?? [])
+        .map(([price, quantity]) => ({ price, quantity }))
+        .sort((a, b) => b.price - a.price);
     return {
-      yes: data.orderbook?.yes || [],
-      no: data.orderbook?.no || [],
+      yes: levels(data.orderbook?.yes),
+      no: levels(data.orderbook?.no),
     };
   }
 
   // --- Trading ---
 
-  /** Place an order */
+  /**
+   * Place an order. Orders against prod are refused unless
+   * `execution.allowProdOrders` is set.
+   */
   async placeOrder(order: KalshiOrderRequest): Promise<KalshiOrderResponse> {
+    if (this.environment === "prod" && !this.allowProdOrders) {
+      throw new Error("Refusing to place a prod order: set ALLOW_PROD_ORDERS=true to trade real money");
+    }
+    const request = this.signOrder(order);
+    this.logger.info(`Placing order: ${order.action} ${order.count}x ${order.side} @ ${order.yesPrice ?? order.noPrice}¢ on ${order.ticker}`);
+    return this.send<KalshiOrderResponse>(request);
+  }
+
+  /** The signed POST /portfolio/orders request for an order, without sending it */
+  signOrder(order: KalshiOrderRequest): SignedRequest {
     const body: any = {
       ticker: order.ticker,
       action: order.action,
@@ -174,8 +274,7 @@ export class KalshiClient {
     if (order.noPrice !== undefined) body.no_price = order.noPrice;
     if (order.expiration_ts) body.expiration_ts = order.expiration_ts;
 
-    this.logger.info(`Placing order: ${order.action} ${order.count}x ${order.side} @ ${order.yesPrice ?? order.noPrice}¢ on ${order.ticker}`);
-    return this.request<KalshiOrderResponse>("POST", "/portfolio/orders", body);
+    return this.prepare("POST", "/portfolio/orders", body);
   }
 
   /** Cancel an order */
@@ -192,10 +291,65 @@ export class KalshiClient {
     return (data.balance ?? 0) / 100;
   }
 
-  /** Get current positions */
-  async getPositions(): Promise<any[]> {
-    const data = await this.request<any>("GET", "/portfolio/positions");
-    return data.market_positions || [];
+  /** Get all non-zero market positions, paginating through results */
+  async getPositions(): Promise<KalshiMarketPosition[]> {
+    const positions: KalshiMarketPosition[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const data = await this.request<any>(
+        "GET",
+        `/portfolio/positions?count_filter=position&limit=200${cursor ? `&cursor=${cursor}` : ""}`
+      );
+      positions.push(...(data.market_positions || []));
+      cursor = data.cursor || undefined;
+    } while (cursor);
+
+    return positions.filter((p) => p.position !== 0);
+  }
+
+  /** Get orders, optionally filtered by status (e.g. "resting") and ticker */
+  async getOrders(params?: { status?: string; ticker?: string }): Promise<KalshiOrder[]> {
+    const orders: KalshiOrder[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const query = new URLSearchParams({ limit: "200" });
+      if (params?.status) query.set("status", params.status);
+      if (params?.ticker) query.set("ticker", params.ticker);
+      if (cursor) query.set("cursor", cursor);
+
+      const data = await this.request<any>("GET", `/portfolio/orders?${query.toString()}`);
+      orders.push(...(data.orders || []));
+      cursor = data.cursor || undefined;
+    } while (cursor);
+
+    return orders;
+  }
+
+  /** Get a single order by id */
+  async getOrder(orderId: string): Promise<KalshiOrder> {
+    const data = await this.request<any>("GET", `/portfolio/orders/${orderId}`);
+    return data.order;
+  }
+
+  /** Get fills, optionally for a single order */
+  async getFills(params?: { orderId?: string; ticker?: string }): Promise<KalshiFill[]> {
+    const fills: KalshiFill[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const query = new URLSearchParams({ limit: "200" });
+      if (params?.orderId) query.set("order_id", params.orderId);
+      if (params?.ticker) query.set("ticker", params.ticker);
+      if (cursor) query.set("cursor", cursor);
+
+      const data = await this.request<any>("GET", `/portfolio/fills?${query.toString()}`);
+      fills.push(...(data.fills || []));
+      cursor = data.cursor || undefined;
+    } while (cursor);
+
+    return fills;
   }
 
   // --- Helpers ---
@@ -235,6 +389,8 @@ export class KalshiClient {
       openInterest: raw.open_interest ?? 0,
       expirationDate: raw.expiration_time ?? raw.close_time ?? "",
       result: raw.result,
+      rulesPrimary: raw.rules_primary || undefined,
+      rulesSecondary: raw.rules_secondary || undefined,
     };
   }
 }
@@ -0,0 +1,234 @@
+// ============================================================
+// Kalshi WebSocket — Streaming ticker, order book and fill channels
+// ============================================================
+
+import { EventEmitter } from "node:events";
+import WebSocket from "ws";
+import type { AgentConfig } from "../types/index.js";
+import type { Logger } from "../utils/logger.js";
+import type { KalshiClient } from "./kalshi-client.js";
+
+export type WsChannel = "ticker" | "orderbook_delta" | "fill";
+
+/** `ticker` channel: top of book and activity for one market (cents) */
+export interface WsTicker {
+  market_ticker: string;
+  price: number;              // last trade price
+  yes_bid: number;
+  yes_ask: number;
+  volume: number;
+  open_interest: number;
+  ts: number;                 // unix seconds
+}
+
+/** Full book for one market; levels are [price, quantity] bids, as in REST */
+export interface WsOrderbookSnapshot {
+  market_ticker: string;
+  yes?: Array<[number, number]>;
+  no?: Array<[number, number]>;
+}
+
+/** Change in resting quantity at one price level */
+export interface WsOrderbookDelta {
+  market_ticker: string;
+  price: number;
+  delta: number;
+  side: "yes" | "no";
+}
+
+/** One of our orders traded */
+export interface WsFill {
+  trade_id: string;
+  order_id: string;
+  market_ticker: string;
+  is_taker: boolean;
+  side: "yes" | "no";
+  action: "buy" | "sell";
+  yes_price: number;
+  no_price: number;
+  count: number;
+  ts: number;
+}
+
+export interface KalshiWsEvents {
+  open: [];
+  close: [];
+  ticker: [WsTicker];
+  orderbook_snapshot: [WsOrderbookSnapshot];
+  orderbook_delta: [WsOrderbookDelta];
+  fill: [WsFill];
+}
+
+interface Subscription {
+  channels: WsChannel[];
+  tickers?: string[];
+}
+
+const INITIAL_BACKOFF_MS = 1_000;
+const MAX_BACKOFF_MS = 60_000;
+/** Kalshi pings every ~10s; a connection this quiet is assumed dead */
+const HEARTBEAT_TIMEOUT_MS = 30_000;
+
+/**
+ * Authenticated connection to Kalshi's WebSocket API. Subscriptions are
+ * remembered and replayed after every reconnect, which also brings fresh
+ * order book snapshots. A gap in an order book stream's `seq` forces a
+ * reconnect for the same reason.
+ */
+export class KalshiWebSocket extends EventEmitter<KalshiWsEvents> {
+  private kalshi: KalshiClient;
+  private url: string;
+  private logger: Logger;
+  private socket?: WebSocket;
+  private subscriptions: Subscription[] = [];
+  private nextId = 1;
+  /** Last seq seen per subscription id */
+  private seqBySid = new Map<number, number>();
+  private backoffMs = INITIAL_BACKOFF_MS;
+  private stopped = false;
+  private reconnectTimer?: NodeJS.Timeout;
+  private heartbeatTimer?: NodeJS.Timeout;
+
+  constructor(kalshi: KalshiClient, config: AgentConfig, logger: Logger) {
+    super();
+    this.kalshi = kalshi;
+    this.url = config.kalshi.wsUrl;
+    this.logger = logger;
+  }
+
+  get connected(): boolean {
+    return this.socket?.readyState === WebSocket.OPEN;
+  }
+
+  /**
+   * Open the connection. Resolves on the first successful open and rejects
+   * if that first attempt fails; reconnects continue in the background either way.
+   */
+  connect(): Promise<void> {
+    this.stopped = false;
+    return new Promise((resolve, reject) => {
+      this.open(resolve, reject);
+    });
+  }
+
+  /** Subscribe now (if connected) and on every reconnect */
+  subscribe(channels: WsChannel[], tickers?: string[]): void {
+    const subscription = { channels, tickers };
+    this.subscriptions.push(subscription);
+    if (this.connected) this.sendSubscribe(subscription);
+  }
+
+  close(): void {
+    this.stopped = true;
+    clearTimeout(this.reconnectTimer);
+    clearTimeout(this.heartbeatTimer);
+    this.socket?.close();
+    this.socket = undefined;
+  }
+
+  // --- Connection ---
+
+  private open(onFirstOpen?: () => void, onFirstError?: (err: Error) => void): void {
+    const headers = this.kalshi.signRequest("GET", new URL(this.url).pathname);
+    const socket = new WebSocket(this.url, { headers });
+    this.socket = socket;
+
+    socket.on("open", () => {
+      this.logger.info(`WebSocket connected to ${this.url}`);
+      this.backoffMs = INITIAL_BACKOFF_MS;
+      this.seqBySid.clear();
+      this.heartbeat();
+      for (const subscription of this.subscriptions) this.sendSubscribe(subscription);
+      this.emit("open");
+      onFirstOpen?.();
+      onFirstError = undefined;
+    });
+
+    socket.on("ping", () => this.heartbeat());
+    socket.on("message", (data) => {
+      this.heartbeat();
+      this.handleMessage(data.toString());
+    });
+
+    socket.on("error", (err) => {
+      this.logger.warn(`WebSocket error: ${err.message}`);
+      onFirstError?.(err);
+      onFirstError = undefined;
+      onFirstOpen = undefined;
+    });
+
+    socket.on("close", () => {
+      clearTimeout(this.heartbeatTimer);
+      if (this.socket !== socket) return;
+      this.emit("close");
+      if (this.stopped) return;
+
+      this.logger.warn(`WebSocket closed, reconnecting in ${(this.backoffMs / 1000).toFixed(0)}s`);
+      this.reconnectTimer = setTimeout(() => this.open(), this.backoffMs);
+      this.backoffMs = Math.min(this.backoffMs * 2, MAX_BACKOFF_MS);
+    });
+  }
+
+  /** Drop the connection (and let the close handler reconnect) if it goes quiet */
+  private heartbeat(): void {
+    clearTimeout(this.heartbeatTimer);
+    this.heartbeatTimer = setTimeout(() => {
+      this.logger.warn("WebSocket heartbeat timed out");
+      this.socket?.terminate();
+    }, HEARTBEAT_TIMEOUT_MS);
+  }
+
+  private sendSubscribe(subscription: Subscription): void {
+    const params: Record<string, unknown> = { channels: subscription.channels };
+    if (subscription.tickers) params.market_tickers = subscription.tickers;
+    this.socket?.send(JSON.stringify({ id: this.nextId++, cmd: "subscribe", params }));
+  }
+
+  // --- Messages ---
+
+  private handleMessage(text: string): void {
+    let message: { type: string; sid?: number; seq?: number; msg?: any };
+    try {
+      message = JSON.parse(text);
+    } catch {
+      this.logger.warn(`WebSocket: unparseable message ${text.slice(0, 200)}`);
+      return;
+    }
+
+    switch (message.type) {
+      case "subscribed":
+        this.logger.debug(`WebSocket subscribed to ${message.msg?.channel} (sid ${message.msg?.sid})`);
+        break;
+      case "error":
+        this.logger.warn(`WebSocket error ${message.msg?.code}: ${message.msg?.msg}`);
+        break;
+      case "ticker":
+        this.emit("ticker", message.msg);
+        break;
+      case "orderbook_snapshot":
+        if (this.checkSeq(message.sid, message.seq, true)) this.emit("orderbook_snapshot", message.msg);
+        break;
+      case "orderbook_delta":
+        if (this.checkSeq(message.sid, message.seq, false)) this.emit("orderbook_delta", message.msg);
+        break;
+      case "fill":
+        this.emit("fill", message.msg);
+        break;
+    }
+  }
+
+  /**
+   * Order book messages are numbered per subscription. A gap means a delta
+   * was lost and the local book is wrong, so reconnect for new snapshots.
+   */
+  private checkSeq(sid: number | undefined, seq: number | undefined, isSnapshot: boolean): boolean {
+    if (sid === undefined || seq === undefined) return true;
+    const last = this.seqBySid.get(sid);
+    this.seqBySid.set(sid, seq);
+    if (isSnapshot || last === undefined || seq === last + 1) return true;
+
+    this.logger.warn(`WebSocket: order book seq gap on sid ${sid} (${last} → ${seq}), resyncing`);
+    this.socket?.terminate();
+    return false;
+  }
+}
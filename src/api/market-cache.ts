@@ -0,0 +1,171 @@
+// ============================================================
+// Market Cache — Open markets kept current from the WebSocket feed
+// ============================================================
+
+import type { AgentConfig, KalshiMarket, OrderBook } from "../types/index.js";
+import type { Logger } from "../utils/logger.js";
+import type { KalshiClient } from "./kalshi-client.js";
+import type { KalshiWebSocket, WsOrderbookDelta, WsOrderbookSnapshot, WsTicker } from "./kalshi-ws.js";
+
+/** Resting quantity by price, per side */
+interface LocalBook {
+  yes: Map<number, number>;
+  no: Map<number, number>;
+}
+
+/**
+ * In-memory view of every open market. Listed over REST on start and every
+ * `marketData.refreshMinutes` (to pick up new and closed markets); quotes
+ * stay current from the `ticker` channel in between. Markets passed to
+ * `trackBooks` also get a full local order book from `orderbook_delta`,
+ * and their quotes are taken from it.
+ *
+ * While the socket is down, every read falls back to a REST refresh.
+ */
+export class MarketCache {
+  private kalshi: KalshiClient;
+  private ws: KalshiWebSocket;
+  private refreshMs: number;
+  private logger: Logger;
+  private markets = new Map<string, KalshiMarket>();
+  private books = new Map<string, LocalBook>();
+  private trackedBooks = new Set<string>();
+  private lastRefresh = 0;
+  private started = false;
+  private tickerUpdates = 0;
+
+  constructor(kalshi: KalshiClient, ws: KalshiWebSocket, config: AgentConfig, logger: Logger) {
+    this.kalshi = kalshi;
+    this.ws = ws;
+    this.refreshMs = config.marketData.refreshMinutes * 60_000;
+    this.logger = logger;
+
+    ws.on("ticker", (msg) => this.onTicker(msg));
+    ws.on("orderbook_snapshot", (msg) => this.onSnapshot(msg));
+    ws.on("orderbook_delta", (msg) => this.onDelta(msg));
+    // Books can't be trusted across a disconnect; snapshots rebuild them on reconnect
+    ws.on("close", () => this.books.clear());
+  }
+
+  /** Connect the feed and list markets. Safe to call more than once. */
+  async start(): Promise<void> {
+    if (this.started) return;
+    this.started = true;
+
+    this.ws.subscribe(["ticker"]);
+    try {
+      await this.ws.connect();
+    } catch (err) {
+      this.logger.warn(`WebSocket unavailable (${err}); using REST until it connects`);
+    }
+    await this.refresh();
+  }
+
+  stop(): void {
+    this.ws.close();
+  }
+
+  /** Every open market, refreshed over REST when due or when the feed is down */
+  async getOpenMarkets(): Promise<KalshiMarket[]> {
+    await this.start();
+    if (!this.ws.connected || Date.now() - this.lastRefresh >= this.refreshMs) {
+      await this.refresh();
+    }
+    return [...this.markets.values()].filter((m) => m.status === "open");
+  }
+
+  /** Latest known state of one market */
+  getMarket(ticker: string): KalshiMarket | undefined {
+    return this.markets.get(ticker);
+  }
+
+  /** Local order book, if the market is tracked and a snapshot has arrived */
+  getOrderBook(ticker: string): OrderBook | undefined {
+    const book = this.books.get(ticker);
+    if (!book) return undefined;
+    const levels = (side: Map<number, number>) =>
+      [...side.entries()]
+        .map(([price, quantity]) => ({ price, quantity }))
+        .sort((a, b) => b.price - a.price);
+    return { yes: levels(book.yes), no: levels(book.no) };
+  }
+
+  /** Maintain full order books for these markets from now on */
+  trackBooks(tickers: string[]): void {
+    const fresh = [...new Set(tickers)].filter((t) => !this.trackedBooks.has(t));
+    if (fresh.length === 0) return;
+    fresh.forEach((t) => this.trackedBooks.add(t));
+    this.ws.subscribe(["orderbook_delta"], fresh);
+    this.logger.debug(`Market cache: tracking order books for ${fresh.length} more markets`);
+  }
+
+  // --- Updates ---
+
+  private async refresh(): Promise<void> {
+    const listed = await this.kalshi.getAllOpenMarkets();
+    this.markets = new Map(listed.map((m) => [m.ticker, m]));
+    // REST quotes may be older than a live book
+    for (const ticker of this.books.keys()) this.applyBookQuotes(ticker);
+
+    this.logger.info(
+      `Market cache: ${listed.length} markets listed over REST ` +
+      `(${this.tickerUpdates} streamed updates since last refresh, ${this.books.size} live books)`
+    );
+    this.lastRefresh = Date.now();
+    this.tickerUpdates = 0;
+  }
+
+  private onTicker(msg: WsTicker): void {
+    const market = this.markets.get(msg.market_ticker);
+    if (!market) return;
+    this.tickerUpdates++;
+
+    const update: Partial<KalshiMarket> = { volume: msg.volume, openInterest: msg.open_interest };
+    // Markets with a live book take their quotes from it
+    if (!this.books.has(msg.market_ticker)) {
+      Object.assign(update, {
+        yesBid: msg.yes_bid,
+        yesAsk: msg.yes_ask,
+        noBid: msg.yes_ask > 0 ? 100 - msg.yes_ask : 0,
+        noAsk: msg.yes_bid > 0 ? 100 - msg.yes_bid : 0,
+      });
+    }
+    this.markets.set(msg.market_ticker, { ...market, ...update });
+  }
+
+  private onSnapshot(msg: WsOrderbookSnapshot): void {
+    this.books.set(msg.market_ticker, {
+      yes: new Map(msg.yes ?? []),
+      no: new Map(msg.no ?? []),
+    });
+    this.applyBookQuotes(msg.market_ticker);
+  }
+
+  private onDelta(msg: WsOrderbookDelta): void {
+    const book = this.books.get(msg.market_ticker);
+    if (!book) return;
+
+    const side = book[msg.side];
+    const quantity = (side.get(msg.price) ?? 0) + msg.delta;
+    if (quantity > 0) side.set(msg.price, quantity);
+    else side.delete(msg.price);
+    this.applyBookQuotes(msg.market_ticker);
+  }
+
+  /** Top of book from the local bids: a YES ask is 100 minus the best NO bid */
+  private applyBookQuotes(ticker: string): void {
+    const market = this.markets.get(ticker);
+    const book = this.books.get(ticker);
+    if (!market || !book) return;
+
+    const bestYesBid = Math.max(0, ...book.yes.keys());
+    const bestNoBid = Math.max(0, ...book.no.keys());
+    this.markets.set(ticker, {
+      ...market,
+      yesBid: bestYesBid,
+      noBid: bestNoBid,
+      yesAsk: bestNoBid > 0 ? 100 - bestNoBid : 0,
+      noAsk: bestYesBid > 0 ? 100 - bestYesBid : 0,
+    });
+  }
+}
@@ -0,0 +1,160 @@
+// ============================================================
+// Basket Detector — Arbitrage across mutually exclusive markets
+// ============================================================
+
+import type { AgentConfig, BasketOpportunity, KalshiEvent, KalshiMarket, OrderBook } from "../types/index.js";
+import type { Logger } from "../utils/logger.js";
+import { askLevels, fillBasket } from "../risk/book-depth.js";
+import { feePerContract } from "../risk/fees.js";
+
+/** A mutually exclusive event and the markets in it that can still be traded */
+export interface EventGroup {
+  event: KalshiEvent;
+  markets: KalshiMarket[];
+}
+
+/** An event whose quotes show a basket arbitrage, before checking depth */
+export interface BasketCandidate extends EventGroup {
+  side: "yes" | "no";
+  payoutCents: number;
+  quotedCostCents: number;      // one basket at the top of every book, fees included
+}
+
+/**
+ * Group open markets by mutually exclusive event. Markets already resolved
+ * NO (or voided) just drop out of the set. An event with a market that is
+ * closed but unresolved, or already resolved YES, can't be completed and
+ * is skipped. Quotes come from `markets` when listed there, since the
+ * event listing may be older.
+ */
+export function groupEventMarkets(events: KalshiEvent[], markets: KalshiMarket[]): EventGroup[] {
+  const latest = new Map(markets.map((m) => [m.ticker, m]));
+  const groups: EventGroup[] = [];
+
+  for (const event of events) {
+    if (!event.mutuallyExclusive) continue;
+    const legs = event.markets.map((m) => latest.get(m.ticker) ?? m);
+    if (legs.some((m) => m.status === "closed" || m.result === "yes")) continue;
+
+    const open = legs.filter((m) => m.status === "open");
+    if (open.length >= 2) groups.push({ event, markets: open });
+  }
+  return groups;
+}
+
+/**
+ * Finds event baskets. Buying NO on every market of a mutually exclusive
+ * event pays at least $(N − 1), since at most one market resolves YES.
+ * Buying YES on every market pays $1 only if some market resolves YES, and
+ * Kalshi doesn't say whether an event's markets cover every outcome — so
+ * YES baskets are only looked for on events listed in `exhaustiveEvents`
+ * (by event or series ticker). When the asks plus taker fees come to less
+ * than the payout, the basket is a guaranteed profit.
+ *
+ * Candidates are found from quotes; `size` then walks each leg's book to
+ * see how many baskets are actually there.
+ */
+export class BasketDetector {
+  private minProfitCents: number;
+  private exhaustiveEvents: Set<string>;
+  private takerRate: number;
+  private logger: Logger;
+
+  constructor(config: AgentConfig, logger: Logger) {
+    this.minProfitCents = config.arbitrage.minProfitCents;
+    this.exhaustiveEvents = new Set(config.arbitrage.exhaustiveEvents);
+    this.takerRate = config.fees.takerRate;
+    this.logger = logger;
+  }
+
+  /** Events whose top-of-book asks price a basket below its payout */
+  findCandidates(events: KalshiEvent[], markets: KalshiMarket[]): BasketCandidate[] {
+    const candidates: BasketCandidate[] = [];
+
+    for (const group of groupEventMarkets(events, markets)) {
+      for (const side of ["yes", "no"] as const) {
+        if (side === "yes" && !this.isExhaustive(group.event)) continue;
+        const asks = group.markets.map((m) => (side === "yes" ? m.yesAsk : m.noAsk));
+        if (asks.some((ask) => ask <= 0 || ask >= 100)) continue;
+
+        const payoutCents = side === "yes" ? 100 : (group.markets.length - 1) * 100;
+        const quotedCostCents = asks.reduce((sum, ask) => sum + ask + feePerContract(ask, this.takerRate), 0);
+        if (quotedCostCents <= payoutCents - this.minProfitCents) {
+          candidates.push({ ...group, side, payoutCents, quotedCostCents });
+        }
+      }
+    }
+
+    if (candidates.length > 0) {
+      this.logger.info(`Found ${candidates.length} event basket candidates`);
+    }
+    return candidates;
+  }
+
+  /** True when the event is allowlisted as covering every outcome, so one YES leg must pay */
+  private isExhaustive(event: KalshiEvent): boolean {
+    return this.exhaustiveEvents.has(event.eventTicker) || this.exhaustiveEvents.has(event.seriesTicker);
+  }
+
+  /**
+   * Size a candidate against the order books of all its legs, spending at
+   * most `budgetUsd` (fees included). Null if any book is missing or no
+   * whole basket clears `minProfitCents` after fees and rounding.
+   */
+  size(candidate: BasketCandidate, books: Map<string, OrderBook>, budgetUsd: number): BasketOpportunity | null {
+    const legBooks = candidate.markets.map((m) => books.get(m.ticker));
+    if (legBooks.some((b) => !b)) {
+      this.logger.debug(`Skipping basket ${candidate.event.eventTicker}: missing order books`);
+      return null;
+    }
+
+    const levels = legBooks.map((b) => askLevels(b!, candidate.side));
+    const fill = fillBasket(levels, candidate.payoutCents, budgetUsd * 100, this.minProfitCents, this.takerRate);
+    const costCents = fill.legs.reduce((sum, l) => sum + l.costCents, 0);
+    const feeCents = fill.legs.reduce((sum, l) => sum + l.feeCents, 0);
+    const profitCents = fill.baskets * candidate.payoutCents - costCents - feeCents;
+
+    if (fill.baskets === 0 || profitCents < fill.baskets * this.minProfitCents) {
+      this.logger.debug(
+        `Skipping basket ${candidate.event.eventTicker} (${candidate.side.toUpperCase()}): ` +
+        `no profitable depth after fees`
+      );
+      return null;
+    }
+
+    return {
+      eventTicker: candidate.event.eventTicker,
+      title: candidate.event.title,
+      side: candidate.side,
+      legs: candidate.markets.map((market, i) => ({
+        ticker: market.ticker,
+        market,
+        contracts: fill.legs[i].contracts,
+        limitPrice: fill.legs[i].worstPrice,
+        avgPrice: fill.legs[i].avgPrice,
+        feeCents: fill.legs[i].feeCents,
+        depth: levels[i]
+          .filter((l) => l.price <= fill.legs[i].worstPrice)
+          .reduce((sum, l) => sum + l.quantity, 0),
+      })),
+      baskets: fill.baskets,
+      payoutCents: candidate.payoutCents,
+      costCents,
+      feeCents,
+      profitCents,
+      limitedBy: fill.limitedBy,
+    };
+  }
+}
+
+/** One-line description for logs and reports */
+export function describeBasket(opp: BasketOpportunity): string {
+  // A NO basket pays N − 1 legs when one market resolves YES, all N when none does
+  const payout = (opp.baskets * opp.payoutCents) / 100;
+  return (
+    `${opp.eventTicker}: ${opp.baskets}x ${opp.side.toUpperCase()} on all ${opp.legs.length} markets — ` +
+    `$${(opp.costCents / 100).toFixed(2)} + $${(opp.feeCents / 100).toFixed(2)} fees → ` +
+    `${opp.side === "no" ? "at least " : ""}$${payout.toFixed(2)} payout, ` +
+    `+$${(opp.profitCents / 100).toFixed(2)} guaranteed (limited by ${opp.limitedBy})`
+  );
+}
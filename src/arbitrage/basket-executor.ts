@@ -0,0 +1,125 @@
+// ============================================================
+// Basket Executor — Coordinated orders for an event basket
+// ============================================================
+
+import { randomUUID } from "node:crypto";
+import type { BasketLeg, BasketOpportunity, OrderBook, TradeRecord, TradeSignal } from "../types/index.js";
+import type { Logger } from "../utils/logger.js";
+import type { PaperTrader } from "../agent/paper-trader.js";
+import type { OrderManager } from "../agent/order-manager.js";
+import type { ExecutionMode } from "../agent/trading-agent.js";
+import { describeBasket } from "./basket-detector.js";
+
+/**
+ * Buys a basket leg by leg, thinnest book first, so a leg that can't fill
+ * fails before money goes into the deep ones. Each leg keeps only what
+ * fills on arrival (live: the rest is cancelled). When a leg comes up
+ * short, the remaining legs are cut to match; contracts already bought
+ * beyond the final basket count are reported as unhedged.
+ */
+export class BasketExecutor {
+  private paperTrader: PaperTrader;
+  private orderManager: OrderManager;
+  private mode: ExecutionMode;
+  private logger: Logger;
+
+  constructor(paperTrader: PaperTrader, orderManager: OrderManager, mode: ExecutionMode, logger: Logger) {
+    this.paperTrader = paperTrader;
+    this.orderManager = orderManager;
+    this.mode = mode;
+    this.logger = logger;
+  }
+
+  /** Execute the basket; returns how many complete baskets were bought */
+  async execute(opp: BasketOpportunity, books: Map<string, OrderBook>): Promise<number> {
+    const basketId = randomUUID();
+    const legs = [...opp.legs].sort((a, b) => a.depth - b.depth);
+    this.logger.info(`[${this.mode.toUpperCase()}] Executing basket ${describeBasket(opp)}`);
+
+    let target = opp.baskets;
+    const filled = new Map<string, number>();
+    for (const leg of legs) {
+      const record = await this.executeLeg(this.legSignal(opp, leg, target, basketId), books.get(leg.ticker));
+      const contracts = record?.filled ? record.filledContracts ?? target : 0;
+      filled.set(leg.ticker, contracts);
+
+      if (contracts < target) {
+        this.logger.warn(
+          `Basket ${opp.eventTicker}: ${leg.ticker} filled ${contracts}/${target}` +
+          (contracts > 0 ? `, cutting the remaining legs to ${contracts}` : ", abandoning the basket")
+        );
+        target = contracts;
+      }
+      if (target === 0) break;
+    }
+
+    const complete = filled.size === legs.length ? target : 0;
+    const unhedged = [...filled].filter(([, contracts]) => contracts > complete);
+    if (unhedged.length > 0) {
+      this.logger.warn(
+        `Basket ${opp.eventTicker}: unhedged ` +
+        unhedged.map(([ticker, contracts]) => `${contracts - complete}x ${opp.side.toUpperCase()} ${ticker}`).join(", ")
+      );
+    }
+    this.logger.info(`Basket ${opp.eventTicker}: ${complete}/${opp.baskets} baskets complete`);
+    return complete;
+  }
+
+  private async executeLeg(signal: TradeSignal, book?: OrderBook): Promise<TradeRecord | undefined> {
+    if (this.mode === "paper") return this.paperTrader.execute(signal, book).record;
+    try {
+      // A leg has no edge of its own to re-check; the rest of the pre-trade checks apply
+      return (await this.orderManager.submitImmediate(signal, { checkEdge: false })) ?? undefined;
+    } catch (err) {
+      this.logger.error(`Basket leg order failed for ${signal.edge.ticker}: ${err}`);
+      return undefined;
+    }
+  }
+
+  /**
+   * A leg as an ordinary trade signal, so it flows through the paper ledger
+   * and trade log like any other. There's no directional view: the model
+   * probability is the price, and the edge is the leg's share of the profit.
+   */
+  private legSignal(opp: BasketOpportunity, leg: BasketLeg, contracts: number, basketId: string): TradeSignal {
+    const price = leg.avgPrice / 100;
+    const fee = leg.feeCents / leg.contracts / 100;
+    const profitPerBasket = opp.profitCents / opp.baskets / 100;
+    const topAsk = opp.side === "yes" ? leg.market.yesAsk : leg.market.noAsk;
+    const reason =
+      `Basket ${opp.eventTicker}: ${opp.side.toUpperCase()} on all ${opp.legs.length} markets ` +
+      `pays $${(opp.payoutCents / 100).toFixed(2)} per basket, +$${profitPerBasket.toFixed(3)} after fees`;
+
+    return {
+      edge: {
+        ticker: leg.ticker,
+        market: leg.market,
+        forecast: {
+          ticker: leg.ticker,
+          modelProbYes: opp.side === "yes" ? price : 1 - price,
+          confidence: 1,
+          reasoning: reason,
+          sources: [],
+          timestamp: new Date(),
+        },
+        side: opp.side,
+        marketProb: price,
+        modelProb: price,
+        fee,
+        edge: profitPerBasket / opp.legs.length,
+        expectedValue: opp.profitCents / (opp.costCents + opp.feeCents),
+      },
+      side: opp.side,
+      action: "buy",
+      contracts,
+      limitPrice: leg.limitPrice,
+      expectedFillPrice: leg.avgPrice,
+      slippageCents: leg.avgPrice - topAsk,
+      expectedFees: (leg.feeCents * contracts) / leg.contracts / 100,
+      basketId,
+      kellyFraction: 0,
+      positionSizeUsd: (contracts * leg.avgPrice) / 100,
+      reason,
+    };
+  }
+}
@@ -0,0 +1,214 @@
+// ============================================================
+// Backtester — Replays market snapshots through the live pipeline
+// ============================================================
+
+import type {
+  AgentConfig,
+  BacktestResult,
+  Forecast,
+  KalshiMarket,
+  MarketSnapshot,
+} from "../types/index.js";
+import { EdgeDetector } from "../agent/edge-detector.js";
+import { PaperTrader } from "../agent/paper-trader.js";
+import { RiskManager } from "../risk/risk-manager.js";
+import { CircuitBreaker } from "../risk/circuit-breaker.js";
+import { markedValue } from "../agent/mark-to-market.js";
+import { appendJsonl, readJsonl } from "../utils/jsonl.js";
+import type { Logger } from "../utils/logger.js";
+
+export interface BacktestParams {
+  minEdgeThreshold: number;
+  kellyFraction: number;
+  initialBalanceUsd: number;
+}
+
+export class Backtester {
+  private config: AgentConfig;
+  private logger: Logger;
+
+  constructor(config: AgentConfig, logger: Logger) {
+    this.config = config;
+    this.logger = logger;
+  }
+
+  /**
+   * Run one backtest. Snapshots are replayed in time order through the real
+   * EdgeDetector → RiskManager → PaperTrader pipeline. At each snapshot only
+   * forecasts timestamped at or before it are visible (no lookahead).
+   *
+   * Positions settle when a later snapshot shows the market with a result,
+   * or at the end of the replay from `results` (e.g. fetched after the fact).
+   */
+  run(
+    snapshots: MarketSnapshot[],
+    forecasts: Forecast[],
+    params: BacktestParams,
+    results: Map<string, "yes" | "no"> = new Map()
+  ): BacktestResult {
+    const runConfig: AgentConfig = {
+      ...this.config,
+      trading: {
+        ...this.config.trading,
+        minEdgeThreshold: params.minEdgeThreshold,
+        kellyFraction: params.kellyFraction,
+      },
+    };
+
+    let now = 0;
+    const edgeDetector = new EdgeDetector(runConfig, this.logger);
+    const breaker = new CircuitBreaker(runConfig, this.logger, null, () => now);
+    const riskManager = new RiskManager(runConfig, this.logger, breaker);
+    const trader = new PaperTrader(params.initialBalanceUsd, runConfig.fees, this.logger);
+
+    const ordered = [...snapshots].sort((a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp));
+    const forecastsByTicker = groupForecasts(forecasts);
+    const finalResults = new Map(results);
+    const settledPnls: number[] = [];
+    const equityCurve: number[] = [params.initialBalanceUsd];
+
+    for (const snapshot of ordered) {
+      now = Date.parse(snapshot.timestamp);
+      const marketMap = new Map(snapshot.markets.map((m) => [m.ticker, m]));
+
+      // A daily-loss trip lifts the next simulated day, as if re-armed each
+      // morning; drawdown and kill-switch trips stay latched, as they do live
+      breaker.rearmDailyLoss();
+
+      // Settle anything this snapshot shows as resolved, feeding losses to the breaker
+      for (const m of snapshot.markets) {
+        if (m.result === "yes" || m.result === "no") finalResults.set(m.ticker, m.result);
+      }
+      for (const position of trader.getPortfolio().positions) {
+        const market = marketMap.get(position.ticker);
+        if (market?.status !== "settled" || !market.result) continue;
+
+        const pnl = trader.settle(position.ticker, market.result);
+        if (pnl < 0) riskManager.recordLoss(-pnl);
+        // Voided markets refund the stake — they don't count toward hit rate
+        if (market.result !== "voided") settledPnls.push(pnl);
+      }
+
+      // Feed equity at the bid to the drawdown breaker before trading, as the agent does
+      trader.markToMarket(snapshot.markets);
+      breaker.observeEquity(markEquity(trader));
+
+      // Trade on whatever forecasts were available at this point in time
+      const open = snapshot.markets.filter((m) => m.status === "open");
+      const visible = latestForecastsAsOf(forecastsByTicker, now);
+      const edges = edgeDetector.detectEdges(open, visible);
+      const signals = riskManager.generateSignals(edges, trader.getPortfolio());
+      for (const signal of signals) {
+        trader.execute(signal);
+      }
+      equityCurve.push(markEquity(trader));
+    }
+
+    // Settle remaining positions from known final results
+    for (const position of trader.getPortfolio().positions) {
+      const result = finalResults.get(position.ticker);
+      if (result) settledPnls.push(trader.settle(position.ticker, result));
+    }
+
+    const portfolio = trader.getPortfolio();
+    const finalEquity = markEquity(trader);
+    equityCurve.push(finalEquity);
+
+    const wins = settledPnls.filter((pnl) => pnl > 0).length;
+    const totalPnl = finalEquity - params.initialBalanceUsd;
+
+    return {
+      minEdgeThreshold: params.minEdgeThreshold,
+      kellyFraction: params.kellyFraction,
+      snapshots: ordered.length,
+      trades: trader.getTrades().filter((t) => t.filled).length,
+      settledPositions: settledPnls.length,
+      unsettledPositions: portfolio.positions.length,
+      wins,
+      hitRate: settledPnls.length > 0 ? wins / settledPnls.length : 0,
+      totalPnl,
+      returnPct: params.initialBalanceUsd > 0 ? totalPnl / params.initialBalanceUsd : 0,
+      maxDrawdown: maxDrawdown(equityCurve),
+      sharpe: sharpeRatio(equityCurve),
+      finalEquity,
+    };
+  }
+}
+
+// --- Snapshot / forecast I/O ---
+
+/** Load market snapshots from a JSONL file (one MarketSnapshot per line) */
+export function loadSnapshots(filePath: string): MarketSnapshot[] {
+  return readJsonl<MarketSnapshot>(filePath);
+}
+
+/** Append the given markets as a new snapshot (used by `scan --snapshot`) */
+export function recordSnapshot(filePath: string, markets: KalshiMarket[]): void {
+  const snapshot: MarketSnapshot = { timestamp: new Date().toISOString(), markets };
+  appendJsonl(filePath, snapshot);
+}
+
+/** Load recorded forecasts from JSONL, reviving the timestamp field */
+export function loadForecasts(filePath: string): Forecast[] {
+  return readJsonl<Forecast & { timestamp: string | Date }>(filePath).map((f) => ({
+    ...f,
+    sources: f.sources ?? [],
+    timestamp: new Date(f.timestamp),
+  }));
+}
+
+// --- Helpers ---
+
+function groupForecasts(forecasts: Forecast[]): Map<string, Forecast[]> {
+  const byTicker = new Map<string, Forecast[]>();
+  for (const f of forecasts) {
+    if (!byTicker.has(f.ticker)) byTicker.set(f.ticker, []);
+    byTicker.get(f.ticker)!.push(f);
+  }
+  for (const list of byTicker.values()) {
+    list.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  }
+  return byTicker;
+}
+
+function latestForecastsAsOf(byTicker: Map<string, Forecast[]>, asOfMs: number): Forecast[] {
+  const visible: Forecast[] = [];
+  for (const list of byTicker.values()) {
+    let latest: Forecast | undefined;
+    for (const f of list) {
+      if (f.timestamp.getTime() > asOfMs) break;
+      latest = f;
+    }
+    if (latest) visible.push(latest);
+  }
+  return visible;
+}
+
+/** Cash plus open positions at their last mark (the bid we could exit at) */
+function markEquity(trader: PaperTrader): number {
+  const portfolio = trader.getPortfolio();
+  return portfolio.balanceUsd + markedValue(portfolio.positions);
+}
+
+function maxDrawdown(equity: number[]): number {
+  let peak = equity[0] ?? 0;
+  let worst = 0;
+  for (const value of equity) {
+    peak = Math.max(peak, value);
+    if (peak > 0) worst = Math.max(worst, (peak - value) / peak);
+  }
+  return worst;
+}
+
+function sharpeRatio(equity: number[]): number {
+  const returns: number[] = [];
+  for (let i = 1; i < equity.length; i++) {
+    if (equity[i - 1] > 0) returns.push(equity[i] / equity[i - 1] - 1);
+  }
+  if (returns.length < 2) return 0;
+
+  const mean = returns.reduce((s, r) => s + r, 0) / returns.length;
+  const variance = returns.reduce((s, r) => s + (r - mean) ** 2, 0) / (returns.length - 1);
+  const stdev = Math.sqrt(variance);
+  return stdev > 0 ? mean / stdev : 0;
+}
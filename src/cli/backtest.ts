@@ -0,0 +1,123 @@
+#!/usr/bin/env tsx
+// ============================================================
+// CLI: Backtest edge/Kelly settings against recorded snapshots
+// ============================================================
+//
+// Usage:
+//   npm run backtest -- --snapshots data/snapshots.jsonl --forecasts data/forecasts.jsonl
+//   npm run backtest -- ... --min-edge 0.03,0.05,0.08 --kelly 0.1,0.25 --balance 1000
+//   npm run backtest -- ... --results data/results.json   # { "TICKER": "yes" | "no" }
+//
+// Without --results, outcomes come from the forecast store's resolutions.
+
+import fs from "node:fs";
+import { loadConfig } from "../utils/config.js";
+import { createLogger } from "../utils/logger.js";
+import { Backtester, loadForecasts, loadSnapshots } from "../backtest/backtester.js";
+import { ForecastStore } from "../forecaster/forecast-store.js";
+import type { BacktestResult } from "../types/index.js";
+
+async function main() {
+  const config = loadConfig({ requireCredentials: false });
+  // Pipeline components log every signal — keep quiet unless asked
+  const logger = createLogger(process.argv.includes("--verbose") ? config.logLevel : "warn");
+
+  const dataDir = config.storage.dataDir;
+  const snapshotsPath = getArg("--snapshots") ?? `${dataDir}/snapshots.jsonl`;
+  const forecastsPath = getArg("--forecasts") ?? `${dataDir}/forecasts.jsonl`;
+  const resultsPath = getArg("--results");
+  const balance = parseFloat(getArg("--balance") ?? "1000");
+  const minEdges = parseList(getArg("--min-edge"), config.trading.minEdgeThreshold);
+  const kellys = parseList(getArg("--kelly"), config.trading.kellyFraction);
+
+  const snapshots = loadSnapshots(snapshotsPath);
+  const forecasts = loadForecasts(forecastsPath);
+  if (snapshots.length === 0) {
+    throw new Error(`No snapshots found in ${snapshotsPath} (record some with \`npm run scan -- --snapshot\`)`);
+  }
+  if (forecasts.length === 0) {
+    throw new Error(`No forecasts found in ${forecastsPath}`);
+  }
+
+  const results = new Map<string, "yes" | "no">();
+  if (resultsPath) {
+    const raw = JSON.parse(fs.readFileSync(resultsPath, "utf8")) as Record<string, string>;
+    for (const [ticker, result] of Object.entries(raw)) {
+      if (result === "yes" || result === "no") results.set(ticker, result);
+    }
+  } else {
+    // Fall back to outcomes the forecast store has already resolved
+    for (const [ticker, resolution] of new ForecastStore(dataDir, logger).getResolutions()) {
+      if (resolution.result === "yes" || resolution.result === "no") results.set(ticker, resolution.result);
+    }
+  }
+
+  console.log(
+    `\nReplaying ${snapshots.length} snapshots with ${forecasts.length} forecasts ` +
+    `(${minEdges.length * kellys.length} runs, $${balance.toFixed(0)} starting balance)`
+  );
+
+  const backtester = new Backtester(config, logger);
+  const runs: BacktestResult[] = [];
+  for (const minEdgeThreshold of minEdges) {
+    for (const kellyFraction of kellys) {
+      runs.push(
+        backtester.run(snapshots, forecasts, { minEdgeThreshold, kellyFraction, initialBalanceUsd: balance }, results)
+      );
+    }
+  }
+
+  printReport(runs);
+}
+
+function printReport(runs: BacktestResult[]): void {
+  console.log("\n" + "=".repeat(96));
+  console.log("  BACKTEST RESULTS");
+  console.log("=".repeat(96));
+  console.log(
+    "  " +
+      "MinEdge".padEnd(9) + "Kelly".padEnd(8) + "Trades".padEnd(8) + "Settled".padEnd(9) +
+      "Open".padEnd(6) + "HitRate".padEnd(9) + "P&L".padEnd(12) + "Return".padEnd(9) +
+      "MaxDD".padEnd(8) + "Sharpe"
+  );
+  console.log("  " + "-".repeat(92));
+
+  for (const r of runs) {
+    const pnl = `${r.totalPnl >= 0 ? "+" : "-"}$${Math.abs(r.totalPnl).toFixed(2)}`;
+    console.log(
+      "  " +
+        `${(r.minEdgeThreshold * 100).toFixed(1)}%`.padEnd(9) +
+        `${(r.kellyFraction * 100).toFixed(0)}%`.padEnd(8) +
+        `${r.trades}`.padEnd(8) +
+        `${r.settledPositions}`.padEnd(9) +
+        `${r.unsettledPositions}`.padEnd(6) +
+        `${(r.hitRate * 100).toFixed(1)}%`.padEnd(9) +
+        pnl.padEnd(12) +
+        `${(r.returnPct * 100).toFixed(1)}%`.padEnd(9) +
+        `${(r.maxDrawdown * 100).toFixed(1)}%`.padEnd(8) +
+        r.sharpe.toFixed(2)
+    );
+  }
+
+  const best = [...runs].sort((a, b) => b.totalPnl - a.totalPnl)[0];
+  if (best && runs.length > 1) {
+    console.log(
+      `\n  Best: min edge ${(best.minEdgeThreshold * 100).toFixed(1)}%, ` +
+      `Kelly ${(best.kellyFraction * 100).toFixed(0)}% → ${best.totalPnl >= 0 ? "+" : "-"}$${Math.abs(best.totalPnl).toFixed(2)}`
+    );
+  }
+  console.log("\n  Open positions are marked at the bid; P&L includes them.");
+  console.log("=".repeat(96) + "\n");
+}
+
+function getArg(name: string): string | undefined {
+  const idx = process.argv.indexOf(name);
+  return idx >= 0 ? process.argv[idx + 1] : undefined;
+}
+
+function parseList(value: string | undefined, fallback: number): number[] {
+  if (!value) return [fallback];
+  return value.split(",").map((s) => parseFloat(s.trim())).filter((n) => !Number.isNaN(n));
+}
+
+main().catch(console.error);
@@ -0,0 +1,78 @@
+#!/usr/bin/env tsx
+// ============================================================
+// CLI: Inspect, trip and re-arm the circuit breaker
+// ============================================================
+//
+// Usage:
+//   npm run breaker                        # show state and limits
+//   npm run breaker -- trip ["reason"]     # throw the kill switch by hand
+//   npm run breaker -- rearm               # resume new entries after a trip
+//
+// Each works on the default paper account's breaker; pick another with
+// --account <name>, or the live breaker with --live.
+
+import { loadConfig } from "../utils/config.js";
+import { createLogger } from "../utils/logger.js";
+import { CircuitBreaker, breakerStatePath } from "../risk/circuit-breaker.js";
+
+async function main() {
+  const args = process.argv.slice(2);
+  const config = loadConfig({ requireCredentials: false });
+  const logger = createLogger(config.logLevel);
+
+  const live = args.includes("--live");
+  const accountIdx = args.indexOf("--account");
+  if (accountIdx >= 0) {
+    if (live || !args[accountIdx + 1]) throw new Error("Usage: breaker [status|trip|rearm] [--account <name> | --live]");
+    config.paper.account = args[accountIdx + 1];
+    args.splice(accountIdx, 2);
+  }
+  const [command, ...rest] = args.filter((a) => a !== "--live");
+
+  const mode = live ? "live" : "paper";
+  const statePath = breakerStatePath(config.storage.dataDir, mode, config.paper.account);
+  const breaker = new CircuitBreaker(config, logger, statePath);
+
+  switch (command) {
+    case "status":
+    case undefined:
+      break;
+
+    case "trip":
+      breaker.trip("kill_switch", rest.join(" ") || "tripped by hand from the breaker CLI");
+      break;
+
+    case "rearm": {
+      const cleared = breaker.rearm();
+      console.log(cleared ? "Re-armed; new entries resume at the agent's next check." : "Breaker was not tripped.");
+      break;
+    }
+
+    default:
+      throw new Error(`Unknown command "${command}" (expected status, trip or rearm)`);
+  }
+
+  const status = breaker.status();
+  const drawdownText = status.maxDrawdownPct > 0 ? `${(status.maxDrawdownPct * 100).toFixed(0)}% from peak` : "off";
+  console.log("\n" + "=".repeat(60));
+  console.log(`  CIRCUIT BREAKER — ${live ? "LIVE" : `paper account "${config.paper.account}"`}`);
+  console.log("=".repeat(60));
+  console.log(`  State file:   ${statePath}`);
+  if (status.trip) {
+    console.log(`  State:        TRIPPED (${status.trip.breaker}) at ${status.trip.trippedAt}`);
+    console.log(`  Reason:       ${status.trip.reason}`);
+  } else {
+    console.log("  State:        armed");
+  }
+  console.log(`  Trading day:  ${status.day} (${status.timezone})`);
+  console.log(`  Daily loss:   $${status.dailyLossUsd.toFixed(2)} of $${status.dailyLossLimitUsd.toFixed(2)}`);
+  console.log(`  Trades/hour:  ${status.tradeTimes.length} of ${status.maxTradesPerHour}`);
+  console.log(
+    `  Peak equity:  ${status.peakEquityUsd > 0 ? `$${status.peakEquityUsd.toFixed(2)}` : "not yet seen"} ` +
+    `(drawdown limit ${drawdownText})`
+  );
+  console.log(`  Kill switch:  ${status.killSwitchPath}${status.killSwitchPresent ? " — PRESENT" : " (absent)"}`);
+  console.log("=".repeat(60) + "\n");
+}
+
+main().catch(console.error);
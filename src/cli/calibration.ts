@@ -0,0 +1,82 @@
+#!/usr/bin/env tsx
+// ============================================================
+// CLI: Forecast calibration report
+// ============================================================
+//
+// Usage:
+//   npm run calibration                 # report on already-resolved forecasts
+//   npm run calibration -- --resolve    # first poll Kalshi for newly settled markets
+//   npm run calibration -- --buckets 5
+
+import { loadConfig } from "../utils/config.js";
+import { createLogger } from "../utils/logger.js";
+import { KalshiClient } from "../api/kalshi-client.js";
+import { ForecastStore } from "../forecaster/forecast-store.js";
+import { buildCalibrationReport } from "../forecaster/calibration.js";
+
+async function main() {
+  const resolve = process.argv.includes("--resolve");
+  const config = loadConfig({ requireCredentials: resolve });
+  const logger = createLogger(config.logLevel);
+  const bucketIdx = process.argv.indexOf("--buckets");
+  const bucketArg = bucketIdx >= 0 ? process.argv[bucketIdx + 1] : "10";
+  const buckets = Number(bucketArg);
+  if (!/^\d+$/.test(bucketArg ?? "") || buckets <= 0) {
+    throw new Error("Usage: calibration [--resolve] [--buckets <positive integer>]");
+  }
+
+  const store = new ForecastStore(config.storage.dataDir, logger);
+
+  if (resolve) {
+    const kalshi = new KalshiClient(config, logger);
+    await store.resolvePending(kalshi);
+  }
+
+  const total = store.getForecasts().length;
+  const resolved = store.getResolvedForecasts();
+  const report = buildCalibrationReport(resolved, buckets);
+
+  console.log("\n" + "=".repeat(70));
+  console.log("  FORECAST CALIBRATION");
+  console.log("=".repeat(70));
+  console.log(`  Forecasts stored:   ${total}`);
+  console.log(`  Resolved (YES/NO):  ${report.count}`);
+
+  if (report.count === 0) {
+    console.log("\n  No resolved forecasts yet. Run with --resolve once markets settle.");
+    console.log("=".repeat(70) + "\n");
+    return;
+  }
+
+  console.log(`  Base rate (YES):    ${(report.baseRate * 100).toFixed(1)}%`);
+  console.log(`  Brier score:        ${report.brierScore.toFixed(4)}  (market: ${report.marketBrierScore.toFixed(4)}, lower is better)`);
+  console.log(`  Log loss:           ${report.logLoss.toFixed(4)}`);
+
+  console.log("\n  RELIABILITY (predicted vs observed YES rate):\n");
+  console.log("  " + "Bucket".padEnd(14) + "Count".padEnd(8) + "Predicted".padEnd(12) + "Observed");
+  for (const b of report.reliability) {
+    console.log(
+      "  " +
+        `${(b.lower * 100).toFixed(0)}–${(b.upper * 100).toFixed(0)}%`.padEnd(14) +
+        `${b.count}`.padEnd(8) +
+        `${(b.meanForecast * 100).toFixed(1)}%`.padEnd(12) +
+        `${(b.observedRate * 100).toFixed(1)}%`
+    );
+  }
+
+  console.log("\n  BY SELF-REPORTED CONFIDENCE:\n");
+  console.log("  " + "Confidence".padEnd(14) + "Count".padEnd(8) + "Brier".padEnd(10) + "Directional acc.");
+  for (const b of report.byConfidence) {
+    console.log(
+      "  " +
+        `${(b.lower * 100).toFixed(0)}–${(b.upper * 100).toFixed(0)}%`.padEnd(14) +
+        `${b.count}`.padEnd(8) +
+        b.brierScore.toFixed(4).padEnd(10) +
+        `${(b.directionalAccuracy * 100).toFixed(1)}%`
+    );
+  }
+
+  console.log("\n" + "=".repeat(70) + "\n");
+}
+
+main().catch(console.error);
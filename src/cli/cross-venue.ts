@@ -0,0 +1,129 @@
+#!/usr/bin/env tsx
+// ============================================================
+// CLI: Kalshi ↔ Polymarket matching and cross-venue edge report
+// ============================================================
+//
+// Usage:
+//   npm run cross-venue                          # match markets, report edges
+//   npm run cross-venue -- review                # list matches awaiting review
+//   npm run cross-venue -- approve <id> [--inverted] [--note "..."]
+//   npm run cross-venue -- reject <id>
+
+import { loadConfig } from "../utils/config.js";
+import { createLogger } from "../utils/logger.js";
+import { KalshiClient } from "../api/kalshi-client.js";
+import { PolymarketClient } from "../venues/polymarket-client.js";
+import { ContractMatcher } from "../venues/contract-matcher.js";
+import { CrossVenueScanner, describeCrossVenueEdge } from "../venues/cross-venue-scanner.js";
+import type { CrossVenueEdge, MatchCandidate } from "../types/index.js";
+
+async function main() {
+  const [command, id] = process.argv.slice(2).filter((a) => !a.startsWith("--") && !isFlagValue(a));
+  const config = loadConfig({ requireCredentials: command === "scan" || command === undefined });
+  const logger = createLogger(config.logLevel);
+  const matcher = new ContractMatcher(config, logger);
+
+  switch (command) {
+    case "scan":
+    case undefined: {
+      const scanner = new CrossVenueScanner(
+        new KalshiClient(config, logger),
+        new PolymarketClient(config, logger),
+        matcher,
+        config,
+        logger
+      );
+      const report = await scanner.scan();
+
+      console.log("\n" + "=".repeat(80));
+      console.log("  CROSS-VENUE REPORT — Kalshi ↔ Polymarket");
+      console.log("=".repeat(80));
+      console.log(`  ${report.kalshiMarkets} Kalshi markets, ${report.polymarketMarkets} Polymarket markets`);
+      console.log(
+        `  Fees: Kalshi taker ${config.fees.takerRate}, Polymarket taker ${config.polymarket.takerFeeRate}` +
+        ` | min profit ${report.minProfitCents}¢ per pair`
+      );
+
+      const arbs = report.edges.filter((e) => scanner.isArbitrage(e));
+      console.log(`\n  REVIEWED PAIRS (${report.edges.length}, ${arbs.length} arbitrage)`);
+      if (report.edges.length === 0) {
+        console.log("  None. Add mappings to " + config.crossVenue.mappingsPath + " or approve queued matches.");
+      }
+      for (const edge of report.edges) printEdge(edge, scanner.isArbitrage(edge));
+
+      console.log(`\n  PENDING REVIEW (${report.pending.length}) — quotes only, approve to price from books`);
+      for (const edge of report.pending) {
+        printEdge(edge, false);
+        console.log(`      approve: npm run cross-venue -- approve ${edge.pair.candidateId}`);
+      }
+      console.log("\n" + "=".repeat(80) + "\n");
+      break;
+    }
+
+    case "review":
+      printQueue(matcher.getQueue("pending"));
+      break;
+
+    case "approve": {
+      if (!id) throw new Error('Usage: cross-venue approve <id> [--inverted] [--note "..."]');
+      const mapping = matcher.approve(id, process.argv.includes("--inverted"), getArg("--note"));
+      console.log(
+        `Approved ${mapping.kalshi} ↔ ${mapping.polymarket}${mapping.inverted ? " (inverted)" : ""}; ` +
+        `added to ${config.crossVenue.mappingsPath}`
+      );
+      break;
+    }
+
+    case "reject": {
+      if (!id) throw new Error("Usage: cross-venue reject <id>");
+      const candidate = matcher.reject(id);
+      console.log(`Rejected ${candidate.kalshi} ↔ ${candidate.polymarket}; it won't be proposed again`);
+      break;
+    }
+
+    default:
+      throw new Error(`Unknown command "${command}" (expected scan, review, approve or reject)`);
+  }
+}
+
+function printEdge(edge: CrossVenueEdge, arbitrage: boolean): void {
+  const { kalshi, polymarket, inverted } = edge.pair;
+  console.log(`\n  ${arbitrage ? "💰 " : ""}${kalshi.id} ↔ ${polymarket.slug ?? polymarket.id}${inverted ? " (inverted)" : ""}`);
+  console.log(`    Kalshi:     ${kalshi.title}`);
+  console.log(`    Polymarket: ${polymarket.title}`);
+  console.log(
+    `    YES bid/ask  Kalshi ${kalshi.yesBid.toFixed(1)}/${kalshi.yesAsk.toFixed(1)}¢, ` +
+    `Polymarket ${polymarket.yesBid.toFixed(1)}/${polymarket.yesAsk.toFixed(1)}¢ ` +
+    `| mid divergence ${edge.midDivergence >= 0 ? "+" : ""}${edge.midDivergence.toFixed(1)}¢`
+  );
+  console.log(`    ${describeCrossVenueEdge(edge)}`);
+}
+
+function printQueue(queue: MatchCandidate[]): void {
+  if (queue.length === 0) {
+    console.log("No matches awaiting review. Run `npm run cross-venue` to look for new ones.");
+    return;
+  }
+  console.log("\n" + "=".repeat(80));
+  console.log("  MATCHES AWAITING REVIEW");
+  console.log("=".repeat(80));
+  for (const c of [...queue].sort((a, b) => b.score - a.score)) {
+    console.log(`\n  [${c.id}] score ${c.score.toFixed(2)}, close dates ${c.dateDiffDays.toFixed(1)} days apart`);
+    console.log(`    Kalshi     ${c.kalshi}: ${c.kalshiTitle}`);
+    console.log(`    Polymarket ${c.polymarket}: ${c.polymarketTitle}`);
+  }
+  console.log("\n  approve <id> [--inverted] adds the pair to the mappings; reject <id> hides it for good.");
+  console.log("=".repeat(80) + "\n");
+}
+
+function getArg(name: string): string | undefined {
+  const idx = process.argv.indexOf(name);
+  return idx >= 0 ? process.argv[idx + 1] : undefined;
+}
+
+function isFlagValue(arg: string): boolean {
+  const idx = process.argv.indexOf(arg);
+  return idx > 0 && process.argv[idx - 1] === "--note";
+}
+
+main().catch(console.error);
@@ -0,0 +1,49 @@
+#!/usr/bin/env tsx
+// ============================================================
+// CLI: Run the local mock Kalshi exchange
+// ============================================================
+//
+// Usage:
+//   npm run mock-exchange                          # built-in scenario on :8080
+//   npm run mock-exchange -- --scenario s.json --port 9000
+//
+// Then, in another shell:
+//   KALSHI_BASE_PATH=http://127.0.0.1:8080/trade-api/v2 npm run paper-trade -- --once
+
+import crypto from "node:crypto";
+import fs from "node:fs";
+import { loadConfig } from "../utils/config.js";
+import { MockExchange } from "../mock/mock-exchange.js";
+import { defaultScenario, loadScenario } from "../mock/scenarios.js";
+
+async function main() {
+  const config = loadConfig();
+
+  // Derive the public key from the same private key the client signs with
+  const pem = config.kalshi.privateKeyPem
+    ? config.kalshi.privateKeyPem.replace(/\\n/g, "\n")
+    : config.kalshi.privateKeyPath
+      ? fs.readFileSync(config.kalshi.privateKeyPath, "utf8")
+      : undefined;
+  if (!pem) throw new Error("Must provide KALSHI_PRIVATE_KEY_PATH or KALSHI_PRIVATE_KEY_PEM");
+  const publicKey = crypto.createPublicKey(crypto.createPrivateKey(pem));
+
+  const scenarioIdx = process.argv.indexOf("--scenario");
+  const scenario = scenarioIdx >= 0 ? loadScenario(process.argv[scenarioIdx + 1]) : defaultScenario();
+  const portIdx = process.argv.indexOf("--port");
+  const port = portIdx >= 0 ? parseInt(process.argv[portIdx + 1], 10) : 8080;
+
+  const exchange = new MockExchange(scenario, { apiKeyId: config.kalshi.apiKeyId, publicKey });
+  const url = await exchange.start(port);
+
+  console.log(`Mock Kalshi exchange listening with ${scenario.markets.length} markets`);
+  console.log(`  KALSHI_BASE_PATH=${url}`);
+
+  const shutdown = () => {
+    exchange.stop().then(() => process.exit(0));
+  };
+  process.on("SIGINT", shutdown);
+  process.on("SIGTERM", shutdown);
+}
+
+main().catch(console.error);
@@ -0,0 +1,53 @@
+#!/usr/bin/env tsx
+// ============================================================
+// CLI: Match current news against open markets (dry run)
+// ============================================================
+//
+// Usage:
+//   npm run news                          # feeds from NEWS_FEEDS + CONTEXT_NEWS_DIR
+//   npm run news -- --feed https://...    # add a feed for this run
+//
+// Shows which markets each item would trigger a re-forecast for. Does not
+// forecast, and does not mark anything as seen.
+
+import { loadConfig } from "../utils/config.js";
+import { createLogger } from "../utils/logger.js";
+import { KalshiClient } from "../api/kalshi-client.js";
+import { NewsIngestor } from "../news/news-ingestor.js";
+import { matchNewsToMarkets } from "../news/news-matcher.js";
+import { isLLMForecastable } from "../utils/market-filter.js";
+
+async function main() {
+  const config = loadConfig();
+  const logger = createLogger(config.logLevel);
+
+  const feedIdx = process.argv.indexOf("--feed");
+  if (feedIdx >= 0) config.news.feeds.push(process.argv[feedIdx + 1]);
+
+  const kalshi = new KalshiClient(config, logger);
+  const markets = (await kalshi.getAllOpenMarkets()).filter((m) => m.status === "open" && isLLMForecastable(m));
+  const items = await new NewsIngestor(config, logger).collect();
+  const matches = matchNewsToMarkets(items, markets, config.news);
+
+  console.log("\n" + "=".repeat(70));
+  console.log("  NEWS → MARKET MATCHES");
+  console.log("=".repeat(70));
+  console.log(`  Items: ${items.length} from ${config.news.feeds.length} feeds + ${config.context.newsDir}`);
+  console.log(`  Markets: ${markets.length} open and forecastable`);
+  console.log(`  Items matching a market: ${matches.length}`);
+
+  for (const match of matches) {
+    console.log(`\n  ${match.item.title}`);
+    if (match.item.publishedAt) console.log(`    published ${match.item.publishedAt}`);
+    for (const m of match.markets) {
+      const market = markets.find((x) => x.ticker === m.ticker)!;
+      console.log(
+        `    → ${m.ticker.padEnd(30)} score ${m.score.toFixed(2)}  ` +
+        `${market.title}${m.entities.length > 0 ? `  [${m.entities.join(", ")}]` : ""}`
+      );
+    }
+  }
+  console.log("\n" + "=".repeat(70) + "\n");
+}
+
+main().catch(console.error);
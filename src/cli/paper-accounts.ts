@@ -0,0 +1,124 @@
+#!/usr/bin/env tsx
+// ============================================================
+// CLI: List, reset and export persisted paper accounts
+// ============================================================
+//
+// Usage:
+//   npm run paper-accounts -- list
+//   npm run paper-accounts -- reset <account>
+//   npm run paper-accounts -- export <account> [--format json|csv] [--out file]
+
+import fs from "node:fs";
+import { loadConfig } from "../utils/config.js";
+import {
+  archivePaperLedger,
+  listPaperLedgers,
+  loadPaperLedger,
+  paperLedgerPath,
+} from "../agent/paper-ledger.js";
+import type { PaperLedger } from "../types/index.js";
+
+async function main() {
+  const config = loadConfig({ requireCredentials: false });
+  const dataDir = config.storage.dataDir;
+  const [command, account] = process.argv.slice(2).filter((a) => !a.startsWith("--") && !isFlagValue(a));
+
+  switch (command) {
+    case "list":
+    case undefined:
+      printAccounts(listPaperLedgers(dataDir));
+      break;
+
+    case "reset": {
+      if (!account) throw new Error("Usage: paper-accounts reset <account>");
+      const backup = archivePaperLedger(paperLedgerPath(dataDir, account));
+      console.log(
+        backup
+          ? `Reset "${account}". Previous ledger kept at ${backup}`
+          : `No paper account named "${account}"`
+      );
+      break;
+    }
+
+    case "export": {
+      if (!account) throw new Error("Usage: paper-accounts export <account> [--format json|csv] [--out file]");
+      const ledger = loadPaperLedger(paperLedgerPath(dataDir, account));
+      if (!ledger) throw new Error(`No paper account named "${account}"`);
+
+      const format = getArg("--format") ?? "json";
+      const output = format === "csv" ? tradesToCsv(ledger) : JSON.stringify(ledger, null, 2);
+      const outPath = getArg("--out");
+      if (outPath) {
+        fs.writeFileSync(outPath, output);
+        console.log(`Exported "${account}" (${ledger.trades.length} trades) to ${outPath}`);
+      } else {
+        console.log(output);
+      }
+      break;
+    }
+
+    default:
+      throw new Error(`Unknown command "${command}" (expected list, reset or export)`);
+  }
+}
+
+function printAccounts(ledgers: PaperLedger[]): void {
+  if (ledgers.length === 0) {
+    console.log("No paper accounts yet. Start one with `npm run paper-trade -- --account <name>`.");
+    return;
+  }
+
+  console.log("\n" + "=".repeat(84));
+  console.log("  PAPER ACCOUNTS");
+  console.log("=".repeat(84));
+  console.log(
+    "  " + "Account".padEnd(18) + "Balance".padEnd(12) + "Exposure".padEnd(12) +
+    "Positions".padEnd(11) + "Trades".padEnd(8) + "Updated"
+  );
+  for (const l of ledgers) {
+    const exposure = l.positions.reduce((sum, p) => sum + (p.contracts * p.avgPrice) / 100, 0);
+    console.log(
+      "  " +
+        l.account.padEnd(18) +
+        `$${l.balanceUsd.toFixed(2)}`.padEnd(12) +
+        `$${exposure.toFixed(2)}`.padEnd(12) +
+        `${l.positions.length}`.padEnd(11) +
+        `${l.trades.length}`.padEnd(8) +
+        l.updatedAt.replace("T", " ").slice(0, 19)
+    );
+  }
+  console.log("=".repeat(84) + "\n");
+}
+
+function tradesToCsv(ledger: PaperLedger): string {
+  const header = "id,executed_at,ticker,side,action,contracts,limit_price,fill_price,filled,fees,pnl,reason";
+  const rows = ledger.trades.map((t) =>
+    [
+      t.id,
+      t.executedAt.toISOString(),
+      t.signal.edge.ticker,
+      t.signal.side,
+      t.signal.action,
+      t.filledContracts ?? t.signal.contracts,
+      t.signal.limitPrice,
+      t.fillPrice ?? "",
+      t.filled,
+      t.fees ?? "",
+      t.pnl ?? "",
+      `"${t.signal.reason.replace(/"/g, '""')}"`,
+    ].join(",")
+  );
+  return [header, ...rows].join("\n") + "\n";
+}
+
+function getArg(name: string): string | undefined {
+  const idx = process.argv.indexOf(name);
+  return idx >= 0 ? process.argv[idx + 1] : undefined;
+}
+
+function isFlagValue(arg: string): boolean {
+  const idx = process.argv.indexOf(arg);
+  return idx > 0 && process.argv[idx - 1].startsWith("--");
+}
+
+main().catch(console.error);
@@ -11,11 +11,18 @@ async function main() {
   const config = loadConfig();
   const logger = createLogger(config.logLevel);
 
+  // --account <name> runs a separate, independently persisted paper account
+  const accountIdx = process.argv.indexOf("--account");
+  if (accountIdx >= 0 && process.argv[accountIdx + 1]) {
+    config.paper.account = process.argv[accountIdx + 1];
+  }
+
   console.log(`
 ╔══════════════════════════════════════════════════════════════╗
 ║           Kalshi EV Agent — Paper Trading Mode              ║
 ╠══════════════════════════════════════════════════════════════╣
 ║  Environment:  ${config.kalshi.environment.toUpperCase().padEnd(43)}║
+║  Account:      ${config.paper.account.padEnd(43)}║
 ║  Min Edge:     ${(config.trading.minEdgeThreshold * 100).toFixed(1)}%${" ".repeat(40)}║
 ║  Kelly:        ${(config.trading.kellyFraction * 100).toFixed(0)}% (fractional)${" ".repeat(30)}║
 ║  Max Position: $${config.trading.maxPositionUsd.toFixed(0).padEnd(42)}║
@@ -35,11 +42,17 @@ async function main() {
     logger.info("Received SIGTERM, shutting down...");
     agent.stop();
   });
+  // Kill switch: halt new entries until `npm run breaker -- rearm`
+  process.on("SIGUSR2", () => {
+    logger.warn("Received SIGUSR2, throwing the kill switch");
+    agent.killSwitch("SIGUSR2 received").catch((err) => logger.error(`Kill switch failed: ${err}`));
+  });
 
   // Run single cycle for testing, or continuous loop
   const singleCycle = process.argv.includes("--once");
   if (singleCycle) {
     await agent.runCycle();
+    agent.stop();
   } else {
     await agent.start();
   }
@@ -6,8 +6,15 @@
 import { loadConfig } from "../utils/config.js";
 import { createLogger } from "../utils/logger.js";
 import { KalshiClient } from "../api/kalshi-client.js";
-import { LLMForecaster } from "../forecaster/llm-forecaster.js";
+import { createForecaster } from "../forecaster/create-forecaster.js";
+import { estimateForecastCostUsd } from "../forecaster/caching-forecaster.js";
+import { CostTracker } from "../forecaster/cost-tracker.js";
+import { ContextProvider } from "../context/context-provider.js";
 import { EdgeDetector } from "../agent/edge-detector.js";
+import { BasketDetector, describeBasket } from "../arbitrage/basket-detector.js";
+import { ForecastStore } from "../forecaster/forecast-store.js";
+import { recordSnapshot } from "../backtest/backtester.js";
+import type { BasketOpportunity, OrderBook } from "../types/index.js";
 import { isLLMForecastable, hasTightSpread, selectDiverseCandidates, getMarketGroup } from "../utils/market-filter.js";
 
 async function main() {
@@ -17,7 +24,8 @@ async function main() {
   logger.info("=== Kalshi Market Scanner ===");
 
   const kalshi = new KalshiClient(config, logger);
-  const forecaster = new LLMForecaster(config, logger);
+  const costTracker = new CostTracker(config.storage.dataDir, config.forecaster.dailyBudgetUsd, logger);
+  const forecaster = createForecaster(config, logger, costTracker);
   const edgeDetector = new EdgeDetector(config, logger);
 
   // 1. Fetch markets
@@ -35,6 +43,15 @@ async function main() {
   const hasVolume = hasPrice.filter((m) => m.volume >= 10);
   logger.info(`  Filter: volume >= 10 → ${hasVolume.length}`);
 
+  // Optionally record a snapshot for backtesting. Keep every priced market with
+  // volume (not just today's candidates) so later price moves remain visible.
+  if (process.argv.includes("--snapshot")) {
+    const next = process.argv[process.argv.indexOf("--snapshot") + 1];
+    const snapshotPath = next && !next.startsWith("--") ? next : "data/snapshots.jsonl";
+    recordSnapshot(snapshotPath, hasVolume);
+    logger.info(`Recorded snapshot of ${hasVolume.length} markets to ${snapshotPath}`);
+  }
+
   // Use yesAsk as the price signal; yesBid is often 0 on illiquid markets.
   // Fall back to midpoint only when both sides are populated.
   const priceFiltered = hasVolume.filter((m) => {
@@ -67,7 +84,9 @@ async function main() {
   logger.info(`Forecasting ${candidates.length} diverse candidates across ${groupCounts.size} groups (${groupSummary})`);
 
   // 3. Forecast
-  const forecasts = await forecaster.forecastBatch(candidates);
+  const contexts = await new ContextProvider(config, logger).buildContexts(candidates, markets);
+  const forecasts = await forecaster.forecastBatch(candidates, contexts);
+  new ForecastStore(config.storage.dataDir, logger).recordBatch(forecasts, candidates);
 
   // 4. Detect edges
   const edges = edgeDetector.detectEdges(candidates, forecasts);
@@ -75,6 +94,16 @@ async function main() {
   // 5. Check arbitrage
   const arbs = edgeDetector.findArbitrageOpportunities(markets);
 
+  // 5b. Event baskets across mutually exclusive markets, sized against the books
+  const basketDetector = new BasketDetector(config, logger);
+  const baskets: BasketOpportunity[] = [];
+  for (const candidate of basketDetector.findCandidates(await kalshi.getAllOpenEvents(), markets)) {
+    const books = new Map<string, OrderBook>();
+    for (const m of candidate.markets) books.set(m.ticker, await kalshi.getOrderBook(m.ticker));
+    const opp = basketDetector.size(candidate, books, config.arbitrage.maxBasketUsd);
+    if (opp) baskets.push(opp);
+  }
+
   // 6. Report
   console.log("\n" + "=".repeat(70));
   console.log("  MARKET SCAN RESULTS");
@@ -104,7 +133,8 @@ async function main() {
       for (const arb of profits.slice(0, 16)) {
         console.log(
           `  💰 ${arb.ticker.padEnd(35)} ` +
-            `YES: ${arb.yesAsk}¢ + NO: ${arb.noAsk}¢ = ${arb.total}¢ → ${100 - arb.total}¢ free`
+            `YES: ${arb.yesAsk}¢ + NO: ${arb.noAsk}¢ + fees ${arb.fees.toFixed(1)}¢ = ` +
+            `${(arb.total + arb.fees).toFixed(1)}¢ → ${(100 - arb.total - arb.fees).toFixed(1)}¢ free`
         );
       }
       if (profits.length > 16) console.log(`  ... and ${profits.length - 16} more`);
@@ -122,6 +152,37 @@ async function main() {
     }
   }
 
+  if (baskets.length > 0) {
+    console.log(`\n  EVENT BASKETS (${baskets.length} found, up to $${config.arbitrage.maxBasketUsd} each):\n`);
+    for (const basket of baskets) {
+      console.log(`  💰 ${describeBasket(basket)}`);
+      for (const leg of basket.legs) {
+        console.log(
+          `       ${leg.ticker.padEnd(35)} ${leg.contracts}x @ avg ${leg.avgPrice.toFixed(1)}¢ ` +
+          `(limit ${leg.limitPrice}¢, fees $${(leg.feeCents / 100).toFixed(2)})`
+        );
+      }
+    }
+  }
+
+  const cacheHits = forecasts.filter((f) => f.cached).length;
+  if (config.forecaster.cache.enabled) {
+    console.log(
+      `\n  Forecast cache: ${cacheHits}/${forecasts.length} hits` +
+        ` (~$${(cacheHits * estimateForecastCostUsd(config)).toFixed(2)} saved)`
+    );
+  }
+
+  const cost = costTracker.getSummary();
+  console.log(
+    `\n  LLM cost: $${cost.cycleUsd.toFixed(2)} this scan, $${cost.todayUsd.toFixed(2)} today` +
+      (cost.dailyBudgetUsd > 0 ? ` of $${cost.dailyBudgetUsd.toFixed(2)} budget` : "") +
+      ` (${cost.calls} calls, ${cost.inputTokens} in / ${cost.outputTokens} out tokens, ${cost.webSearches} searches)`
+  );
+  for (const m of cost.topMarkets) {
+    console.log(`    ${m.ticker.padEnd(35)} $${m.costUsd.toFixed(3)} (${m.calls} calls)`);
+  }
+
   console.log("\n" + "=".repeat(70) + "\n");
 }
 
@@ -0,0 +1,139 @@
+// ============================================================
+// Context Provider — Per-market retrieval context for forecasts
+// ============================================================
+
+import type {
+  AgentConfig,
+  ContextSnippet,
+  ContextSourceName,
+  KalshiMarket,
+  MarketContext,
+} from "../types/index.js";
+import type { Logger } from "../utils/logger.js";
+import { RulesSource } from "./rules-source.js";
+import { SiblingSource } from "./sibling-source.js";
+import { PriceHistorySource } from "./price-history-source.js";
+import { NewsSource } from "./news-source.js";
+
+/** A pluggable producer of context snippets */
+export interface ContextSource {
+  name: ContextSourceName;
+  /** Called once per cycle with every open market, before any gather() */
+  prepare?(allMarkets: KalshiMarket[]): Promise<void>;
+  gather(market: KalshiMarket, allMarkets: KalshiMarket[]): Promise<ContextSnippet[]>;
+}
+
+export class ContextProvider {
+  private sources: ContextSource[];
+  private tokenBudget: number;
+  private enabled: boolean;
+  private logger: Logger;
+
+  constructor(config: AgentConfig, logger: Logger) {
+    this.enabled = config.context.enabled;
+    this.tokenBudget = config.context.tokenBudget;
+    this.logger = logger;
+    this.sources = config.context.sources.map((name) => createSource(name, config, logger));
+  }
+
+  /**
+   * Gather snippets for each market from every source, then rank and
+   * truncate them to the token budget. Source failures are logged and skipped.
+   * `extra` adds caller-supplied snippets per ticker (e.g. breaking news).
+   */
+  async buildContexts(
+    markets: KalshiMarket[],
+    allMarkets: KalshiMarket[],
+    extra?: Map<string, ContextSnippet[]>
+  ): Promise<Map<string, MarketContext>> {
+    const contexts = new Map<string, MarketContext>();
+    // Caller-supplied snippets are used even with the sources switched off
+    const sources = this.enabled ? this.sources : [];
+    if (sources.length === 0 && !extra) return contexts;
+
+    for (const source of sources) {
+      try {
+        await source.prepare?.(allMarkets);
+      } catch (err) {
+        this.logger.warn(`Context source ${source.name} failed to prepare: ${err}`);
+      }
+    }
+
+    for (const market of markets) {
+      const snippets: ContextSnippet[] = [...(extra?.get(market.ticker) ?? [])];
+      for (const source of sources) {
+        try {
+          snippets.push(...(await source.gather(market, allMarkets)));
+        } catch (err) {
+          this.logger.warn(`Context source ${source.name} failed for ${market.ticker}: ${err}`);
+        }
+      }
+
+      const context = assembleContext(market.ticker, snippets, this.tokenBudget);
+      if (context.text) {
+        contexts.set(market.ticker, context);
+        this.logger.debug(
+          `Context for ${market.ticker}: ${context.sources.length}/${snippets.length} snippets, ` +
+          `~${estimateTokens(context.text)} tokens`
+        );
+      }
+    }
+
+    this.logger.info(`Built context for ${contexts.size}/${markets.length} markets`);
+    return contexts;
+  }
+}
+
+/**
+ * Highest-scoring snippets first, until the token budget runs out. The
+ * snippet that crosses the budget is cut short rather than dropped. When two
+ * snippets share a source, only the higher-scoring one is kept.
+ */
+export function assembleContext(ticker: string, snippets: ContextSnippet[], tokenBudget: number): MarketContext {
+  const seen = new Set<string>();
+  const ranked = [...snippets]
+    .sort((a, b) => b.score - a.score)
+    .filter((s) => !seen.has(s.source) && seen.add(s.source));
+  const blocks: string[] = [];
+  const sources: string[] = [];
+  let remaining = tokenBudget;
+
+  for (const snippet of ranked) {
+    const heading = `## ${snippet.heading}\n`;
+    const block = heading + snippet.text;
+    const cost = estimateTokens(block);
+
+    if (cost <= remaining) {
+      blocks.push(block);
+      remaining -= cost;
+    } else {
+      // Worth including a truncated version only if a useful amount fits
+      const chars = remaining * 4 - heading.length;
+      if (chars < 200) break;
+      blocks.push(heading + snippet.text.slice(0, chars).trimEnd() + "…");
+      remaining = 0;
+    }
+    sources.push(snippet.source);
+    if (remaining <= 0) break;
+  }
+
+  return { ticker, text: blocks.join("\n\n"), sources: [...new Set(sources)] };
+}
+
+/** ~4 characters per token */
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function createSource(name: ContextSourceName, config: AgentConfig, logger: Logger): ContextSource {
+  switch (name) {
+    case "rules":
+      return new RulesSource();
+    case "siblings":
+      return new SiblingSource();
+    case "price_history":
+      return new PriceHistorySource(config.storage.dataDir, logger);
+    case "news":
+      return new NewsSource(config.context.newsDir, config.context.newsMaxAgeHours, logger);
+  }
+}
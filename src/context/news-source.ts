@@ -0,0 +1,111 @@
+// ============================================================
+// News Source — Local news files and RSS/Atom dumps
+// ============================================================
+
+import fs from "node:fs";
+import path from "node:path";
+import type { ContextSnippet, KalshiMarket, NewsItem } from "../types/index.js";
+import type { Logger } from "../utils/logger.js";
+import { parseFeed } from "../utils/feed-parser.js";
+import { readJsonl } from "../utils/jsonl.js";
+import { marketTerms, relevance } from "../utils/text-match.js";
+import type { ContextSource } from "./context-provider.js";
+
+const MAX_ITEMS_PER_MARKET = 3;
+const MIN_RELEVANCE = 0.3;
+const MAX_SUMMARY_CHARS = 800;
+
+/**
+ * News from a directory of files:
+ *   *.xml / *.rss / *.atom   — RSS or Atom feed dumps
+ *   *.json / *.jsonl         — NewsItem records
+ *   *.txt / *.md             — one article per file (first line is the title)
+ * Items are matched to markets by keyword overlap with the market title.
+ */
+export class NewsSource implements ContextSource {
+  readonly name = "news" as const;
+  private newsDir: string;
+  private maxAgeMs: number;
+  private logger: Logger;
+  private items: NewsItem[] = [];
+
+  constructor(newsDir: string, maxAgeHours: number, logger: Logger) {
+    this.newsDir = newsDir;
+    this.maxAgeMs = maxAgeHours * 3600_000;
+    this.logger = logger;
+  }
+
+  /** Re-read the directory so files dropped in between cycles are picked up */
+  async prepare(): Promise<void> {
+    this.items = loadNewsDir(this.newsDir, this.logger).filter(
+      (item) => !item.publishedAt || Date.now() - Date.parse(item.publishedAt) <= this.maxAgeMs
+    );
+    this.logger.debug(`News: ${this.items.length} recent items in ${this.newsDir}`);
+  }
+
+  async gather(market: KalshiMarket): Promise<ContextSnippet[]> {
+    const terms = marketTerms(market);
+
+    return this.items
+      .map((item) => ({ item, score: relevance(terms, `${item.title} ${item.summary}`) }))
+      .filter((m) => m.score >= MIN_RELEVANCE)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, MAX_ITEMS_PER_MARKET)
+      // Below rules and siblings unless the match is very strong
+      .map(({ item, score }) => newsSnippet(item, 0.3 + 0.6 * score));
+  }
+}
+
+/** A news item as a context snippet */
+export function newsSnippet(item: NewsItem, score: number): ContextSnippet {
+  return {
+    source: item.url ?? item.source,
+    heading: `News: ${item.title}${item.publishedAt ? ` (${item.publishedAt.slice(0, 10)})` : ""}`,
+    text: item.summary.length > MAX_SUMMARY_CHARS
+      ? item.summary.slice(0, MAX_SUMMARY_CHARS).trimEnd() + "…"
+      : item.summary,
+    score,
+  };
+}
+
+/** Every NewsItem in a directory (non-recursive); unreadable files are skipped */
+export function loadNewsDir(dir: string, logger: Logger): NewsItem[] {
+  if (!fs.existsSync(dir)) return [];
+
+  const items: NewsItem[] = [];
+  for (const name of fs.readdirSync(dir)) {
+    const filePath = path.join(dir, name);
+    try {
+      items.push(...loadNewsFile(filePath));
+    } catch (err) {
+      logger.warn(`Skipping unreadable news file ${filePath}: ${err}`);
+    }
+  }
+  return items;
+}
+
+function loadNewsFile(filePath: string): NewsItem[] {
+  const ext = path.extname(filePath).toLowerCase();
+  switch (ext) {
+    case ".xml":
+    case ".rss":
+    case ".atom":
+      return parseFeed(fs.readFileSync(filePath, "utf8"), filePath);
+    case ".json":
+    case ".jsonl":
+      return readJsonl<NewsItem>(filePath).map((item) => ({ ...item, source: item.source ?? filePath }));
+    case ".txt":
+    case ".md": {
+      const [firstLine, ...rest] = fs.readFileSync(filePath, "utf8").trim().split("\n");
+      return [{
+        id: filePath,
+        title: firstLine.replace(/^#+\s*/, ""),
+        summary: rest.join(" ").replace(/\s+/g, " ").trim(),
+        publishedAt: fs.statSync(filePath).mtime.toISOString(),
+        source: filePath,
+      }];
+    }
+    default:
+      return [];
+  }
+}
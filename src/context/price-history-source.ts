@@ -0,0 +1,105 @@
+// ============================================================
+// Price History Source — Recent YES price trajectory
+// ============================================================
+
+import path from "node:path";
+import type { ContextSnippet, KalshiMarket, MarketSnapshot } from "../types/index.js";
+import type { Logger } from "../utils/logger.js";
+import { readJsonl } from "../utils/jsonl.js";
+import type { ContextSource } from "./context-provider.js";
+
+const MAX_POINTS_PER_TICKER = 200;
+
+interface PricePoint {
+  timestamp: number;        // ms
+  yesBid: number;
+  yesAsk: number;
+}
+
+/**
+ * Price history from recorded snapshots (`scan --snapshot`), extended with
+ * the prices seen each cycle while the agent runs.
+ */
+export class PriceHistorySource implements ContextSource {
+  readonly name = "price_history" as const;
+  private snapshotsPath: string;
+  private logger: Logger;
+  private history = new Map<string, PricePoint[]>();
+  private loaded = false;
+
+  constructor(dataDir: string, logger: Logger) {
+    this.snapshotsPath = path.join(dataDir, "snapshots.jsonl");
+    this.logger = logger;
+  }
+
+  async prepare(allMarkets: KalshiMarket[]): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = true;
+      const snapshots = readJsonl<MarketSnapshot>(this.snapshotsPath);
+      for (const snapshot of snapshots) {
+        this.observe(snapshot.markets, Date.parse(snapshot.timestamp));
+      }
+      this.logger.debug(`Price history: loaded ${snapshots.length} snapshots from ${this.snapshotsPath}`);
+    }
+    this.observe(allMarkets, Date.now());
+  }
+
+  async gather(market: KalshiMarket): Promise<ContextSnippet[]> {
+    const points = this.history.get(market.ticker) ?? [];
+    if (points.length < 2) return [];
+
+    const first = points[0];
+    const last = points[points.length - 1];
+    const mids = points.map(mid);
+    const dayAgo = points.find((p) => p.timestamp >= last.timestamp - 86_400_000) ?? first;
+
+    const lines = [
+      `${points.length} observations from ${iso(first.timestamp)} to ${iso(last.timestamp)}`,
+      `YES mid: ${mid(first).toFixed(1)}¢ → ${mid(last).toFixed(1)}¢ ` +
+        `(range ${Math.min(...mids).toFixed(1)}–${Math.max(...mids).toFixed(1)}¢)`,
+      `Change over the last 24h: ${signed(mid(last) - mid(dayAgo))}¢`,
+      "Sampled prices:",
+      ...sample(points, 6).map((p) => `- ${iso(p.timestamp)}: bid ${p.yesBid}¢ / ask ${p.yesAsk}¢`),
+    ];
+
+    return [{
+      source: `price-history:${market.ticker}`,
+      heading: "Recent price history",
+      text: lines.join("\n"),
+      score: 0.6,
+    }];
+  }
+
+  // --- Helpers ---
+
+  private observe(markets: KalshiMarket[], timestamp: number): void {
+    for (const m of markets) {
+      if (m.yesBid <= 0 && m.yesAsk <= 0) continue;
+      const points = this.history.get(m.ticker) ?? [];
+      const last = points[points.length - 1];
+      if (last && last.timestamp >= timestamp) continue;
+      points.push({ timestamp, yesBid: m.yesBid, yesAsk: m.yesAsk });
+      if (points.length > MAX_POINTS_PER_TICKER) points.shift();
+      this.history.set(m.ticker, points);
+    }
+  }
+}
+
+function mid(p: PricePoint): number {
+  return p.yesBid > 0 && p.yesAsk > 0 ? (p.yesBid + p.yesAsk) / 2 : Math.max(p.yesBid, p.yesAsk);
+}
+
+/** `n` points evenly spaced across the history, including the first and last */
+function sample(points: PricePoint[], n: number): PricePoint[] {
+  if (points.length <= n) return points;
+  const step = (points.length - 1) / (n - 1);
+  return Array.from({ length: n }, (_, i) => points[Math.round(i * step)]);
+}
+
+function iso(ms: number): string {
+  return new Date(ms).toISOString().slice(0, 16).replace("T", " ");
+}
+
+function signed(n: number): string {
+  return `${n >= 0 ? "+" : ""}${n.toFixed(1)}`;
+}
@@ -0,0 +1,18 @@
+// ============================================================
+// Rules Source — The market's own resolution rules
+// ============================================================
+
+import type { ContextSnippet, KalshiMarket } from "../types/index.js";
+import type { ContextSource } from "./context-provider.js";
+
+/** Exactly how the contract resolves matters more than anything else we can add */
+export class RulesSource implements ContextSource {
+  readonly name = "rules" as const;
+
+  async gather(market: KalshiMarket): Promise<ContextSnippet[]> {
+    const text = [market.rulesPrimary, market.rulesSecondary].filter(Boolean).join("\n\n");
+    if (!text) return [];
+
+    return [{ source: `rules:${market.ticker}`, heading: "Resolution rules", text, score: 1 }];
+  }
+}
@@ -0,0 +1,43 @@
+// ============================================================
+// Sibling Source — Other contracts in the same event
+// ============================================================
+
+import type { ContextSnippet, KalshiMarket } from "../types/index.js";
+import type { ContextSource } from "./context-provider.js";
+
+const MAX_SIBLINGS = 10;
+
+/**
+ * Prices of the other contracts in the market's event (e.g. the other
+ * brackets of a range question), which constrain what's plausible here.
+ */
+export class SiblingSource implements ContextSource {
+  readonly name = "siblings" as const;
+
+  async gather(market: KalshiMarket, allMarkets: KalshiMarket[]): Promise<ContextSnippet[]> {
+    if (!market.eventTicker) return [];
+
+    const siblings = allMarkets
+      .filter((m) => m.eventTicker === market.eventTicker && m.ticker !== market.ticker)
+      .sort((a, b) => b.volume - a.volume);
+    if (siblings.length === 0) return [];
+
+    const lines = siblings
+      .slice(0, MAX_SIBLINGS)
+      .map((m) => `- ${m.subtitle || m.title}: YES bid ${m.yesBid}¢ / ask ${m.yesAsk}¢ (volume ${m.volume})`);
+    if (siblings.length > MAX_SIBLINGS) lines.push(`- … and ${siblings.length - MAX_SIBLINGS} more`);
+
+    const sumOfBids = [market, ...siblings].reduce((sum, m) => sum + m.yesBid, 0);
+    lines.push(
+      `Sum of YES bids across all ${siblings.length + 1} contracts: ${sumOfBids}¢ ` +
+      `(≈100¢ if exactly one contract can resolve YES)`
+    );
+
+    return [{
+      source: `event:${market.eventTicker}`,
+      heading: `Other contracts in event ${market.eventTicker}`,
+      text: lines.join("\n"),
+      score: 0.8,
+    }];
+  }
+}
@@ -0,0 +1,120 @@
+// ============================================================
+// Base Forecaster — Concurrent batching and HTTP retry for backends
+// ============================================================
+
+import type { Forecast, Forecaster, KalshiMarket, MarketContext } from "../types/index.js";
+import type { Logger } from "../utils/logger.js";
+import type { CostTracker } from "./cost-tracker.js";
+import type { RateLimiter } from "./rate-limiter.js";
+
+const MAX_RETRIES = 3;
+
+export abstract class BaseForecaster implements Forecaster {
+  protected logger: Logger;
+  protected costTracker?: CostTracker;
+  /** Markets forecast in parallel by forecastBatch */
+  protected concurrency = 1;
+  /** Gates postWithRetry; backends without shared API limits leave it unset */
+  protected rateLimiter?: RateLimiter;
+
+  constructor(logger: Logger, costTracker?: CostTracker) {
+    this.logger = logger;
+    this.costTracker = costTracker;
+  }
+
+  abstract forecast(market: KalshiMarket, context?: MarketContext): Promise<Forecast>;
+
+  /**
+   * Forecast markets with up to `concurrency` in flight; the rate limiter
+   * paces the actual API calls. Results keep the order of `markets`.
+   * Stops starting new forecasts once the daily LLM budget is spent.
+   */
+  async forecastBatch(markets: KalshiMarket[], contexts?: Map<string, MarketContext>): Promise<Forecast[]> {
+    const results: Array<Forecast | undefined> = new Array(markets.length);
+    let next = 0;
+    let budgetHit = false;
+
+    const worker = async () => {
+      while (next < markets.length) {
+        if (this.costTracker?.isOverBudget()) {
+          if (!budgetHit) {
+            budgetHit = true;
+            this.logger.warn(
+              `Daily LLM budget reached ($${this.costTracker.todayUsd().toFixed(2)}) — ` +
+              `skipping ${markets.length - next} remaining forecasts`
+            );
+          }
+          return;
+        }
+
+        const i = next++;
+        try {
+          results[i] = await this.forecast(markets[i], contexts?.get(markets[i].ticker));
+        } catch (err) {
+          this.logger.error(`Forecast failed for ${markets[i].ticker}: ${err}`);
+        }
+      }
+    };
+
+    const workers = Math.min(this.concurrency, markets.length);
+    await Promise.all(Array.from({ length: workers }, worker));
+    return results.filter((f): f is Forecast => f !== undefined);
+  }
+
+  /**
+   * POST JSON through the rate limiter, with retry + exponential backoff on
+   * 429s. `estimatedInputTokens` is reserved from the input-token bucket.
+   */
+  protected async postWithRetry(
+    url: string,
+    headers: Record<string, string>,
+    body: Record<string, unknown>,
+    ticker: string,
+    estimatedInputTokens = 0
+  ): Promise<any> {
+    for (let attempt = 0; attempt <= MAX_RETRIES; attempt++) {
+      await this.rateLimiter?.acquire(estimatedInputTokens);
+      const response = await fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...headers },
+        body: JSON.stringify(body),
+      });
+      this.rateLimiter?.updateFromHeaders(response.headers);
+
+      if (response.status === 429) {
+        if (attempt === MAX_RETRIES) {
+          const err = await response.text();
+          throw new Error(`Rate limited after ${MAX_RETRIES} retries: ${err}`);
+        }
+
+        // Use retry-after header if available, otherwise exponential backoff
+        const retryAfterSec = parseInt(response.headers.get("retry-after") || "0", 10);
+        const backoffMs = retryAfterSec > 0
+          ? retryAfterSec * 1000
+          : Math.min(15_000 * Math.pow(2, attempt), 120_000); // 15s, 30s, 60s
+
+        this.logger.warn(
+          `Rate limited on ${ticker}, waiting ${(backoffMs / 1000).toFixed(0)}s ` +
+          `(attempt ${attempt + 1}/${MAX_RETRIES})`
+        );
+        if (this.rateLimiter) {
+          this.rateLimiter.pauseFor(backoffMs); // holds back every concurrent caller
+        } else {
+          await sleep(backoffMs);
+        }
+        continue;
+      }
+
+      if (!response.ok) {
+        const err = await response.text();
+        throw new Error(`Forecaster API error ${response.status} from ${url}: ${err}`);
+      }
+
+      return response.json();
+    }
+  }
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
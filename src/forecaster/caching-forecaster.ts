@@ -0,0 +1,185 @@
+// ============================================================
+// Caching Forecaster — Reuses recent forecasts until they go stale
+// ============================================================
+
+import fs from "node:fs";
+import path from "node:path";
+import { createHash } from "node:crypto";
+import type { AgentConfig, Forecast, Forecaster, KalshiMarket, MarketContext } from "../types/index.js";
+import type { Logger } from "../utils/logger.js";
+
+/** A cached forecast plus the market state it was made against */
+interface CacheEntry {
+  key: string;              // hash of the prompt inputs + forecaster settings
+  forecast: Omit<Forecast, "timestamp"> & { timestamp: string };
+  yesAsk: number;
+  yesBid: number;
+}
+
+/** Running totals since this forecaster was created */
+export interface CacheStats {
+  hits: number;
+  misses: number;
+  savedUsd: number;         // estimated model spend avoided by hits
+}
+
+export class CachingForecaster implements Forecaster {
+  private inner: Forecaster;
+  private logger: Logger;
+  private cachePath: string;
+  private entries: Record<string, CacheEntry>;
+  private settingsKey: string;
+  private costPerForecastUsd: number;
+  private ttlMs: number;
+  private maxPriceMoveCents: number;
+  private expiryBufferMs: number;
+  private stats: CacheStats = { hits: 0, misses: 0, savedUsd: 0 };
+
+  constructor(inner: Forecaster, config: AgentConfig, logger: Logger) {
+    this.inner = inner;
+    this.logger = logger;
+    this.cachePath = path.join(config.storage.dataDir, "forecast-cache.json");
+    this.ttlMs = config.forecaster.cache.ttlSeconds * 1000;
+    this.maxPriceMoveCents = config.forecaster.cache.maxPriceMoveCents;
+    this.expiryBufferMs = config.forecaster.cache.expiryBufferHours * 3600_000;
+    this.costPerForecastUsd = estimateForecastCostUsd(config);
+
+    // Changing backend, model or ensemble settings invalidates everything
+    const { backend, model, enableWebSearch, ensemble } = config.forecaster;
+    this.settingsKey = JSON.stringify({ backend, model, enableWebSearch, ensemble });
+
+    this.entries = this.load();
+  }
+
+  async forecast(market: KalshiMarket, context?: MarketContext): Promise<Forecast> {
+    const [forecast] = await this.forecastBatch([market], context && new Map([[market.ticker, context]]));
+    if (!forecast) throw new Error(`Forecast failed for ${market.ticker}`);
+    return forecast;
+  }
+
+  /**
+   * Serve fresh cache entries directly and send only the rest to the
+   * underlying forecaster. Results keep the order of `markets`.
+   */
+  async forecastBatch(markets: KalshiMarket[], contexts?: Map<string, MarketContext>): Promise<Forecast[]> {
+    const now = Date.now();
+    const hits = new Map<string, Forecast>();
+    const misses: KalshiMarket[] = [];
+
+    for (const market of markets) {
+      const key = this.keyFor(market, contexts?.get(market.ticker));
+      const stale = this.staleReason(this.entries[market.ticker], market, key, now);
+      if (stale) {
+        this.logger.debug(`Cache miss for ${market.ticker}: ${stale}`);
+        misses.push(market);
+        continue;
+      }
+
+      const { forecast } = this.entries[market.ticker];
+      hits.set(market.ticker, { ...forecast, timestamp: new Date(forecast.timestamp), cached: true });
+    }
+
+    const fresh = misses.length > 0 ? await this.inner.forecastBatch(misses, contexts) : [];
+    const marketMap = new Map(misses.map((m) => [m.ticker, m]));
+    for (const forecast of fresh) {
+      if (forecast.parseFailed) continue; // retry next time rather than reuse a placeholder
+      const market = marketMap.get(forecast.ticker)!;
+      this.entries[forecast.ticker] = {
+        key: this.keyFor(market, contexts?.get(market.ticker)),
+        forecast: { ...forecast, timestamp: forecast.timestamp.toISOString() },
+        yesAsk: market.yesAsk,
+        yesBid: market.yesBid,
+      };
+    }
+    if (fresh.length > 0) this.save(now);
+
+    const saved = hits.size * this.costPerForecastUsd;
+    this.stats.hits += hits.size;
+    this.stats.misses += misses.length;
+    this.stats.savedUsd += saved;
+    this.logger.info(
+      `Forecast cache: ${hits.size} hits, ${misses.length} misses` +
+      (saved > 0 ? ` — saved ~$${saved.toFixed(2)} (~$${this.stats.savedUsd.toFixed(2)} total)` : "")
+    );
+
+    const freshMap = new Map(fresh.map((f) => [f.ticker, f]));
+    return markets
+      .map((m) => hits.get(m.ticker) ?? freshMap.get(m.ticker))
+      .filter((f): f is Forecast => f !== undefined);
+  }
+
+  getStats(): CacheStats {
+    return { ...this.stats };
+  }
+
+  // --- Helpers ---
+
+  /** Why a cache entry can't be reused, or null if it can */
+  private staleReason(entry: CacheEntry | undefined, market: KalshiMarket, key: string, now: number): string | null {
+    if (!entry) return "not cached";
+    if (entry.key !== key) return "prompt inputs changed";
+
+    const ageMs = now - new Date(entry.forecast.timestamp).getTime();
+    if (ageMs > this.ttlMs) return `older than ${this.ttlMs / 1000}s`;
+
+    const move = Math.max(Math.abs(market.yesAsk - entry.yesAsk), Math.abs(market.yesBid - entry.yesBid));
+    if (move > this.maxPriceMoveCents) return `price moved ${move}¢`;
+
+    const expiresInMs = new Date(market.expirationDate).getTime() - now;
+    if (expiresInMs < this.expiryBufferMs) return "close to expiration";
+
+    return null;
+  }
+
+  /**
+   * The stable prompt inputs plus the forecaster settings. Context is keyed
+   * by its sources, not its text: price history and sibling quotes change
+   * every cycle and are covered by the price-move rule, while a new news
+   * item adds a source and forces a re-forecast.
+   */
+  private keyFor(market: KalshiMarket, context?: MarketContext): string {
+    return createHash("sha256")
+      .update(JSON.stringify([
+        this.settingsKey,
+        market.title,
+        market.subtitle ?? "",
+        market.expirationDate,
+        context?.sources ?? [],
+      ]))
+      .digest("hex")
+      .slice(0, 16);
+  }
+
+  private load(): Record<string, CacheEntry> {
+    if (!fs.existsSync(this.cachePath)) return {};
+    try {
+      return JSON.parse(fs.readFileSync(this.cachePath, "utf8"));
+    } catch (err) {
+      this.logger.warn(`Ignoring unreadable forecast cache ${this.cachePath}: ${err}`);
+      return {};
+    }
+  }
+
+  /** Drop expired entries and write atomically */
+  private save(now: number): void {
+    for (const [ticker, entry] of Object.entries(this.entries)) {
+      if (now - new Date(entry.forecast.timestamp).getTime() > this.ttlMs) delete this.entries[ticker];
+    }
+    fs.mkdirSync(path.dirname(this.cachePath), { recursive: true });
+    const tmpPath = `${this.cachePath}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify(this.entries, null, 2));
+    fs.renameSync(tmpPath, this.cachePath);
+  }
+}
+
+/**
+ * Rough model spend per market forecast, for reporting savings. Claude
+ * Sonnet runs ~$0.015 per forecast, or ~$0.10 with web search (searches +
+ * the extra input tokens); local and fixture backends are free.
+ */
+export function estimateForecastCostUsd(config: AgentConfig): number {
+  const { backend, enableWebSearch, ensemble } = config.forecaster;
+  const backends = ensemble.backends.length > 0 ? ensemble.backends : [backend];
+  const perRun = (b: string) => (b !== "claude" ? 0 : enableWebSearch ? 0.1 : 0.015);
+  return backends.reduce((sum, b) => sum + perRun(b) * ensemble.samples, 0);
+}
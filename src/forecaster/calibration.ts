@@ -0,0 +1,116 @@
+// ============================================================
+// Calibration — Scoring resolved forecasts against outcomes
+// ============================================================
+
+import type {
+  CalibrationBucket,
+  CalibrationReport,
+  ConfidenceBucket,
+  ForecastRecord,
+} from "../types/index.js";
+import type { ResolvedForecast } from "./forecast-store.js";
+
+// Clamp probabilities before taking logs so a 0/1 forecast can't produce Infinity
+const LOG_LOSS_EPSILON = 1e-6;
+
+/**
+ * Build a calibration report: Brier score, log loss, a reliability diagram
+ * over `bucketCount` equal-width probability buckets, and accuracy broken
+ * down by self-reported confidence.
+ */
+export function buildCalibrationReport(
+  resolved: ResolvedForecast[],
+  bucketCount = 10
+): CalibrationReport {
+  const n = resolved.length;
+  if (n === 0) {
+    return {
+      count: 0,
+      baseRate: 0,
+      brierScore: 0,
+      logLoss: 0,
+      marketBrierScore: 0,
+      reliability: [],
+      byConfidence: [],
+    };
+  }
+
+  const baseRate = resolved.filter((r) => r.outcome === 1).length / n;
+  const marketBrier =
+    resolved.reduce((sum, r) => sum + (marketProb(r.forecast) - r.outcome) ** 2, 0) / n;
+
+  return {
+    count: n,
+    baseRate,
+    brierScore: brierScore(resolved),
+    logLoss: logLoss(resolved),
+    marketBrierScore: marketBrier,
+    reliability: reliabilityBuckets(resolved, bucketCount),
+    byConfidence: confidenceBuckets(resolved, bucketCount),
+  };
+}
+
+export function brierScore(resolved: ResolvedForecast[]): number {
+  if (resolved.length === 0) return 0;
+  return (
+    resolved.reduce((sum, r) => sum + (r.forecast.modelProbYes - r.outcome) ** 2, 0) / resolved.length
+  );
+}
+
+export function logLoss(resolved: ResolvedForecast[]): number {
+  if (resolved.length === 0) return 0;
+  const total = resolved.reduce((sum, r) => {
+    const p = Math.min(1 - LOG_LOSS_EPSILON, Math.max(LOG_LOSS_EPSILON, r.forecast.modelProbYes));
+    return sum - (r.outcome === 1 ? Math.log(p) : Math.log(1 - p));
+  }, 0);
+  return total / resolved.length;
+}
+
+// --- Helpers ---
+
+/** The market's YES probability when the forecast was made: the mid, or the ask with no bid */
+function marketProb(forecast: ForecastRecord): number {
+  const { marketYesBid: bid, marketYesAsk: ask } = forecast;
+  return (bid > 0 ? (bid + ask) / 2 : ask) / 100;
+}
+
+function bucketIndex(value: number, bucketCount: number): number {
+  return Math.min(bucketCount - 1, Math.max(0, Math.floor(value * bucketCount)));
+}
+
+function reliabilityBuckets(resolved: ResolvedForecast[], bucketCount: number): CalibrationBucket[] {
+  const groups: ResolvedForecast[][] = Array.from({ length: bucketCount }, () => []);
+  for (const r of resolved) {
+    groups[bucketIndex(r.forecast.modelProbYes, bucketCount)].push(r);
+  }
+
+  return groups
+    .map((group, i) => ({
+      lower: i / bucketCount,
+      upper: (i + 1) / bucketCount,
+      count: group.length,
+      meanForecast: group.reduce((s, r) => s + r.forecast.modelProbYes, 0) / (group.length || 1),
+      observedRate: group.filter((r) => r.outcome === 1).length / (group.length || 1),
+    }))
+    .filter((b) => b.count > 0);
+}
+
+function confidenceBuckets(resolved: ResolvedForecast[], bucketCount: number): ConfidenceBucket[] {
+  const groups: ResolvedForecast[][] = Array.from({ length: bucketCount }, () => []);
+  for (const r of resolved) {
+    groups[bucketIndex(r.forecast.confidence, bucketCount)].push(r);
+  }
+
+  return groups
+    .map((group, i) => ({
+      lower: i / bucketCount,
+      upper: (i + 1) / bucketCount,
+      count: group.length,
+      meanConfidence: group.reduce((s, r) => s + r.forecast.confidence, 0) / (group.length || 1),
+      brierScore: brierScore(group),
+      directionalAccuracy:
+        group.filter((r) => (r.forecast.modelProbYes > 0.5 ? 1 : 0) === r.outcome).length /
+        (group.length || 1),
+    }))
+    .filter((b) => b.count > 0);
+}
@@ -0,0 +1,140 @@
+// ============================================================
+// Cost Tracker — LLM token, search and dollar accounting
+// ============================================================
+
+import path from "node:path";
+import type { ForecasterBackend, LlmCostSummary, LlmUsageRecord } from "../types/index.js";
+import type { Logger } from "../utils/logger.js";
+import { appendJsonl, readJsonl } from "../utils/jsonl.js";
+
+/** USD per million tokens, matched by model-name prefix (first match wins) */
+export const MODEL_PRICING: Array<{ prefix: string; inputPerMTok: number; outputPerMTok: number }> = [
+  { prefix: "claude-opus-4", inputPerMTok: 15, outputPerMTok: 75 },
+  { prefix: "claude-sonnet-4", inputPerMTok: 3, outputPerMTok: 15 },
+  { prefix: "claude-3-7-sonnet", inputPerMTok: 3, outputPerMTok: 15 },
+  { prefix: "claude-3-5-sonnet", inputPerMTok: 3, outputPerMTok: 15 },
+  { prefix: "claude-3-5-haiku", inputPerMTok: 0.8, outputPerMTok: 4 },
+  { prefix: "claude-haiku-4", inputPerMTok: 1, outputPerMTok: 5 },
+];
+
+/** Anthropic web search: $10 per 1,000 searches */
+export const WEB_SEARCH_COST_USD = 0.01;
+
+/** Raw usage reported by a backend for one call */
+export interface CallUsage {
+  ticker: string;
+  backend: ForecasterBackend;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  webSearches?: number;
+}
+
+export class CostTracker {
+  private usagePath: string;
+  private dailyBudgetUsd: number;
+  private logger: Logger;
+  private records: LlmUsageRecord[];
+  private cycleStart: number;
+  private warnedModels = new Set<string>();
+
+  constructor(dataDir: string, dailyBudgetUsd: number, logger: Logger) {
+    this.usagePath = path.join(dataDir, "llm-usage.jsonl");
+    this.dailyBudgetUsd = dailyBudgetUsd;
+    this.logger = logger;
+    // Load history so the daily budget survives restarts
+    this.records = readJsonl<LlmUsageRecord>(this.usagePath);
+    this.cycleStart = this.records.length;
+  }
+
+  /** Price a call, append it to the usage log, and return its cost */
+  record(usage: CallUsage): number {
+    const record: LlmUsageRecord = {
+      timestamp: new Date().toISOString(),
+      ticker: usage.ticker,
+      backend: usage.backend,
+      model: usage.model,
+      inputTokens: usage.inputTokens,
+      outputTokens: usage.outputTokens,
+      webSearches: usage.webSearches ?? 0,
+      costUsd: this.price(usage),
+    };
+    this.records.push(record);
+    appendJsonl(this.usagePath, record);
+
+    this.logger.debug(
+      `LLM usage ${usage.ticker}: ${record.inputTokens} in / ${record.outputTokens} out, ` +
+      `${record.webSearches} searches → $${record.costUsd.toFixed(4)}`
+    );
+    return record.costUsd;
+  }
+
+  /** Start a new per-cycle tally */
+  startCycle(): void {
+    this.cycleStart = this.records.length;
+  }
+
+  /** True once today's spend has reached the daily budget */
+  isOverBudget(): boolean {
+    return this.dailyBudgetUsd > 0 && this.todayUsd() >= this.dailyBudgetUsd;
+  }
+
+  todayUsd(): number {
+    return sumCost(this.todayRecords());
+  }
+
+  getSummary(topN = 5): LlmCostSummary {
+    const today = this.todayRecords();
+
+    const byMarket = new Map<string, { ticker: string; costUsd: number; calls: number }>();
+    for (const r of today) {
+      const m = byMarket.get(r.ticker) ?? { ticker: r.ticker, costUsd: 0, calls: 0 };
+      m.costUsd += r.costUsd;
+      m.calls++;
+      byMarket.set(r.ticker, m);
+    }
+
+    return {
+      cycleUsd: sumCost(this.records.slice(this.cycleStart)),
+      todayUsd: sumCost(today),
+      totalUsd: sumCost(this.records),
+      dailyBudgetUsd: this.dailyBudgetUsd,
+      calls: today.length,
+      inputTokens: today.reduce((sum, r) => sum + r.inputTokens, 0),
+      outputTokens: today.reduce((sum, r) => sum + r.outputTokens, 0),
+      webSearches: today.reduce((sum, r) => sum + r.webSearches, 0),
+      topMarkets: [...byMarket.values()].sort((a, b) => b.costUsd - a.costUsd).slice(0, topN),
+    };
+  }
+
+  // --- Helpers ---
+
+  private price(usage: CallUsage): number {
+    const searchCost = (usage.webSearches ?? 0) * WEB_SEARCH_COST_USD;
+    // Local / fixture backends cost nothing per token
+    if (usage.backend !== "claude") return searchCost;
+
+    const pricing = MODEL_PRICING.find((p) => usage.model.startsWith(p.prefix));
+    if (!pricing) {
+      if (!this.warnedModels.has(usage.model)) {
+        this.warnedModels.add(usage.model);
+        this.logger.warn(`No pricing for model ${usage.model} — token costs recorded as $0`);
+      }
+      return searchCost;
+    }
+
+    return (
+      (usage.inputTokens * pricing.inputPerMTok + usage.outputTokens * pricing.outputPerMTok) / 1_000_000 +
+      searchCost
+    );
+  }
+
+  private todayRecords(): LlmUsageRecord[] {
+    const today = new Date().toISOString().slice(0, 10); // UTC day
+    return this.records.filter((r) => r.timestamp.startsWith(today));
+  }
+}
+
+function sumCost(records: LlmUsageRecord[]): number {
+  return records.reduce((sum, r) => sum + r.costUsd, 0);
+}
@@ -0,0 +1,65 @@
+// ============================================================
+// Forecaster factory — Picks the backend from AgentConfig
+// ============================================================
+
+import type { AgentConfig, Forecaster, ForecasterBackend } from "../types/index.js";
+import type { Logger } from "../utils/logger.js";
+import { DEFAULT_MODELS } from "../utils/config.js";
+import { LLMForecaster } from "./llm-forecaster.js";
+import { OpenAIForecaster } from "./openai-forecaster.js";
+import { FixtureForecaster } from "./fixture-forecaster.js";
+import { EnsembleForecaster } from "./ensemble-forecaster.js";
+import { CachingForecaster } from "./caching-forecaster.js";
+import type { CostTracker } from "./cost-tracker.js";
+
+/**
+ * Build the forecaster selected by `config.forecaster`. Multiple samples or
+ * backends wrap the members in an EnsembleForecaster, and the result is
+ * cached unless FORECAST_CACHE=false. Model calls are billed to `costTracker`
+ * when one is given.
+ */
+export function createForecaster(config: AgentConfig, logger: Logger, costTracker?: CostTracker): Forecaster {
+  const forecaster = createUncached(config, logger, costTracker);
+  return config.forecaster.cache.enabled ? new CachingForecaster(forecaster, config, logger) : forecaster;
+}
+
+function createUncached(config: AgentConfig, logger: Logger, costTracker?: CostTracker): Forecaster {
+  const { ensemble } = config.forecaster;
+  const backends = ensemble.backends.length > 0 ? ensemble.backends : [config.forecaster.backend];
+
+  if (backends.length === 1 && ensemble.samples <= 1) {
+    return createBackend(backends[0], config, logger, costTracker);
+  }
+
+  return new EnsembleForecaster(
+    backends.map((backend) => ({ backend, forecaster: createBackend(backend, config, logger, costTracker) })),
+    {
+      samples: ensemble.samples,
+      method: ensemble.method,
+      trimFraction: ensemble.trimFraction,
+      concurrency: config.forecaster.rateLimit.concurrency,
+    },
+    logger,
+    costTracker
+  );
+}
+
+/** FORECASTER_MODEL names a model for the primary backend; other members use their default */
+function createBackend(
+  backend: ForecasterBackend,
+  config: AgentConfig,
+  logger: Logger,
+  costTracker?: CostTracker
+): Forecaster {
+  if (backend !== config.forecaster.backend) {
+    config = { ...config, forecaster: { ...config.forecaster, model: DEFAULT_MODELS[backend] } };
+  }
+  switch (backend) {
+    case "claude":
+      return new LLMForecaster(config, logger, costTracker);
+    case "openai":
+      return new OpenAIForecaster(config, logger, costTracker);
+    case "fixture":
+      return new FixtureForecaster(config.forecaster.fixturePath, logger);
+  }
+}
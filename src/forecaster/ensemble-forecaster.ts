@@ -0,0 +1,161 @@
+// ============================================================
+// Ensemble Forecaster — Aggregates several samples / backends
+// ============================================================
+
+import type {
+  KalshiMarket,
+  Forecast,
+  Forecaster,
+  ForecasterBackend,
+  EnsembleMethod,
+  EnsembleSummary,
+  MarketContext,
+} from "../types/index.js";
+import type { Logger } from "../utils/logger.js";
+import { BaseForecaster } from "./base-forecaster.js";
+import type { CostTracker } from "./cost-tracker.js";
+
+/** One forecaster taking part in the ensemble */
+export interface EnsembleMember {
+  backend: ForecasterBackend;
+  forecaster: Forecaster;
+}
+
+export interface EnsembleOptions {
+  samples: number;
+  method: EnsembleMethod;
+  trimFraction: number;
+  concurrency: number;
+}
+
+export class EnsembleForecaster extends BaseForecaster {
+  private members: EnsembleMember[];
+  private options: EnsembleOptions;
+
+  constructor(members: EnsembleMember[], options: EnsembleOptions, logger: Logger, costTracker?: CostTracker) {
+    super(logger, costTracker);
+    if (members.length === 0) throw new Error("Ensemble needs at least one member");
+    this.members = members;
+    this.options = options;
+    this.concurrency = options.concurrency;
+
+    this.logger.info(
+      `Forecaster: ensemble of ${members.map((m) => m.backend).join(" + ")} ` +
+      `× ${options.samples} samples, aggregated by ${options.method}`
+    );
+  }
+
+  /**
+   * Run every member `samples` times and aggregate. Individual failures are
+   * tolerated as long as at least one run succeeds.
+   */
+  async forecast(market: KalshiMarket, context?: MarketContext): Promise<Forecast> {
+    let runs: Array<{ backend: ForecasterBackend; forecast: Forecast }> = [];
+
+    for (const member of this.members) {
+      for (let i = 0; i < this.options.samples; i++) {
+        try {
+          runs.push({ backend: member.backend, forecast: await member.forecaster.forecast(market, context) });
+        } catch (err) {
+          this.logger.warn(`Ensemble member ${member.backend} failed on ${market.ticker}: ${err}`);
+        }
+      }
+    }
+
+    if (runs.length === 0) {
+      throw new Error(`All ensemble members failed for ${market.ticker}`);
+    }
+    // Members whose output failed validation only carry a placeholder 0.5
+    const failed = runs.filter((r) => r.forecast.parseFailed);
+    runs = runs.filter((r) => !r.forecast.parseFailed);
+    if (runs.length === 0) return failed[0].forecast;
+
+    const probs = runs.map((r) => r.forecast.modelProbYes);
+    const probability = aggregateProbabilities(probs, this.options.method, this.options.trimFraction);
+    const ensemble: EnsembleSummary = {
+      method: this.options.method,
+      members: runs.map((r) => ({
+        backend: r.backend,
+        probability: r.forecast.modelProbYes,
+        confidence: r.forecast.confidence,
+      })),
+      spread: stdDev(probs),
+      min: Math.min(...probs),
+      max: Math.max(...probs),
+    };
+
+    // Keep the reasoning of the run closest to the consensus
+    const representative = runs.reduce((best, r) =>
+      Math.abs(r.forecast.modelProbYes - probability) < Math.abs(best.forecast.modelProbYes - probability)
+        ? r
+        : best
+    );
+
+    const forecast: Forecast = {
+      ticker: market.ticker,
+      modelProbYes: probability,
+      confidence: mean(runs.map((r) => r.forecast.confidence)),
+      reasoning:
+        `Ensemble (${this.options.method}) of ${runs.length}: ` +
+        `${probs.map((p) => (p * 100).toFixed(0) + "%").join(", ")}\n\n` +
+        representative.forecast.reasoning,
+      sources: [...new Set(runs.flatMap((r) => r.forecast.sources))],
+      timestamp: new Date(),
+      ensemble,
+    };
+
+    this.logger.info(
+      `Ensemble forecast for ${market.ticker}: ${(probability * 100).toFixed(1)}% YES ` +
+      `(spread ${(ensemble.spread * 100).toFixed(1)}%, range ${(ensemble.min * 100).toFixed(0)}–${(ensemble.max * 100).toFixed(0)}%)`
+    );
+
+    return forecast;
+  }
+}
+
+// --- Aggregation ---
+
+/** Combine member probabilities into one estimate */
+export function aggregateProbabilities(
+  probs: number[],
+  method: EnsembleMethod,
+  trimFraction = 0.2
+): number {
+  if (probs.length === 0) throw new Error("No probabilities to aggregate");
+
+  switch (method) {
+    case "mean":
+      return mean(probs);
+    case "median":
+      return median(probs);
+    case "trimmed_mean": {
+      const sorted = [...probs].sort((a, b) => a - b);
+      const trim = Math.floor(sorted.length * trimFraction);
+      const kept = sorted.slice(trim, sorted.length - trim);
+      return mean(kept.length > 0 ? kept : sorted);
+    }
+    case "log_odds": {
+      // Average in log-odds space; clamp so 0/1 don't become ±Infinity
+      const logits = probs.map((p) => {
+        const c = Math.min(0.99, Math.max(0.01, p));
+        return Math.log(c / (1 - c));
+      });
+      return 1 / (1 + Math.exp(-mean(logits)));
+    }
+  }
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+function stdDev(values: number[]): number {
+  const m = mean(values);
+  return Math.sqrt(mean(values.map((v) => (v - m) ** 2)));
+}
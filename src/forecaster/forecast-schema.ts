@@ -0,0 +1,148 @@
+// ============================================================
+// Forecast Schema — Structured model output and its validation
+// ============================================================
+
+import type { Forecast } from "../types/index.js";
+
+/** The fields the system prompt asks every model to return */
+export interface StructuredForecast {
+  probability: number;
+  confidence: number;
+  reasoning: string;
+  key_factors_yes: string[];
+  key_factors_no: string[];
+  base_rate_estimate: number | null;
+  information_edge: string | null;
+}
+
+/**
+ * JSON Schema for StructuredForecast. Every property is required and
+ * nullable ones say so explicitly, which is what OpenAI-style strict
+ * `json_schema` output expects.
+ */
+export const FORECAST_SCHEMA = {
+  type: "object",
+  properties: {
+    probability: { type: "number", minimum: 0, maximum: 1, description: "Probability the contract resolves YES" },
+    confidence: { type: "number", minimum: 0, maximum: 1, description: "How confident you are in the estimate" },
+    reasoning: { type: "string", description: "Step-by-step reasoning" },
+    key_factors_yes: { type: "array", items: { type: "string" } },
+    key_factors_no: { type: "array", items: { type: "string" } },
+    base_rate_estimate: { type: ["number", "null"], minimum: 0, maximum: 1 },
+    information_edge: { type: ["string", "null"], description: "What the market might be missing" },
+  },
+  required: [
+    "probability",
+    "confidence",
+    "reasoning",
+    "key_factors_yes",
+    "key_factors_no",
+    "base_rate_estimate",
+    "information_edge",
+  ],
+  additionalProperties: false,
+} as const;
+
+/** Anthropic tool the model is made to call with its forecast */
+export const SUBMIT_FORECAST_TOOL = {
+  name: "submit_forecast",
+  description: "Submit your final probability forecast for the market contract.",
+  input_schema: FORECAST_SCHEMA,
+};
+
+export type ValidationResult =
+  | { ok: true; output: StructuredForecast }
+  | { ok: false; errors: string[] };
+
+/** Check a parsed value against FORECAST_SCHEMA */
+export function validateForecastOutput(value: unknown): ValidationResult {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    return { ok: false, errors: ["output must be a JSON object"] };
+  }
+  const v = value as Record<string, unknown>;
+  const errors: string[] = [];
+
+  const unitInterval = (key: string, nullable: boolean) => {
+    const x = v[key];
+    if (nullable && x === null) return;
+    if (typeof x !== "number" || !Number.isFinite(x) || x < 0 || x > 1) {
+      errors.push(`${key} must be a number between 0 and 1${nullable ? " or null" : ""}`);
+    }
+  };
+  const stringArray = (key: string) => {
+    const x = v[key];
+    if (!Array.isArray(x) || x.some((item) => typeof item !== "string")) {
+      errors.push(`${key} must be an array of strings`);
+    }
+  };
+
+  unitInterval("probability", false);
+  unitInterval("confidence", false);
+  if (typeof v.reasoning !== "string" || !v.reasoning.trim()) errors.push("reasoning must be a non-empty string");
+  stringArray("key_factors_yes");
+  stringArray("key_factors_no");
+  unitInterval("base_rate_estimate", true);
+  if (v.information_edge !== null && typeof v.information_edge !== "string") {
+    errors.push("information_edge must be a string or null");
+  }
+
+  if (errors.length > 0) return { ok: false, errors };
+  return { ok: true, output: v as unknown as StructuredForecast };
+}
+
+/** Validate a JSON answer given as text (optionally wrapped in prose or a code fence) */
+export function parseForecastJson(text: string): ValidationResult {
+  const start = text.indexOf("{");
+  const end = text.lastIndexOf("}");
+  if (start < 0 || end <= start) return { ok: false, errors: ["no JSON object found in the response"] };
+
+  try {
+    return validateForecastOutput(JSON.parse(text.slice(start, end + 1)));
+  } catch (err) {
+    return { ok: false, errors: [`invalid JSON: ${(err as Error).message}`] };
+  }
+}
+
+/** Follow-up message asking the model to fix its output */
+export function reaskMessage(errors: string[]): string {
+  return (
+    `Your forecast did not match the required schema:\n- ${errors.join("\n- ")}\n` +
+    `Submit the complete forecast again with every field.`
+  );
+}
+
+/** Build a Forecast from validated output */
+export function toForecast(ticker: string, output: StructuredForecast, sources: string[]): Forecast {
+  return {
+    ticker,
+    modelProbYes: clamp(output.probability, 0.01, 0.99),
+    confidence: output.confidence,
+    reasoning: output.reasoning,
+    sources,
+    timestamp: new Date(),
+    keyFactorsYes: output.key_factors_yes,
+    keyFactorsNo: output.key_factors_no,
+    baseRateEstimate: output.base_rate_estimate ?? undefined,
+    informationEdge: output.information_edge ?? undefined,
+  };
+}
+
+/**
+ * Placeholder for a market whose output never validated. `parseFailed`
+ * keeps it out of edge detection, so the neutral 0.5 can never trade.
+ */
+export function failedForecast(ticker: string, errors: string[], sources: string[] = []): Forecast {
+  return {
+    ticker,
+    modelProbYes: 0.5,
+    confidence: 0,
+    reasoning: `Forecast output failed validation: ${errors.join("; ")}`,
+    sources,
+    timestamp: new Date(),
+    parseFailed: true,
+  };
+}
+
+function clamp(val: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, val));
+}
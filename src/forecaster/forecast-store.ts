@@ -0,0 +1,128 @@
+// ============================================================
+// Forecast Store — Durable JSONL log of forecasts and outcomes
+// ============================================================
+
+import path from "node:path";
+import type {
+  Forecast,
+  ForecastRecord,
+  KalshiMarket,
+  ResolutionRecord,
+} from "../types/index.js";
+import type { KalshiClient } from "../api/kalshi-client.js";
+import { appendJsonl, readJsonl } from "../utils/jsonl.js";
+import type { Logger } from "../utils/logger.js";
+
+/** A stored forecast joined to its market's settled outcome */
+export interface ResolvedForecast {
+  forecast: ForecastRecord;
+  outcome: 0 | 1;           // 1 if the market settled YES
+}
+
+export class ForecastStore {
+  private forecastsPath: string;
+  private resolutionsPath: string;
+  private logger: Logger;
+
+  constructor(dataDir: string, logger: Logger) {
+    this.forecastsPath = path.join(dataDir, "forecasts.jsonl");
+    this.resolutionsPath = path.join(dataDir, "resolutions.jsonl");
+    this.logger = logger;
+  }
+
+  /** Persist a forecast along with the market price it was made against */
+  record(forecast: Forecast, market: KalshiMarket): void {
+    const record: ForecastRecord = {
+      ticker: forecast.ticker,
+      eventTicker: market.eventTicker,
+      title: market.title,
+      modelProbYes: forecast.modelProbYes,
+      confidence: forecast.confidence,
+      reasoning: forecast.reasoning,
+      sources: forecast.sources,
+      timestamp: forecast.timestamp.toISOString(),
+      marketYesAsk: market.yesAsk,
+      marketYesBid: market.yesBid,
+      ensemble: forecast.ensemble,
+      keyFactorsYes: forecast.keyFactorsYes,
+      keyFactorsNo: forecast.keyFactorsNo,
+      baseRateEstimate: forecast.baseRateEstimate,
+      informationEdge: forecast.informationEdge,
+    };
+    appendJsonl(this.forecastsPath, record);
+  }
+
+  /** Record every forecast in a batch, matching each to its market */
+  recordBatch(forecasts: Forecast[], markets: KalshiMarket[]): void {
+    const marketMap = new Map(markets.map((m) => [m.ticker, m]));
+    let recorded = 0;
+    for (const forecast of forecasts) {
+      const market = marketMap.get(forecast.ticker);
+      // Cache hits were stored when they were first made; parse failures
+      // carry a placeholder probability that would skew calibration
+      if (!market || forecast.cached || forecast.parseFailed) continue;
+      this.record(forecast, market);
+      recorded++;
+    }
+    this.logger.debug(`Stored ${recorded} forecasts in ${this.forecastsPath}`);
+  }
+
+  getForecasts(): ForecastRecord[] {
+    return readJsonl<ForecastRecord>(this.forecastsPath);
+  }
+
+  /** Latest known result per ticker */
+  getResolutions(): Map<string, ResolutionRecord> {
+    return new Map(readJsonl<ResolutionRecord>(this.resolutionsPath).map((r) => [r.ticker, r]));
+  }
+
+  /** Tickers with stored forecasts whose markets we haven't seen settle yet */
+  getUnresolvedTickers(): string[] {
+    const resolved = this.getResolutions();
+    const tickers = new Set(this.getForecasts().map((f) => f.ticker));
+    return [...tickers].filter((t) => !resolved.has(t));
+  }
+
+  /**
+   * Poll Kalshi for every unresolved ticker and record results for markets
+   * that have settled. Returns the number of newly resolved markets.
+   */
+  async resolvePending(kalshi: KalshiClient): Promise<number> {
+    const pending = this.getUnresolvedTickers();
+    let resolved = 0;
+
+    for (const ticker of pending) {
+      try {
+        const market = await kalshi.getMarket(ticker);
+        if (market.status !== "settled" || !market.result) continue;
+
+        const record: ResolutionRecord = {
+          ticker,
+          result: market.result,
+          resolvedAt: new Date().toISOString(),
+        };
+        appendJsonl(this.resolutionsPath, record);
+        resolved++;
+      } catch (err) {
+        this.logger.warn(`Could not check resolution for ${ticker}: ${err}`);
+      }
+    }
+
+    this.logger.info(`Resolved ${resolved} of ${pending.length} pending markets`);
+    return resolved;
+  }
+
+  /** Forecasts joined to YES/NO outcomes. Voided and unsettled markets are excluded. */
+  getResolvedForecasts(): ResolvedForecast[] {
+    const resolutions = this.getResolutions();
+    const resolved: ResolvedForecast[] = [];
+
+    for (const forecast of this.getForecasts()) {
+      const resolution = resolutions.get(forecast.ticker);
+      if (!resolution || resolution.result === "voided") continue;
+      resolved.push({ forecast, outcome: resolution.result === "yes" ? 1 : 0 });
+    }
+
+    return resolved;
+  }
+}
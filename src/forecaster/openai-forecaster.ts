@@ -0,0 +1,95 @@
+// ============================================================
+// OpenAI-compatible Forecaster — Local llama.cpp / vLLM servers
+// ============================================================
+
+import type { KalshiMarket, Forecast, AgentConfig, MarketContext } from "../types/index.js";
+import type { Logger } from "../utils/logger.js";
+import { BaseForecaster } from "./base-forecaster.js";
+import type { CostTracker } from "./cost-tracker.js";
+import { FORECASTER_SYSTEM_PROMPT, buildForecastPrompt } from "./prompt.js";
+import { FORECAST_SCHEMA, failedForecast, parseForecastJson, reaskMessage, toForecast } from "./forecast-schema.js";
+
+/** Extra attempts after the first when the model's output fails validation */
+const MAX_REASKS = 1;
+
+export class OpenAIForecaster extends BaseForecaster {
+  private baseUrl: string;
+  private apiKey: string;
+  private model: string;
+
+  constructor(config: AgentConfig, logger: Logger, costTracker?: CostTracker) {
+    super(logger, costTracker);
+    this.baseUrl = config.forecaster.openai.baseUrl.replace(/\/+$/, "");
+    this.apiKey = config.forecaster.openai.apiKey;
+    this.model = config.forecaster.model;
+    this.concurrency = config.forecaster.rateLimit.concurrency;
+
+    if (config.forecaster.enableWebSearch) {
+      this.logger.warn("Forecaster: web search is only supported by the claude backend — ignoring");
+    }
+  }
+
+  /**
+   * Generate a probability forecast via POST {baseUrl}/chat/completions,
+   * constrained to FORECAST_SCHEMA. Invalid output is sent back with the
+   * validation errors, up to MAX_REASKS times.
+   */
+  async forecast(market: KalshiMarket, context?: MarketContext): Promise<Forecast> {
+    this.logger.debug(`Forecasting: ${market.ticker} — ${market.title} (${this.model} @ ${this.baseUrl})`);
+
+    const headers: Record<string, string> = {};
+    if (this.apiKey) headers.Authorization = `Bearer ${this.apiKey}`;
+
+    const messages = [
+      { role: "system", content: FORECASTER_SYSTEM_PROMPT },
+      { role: "user", content: buildForecastPrompt(market, context) },
+    ];
+    let errors: string[] = [];
+
+    for (let attempt = 0; attempt <= MAX_REASKS; attempt++) {
+      const data = await this.postWithRetry(
+        `${this.baseUrl}/chat/completions`,
+        headers,
+        {
+          model: this.model,
+          max_tokens: 1500,
+          response_format: {
+            type: "json_schema",
+            json_schema: { name: "forecast", schema: FORECAST_SCHEMA, strict: true },
+          },
+          messages,
+        },
+        market.ticker
+      );
+
+      this.costTracker?.record({
+        ticker: market.ticker,
+        backend: "openai",
+        model: this.model,
+        inputTokens: data.usage?.prompt_tokens ?? 0,
+        outputTokens: data.usage?.completion_tokens ?? 0,
+      });
+
+      const text: string = data.choices?.[0]?.message?.content ?? "";
+      const result = parseForecastJson(text);
+      if (result.ok) {
+        const forecast = toForecast(market.ticker, result.output, context?.sources ?? []);
+        this.logger.info(
+          `Forecast for ${market.ticker}: ${(forecast.modelProbYes * 100).toFixed(1)}% YES ` +
+          `(confidence: ${(forecast.confidence * 100).toFixed(0)}%) — ` +
+          `market: ${market.yesAsk}¢`
+        );
+        return forecast;
+      }
+
+      errors = result.errors;
+      this.logger.warn(
+        `Invalid forecast output for ${market.ticker} (attempt ${attempt + 1}/${MAX_REASKS + 1}): ${errors.join("; ")}`
+      );
+      messages.push({ role: "assistant", content: text }, { role: "user", content: reaskMessage(errors) });
+    }
+
+    this.logger.error(`Forecast for ${market.ticker} failed validation — marked as unusable`);
+    return failedForecast(market.ticker, errors, context?.sources);
+  }
+}
@@ -0,0 +1,59 @@
+// ============================================================
+// Forecast Prompt — Shared prompt text for every LLM backend
+// ============================================================
+
+import type { KalshiMarket, MarketContext } from "../types/index.js";
+
+export const FORECASTER_SYSTEM_PROMPT = `You are a world-class probability forecaster, trained in the tradition of superforecasting (Tetlock). Your job is to estimate the probability that a prediction market contract resolves YES.
+
+You must:
+1. Consider base rates for this type of event
+2. Identify the key factors that could push the probability up or down
+3. Consider the time horizon and how much could change
+4. Be well-calibrated: your 70% predictions should come true ~70% of the time
+5. Avoid anchoring to the current market price — reason independently
+6. Think about what information the market might be missing or overweighting
+7. If you lack current information needed to forecast accurately, lower your confidence and note this in your reasoning
+
+IMPORTANT: Your training data has a knowledge cutoff. For questions about recent events, current data, or fast-moving situations, acknowledge what you don't know and reflect that uncertainty in both your probability and confidence scores. A low-confidence estimate is far more useful than a falsely precise one.
+
+Submit your forecast with these exact fields — by calling the submit_forecast tool when it is available, otherwise as a JSON object:
+{
+  "probability": <number between 0 and 1>,
+  "confidence": <number between 0 and 1, how confident you are in your estimate>,
+  "reasoning": "<your step-by-step reasoning>",
+  "key_factors_yes": ["<factor 1>", "<factor 2>"],
+  "key_factors_no": ["<factor 1>", "<factor 2>"],
+  "base_rate_estimate": <number between 0 and 1, or null if not applicable>,
+  "information_edge": "<what might the market be missing, or null if you have no informational advantage>"
+}
+
+Be precise. Be calibrated. Don't hedge excessively — give your best estimate.`;
+
+export const WEB_SEARCH_ADDENDUM = `
+
+You have access to web search. Use it to look up current information before forming your estimate — especially for questions about recent events, current polls, economic data, or anything that may have changed since your training data cutoff. Search first, then reason.`;
+
+/** The user message describing a market, shared by every LLM backend */
+export function buildForecastPrompt(market: KalshiMarket, context?: MarketContext): string {
+  const parts = [
+    `# Market Contract`,
+    `**Title:** ${market.title}`,
+    market.subtitle ? `**Subtitle:** ${market.subtitle}` : "",
+    `**Ticker:** ${market.ticker}`,
+    `**Category:** ${market.category}`,
+    `**Expiration:** ${market.expirationDate}`,
+    `**Current Market Prices:** YES ask: ${market.yesAsk}¢ | YES bid: ${market.yesBid}¢ | NO ask: ${market.noAsk}¢ | NO bid: ${market.noBid}¢`,
+    `**Volume:** ${market.volume} contracts | Open Interest: ${market.openInterest}`,
+    "",
+    `Today's date is: ${new Date().toISOString().split("T")[0]}`,
+    "",
+    `What is the probability this contract resolves YES?`,
+  ];
+
+  if (context?.text) {
+    parts.push("", "# Additional Context", context.text);
+  }
+
+  return parts.filter(Boolean).join("\n");
+}
@@ -0,0 +1,112 @@
+// ============================================================
+// Rate Limiter — Token buckets for requests and input tokens/min
+// ============================================================
+
+import type { Logger } from "../utils/logger.js";
+
+/** A per-minute allowance that refills continuously */
+class TokenBucket {
+  capacity: number;
+  available: number;
+  private lastRefill = Date.now();
+
+  constructor(perMinute: number) {
+    this.capacity = perMinute;
+    this.available = perMinute;
+  }
+
+  refill(now: number): void {
+    this.available = Math.min(this.capacity, this.available + ((now - this.lastRefill) * this.capacity) / 60_000);
+    this.lastRefill = now;
+  }
+
+  /** Milliseconds until `amount` is available (0 if it already is) */
+  waitFor(amount: number): number {
+    if (this.available >= amount) return 0;
+    return Math.ceil(((amount - this.available) * 60_000) / this.capacity);
+  }
+}
+
+export interface RateLimits {
+  requestsPerMinute: number;
+  inputTokensPerMinute: number;
+}
+
+/**
+ * Gates API calls on requests/min and input tokens/min. Limits start from
+ * config and are tightened or relaxed by Anthropic's `anthropic-ratelimit-*`
+ * response headers; a 429 pauses every caller until the retry time.
+ */
+export class RateLimiter {
+  private requests: TokenBucket;
+  private inputTokens: TokenBucket;
+  private pausedUntil = 0;
+  private logger: Logger;
+
+  constructor(limits: RateLimits, logger: Logger) {
+    this.requests = new TokenBucket(limits.requestsPerMinute);
+    this.inputTokens = new TokenBucket(limits.inputTokensPerMinute);
+    this.logger = logger;
+  }
+
+  /** Wait until one request using ~`estimatedInputTokens` fits, then reserve it */
+  async acquire(estimatedInputTokens: number): Promise<void> {
+    for (;;) {
+      const now = Date.now();
+      this.requests.refill(now);
+      this.inputTokens.refill(now);
+
+      // A single request larger than the whole bucket would wait forever
+      const tokens = Math.min(estimatedInputTokens, this.inputTokens.capacity);
+      const waitMs = Math.max(
+        this.pausedUntil - now,
+        this.requests.waitFor(1),
+        this.inputTokens.waitFor(tokens)
+      );
+
+      if (waitMs <= 0) {
+        this.requests.available -= 1;
+        this.inputTokens.available -= tokens;
+        return;
+      }
+
+      this.logger.debug(`Rate limiter: waiting ${(waitMs / 1000).toFixed(1)}s`);
+      await new Promise((resolve) => setTimeout(resolve, waitMs));
+    }
+  }
+
+  /** Stop all callers for `ms` (e.g. after a 429) */
+  pauseFor(ms: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms);
+  }
+
+  /**
+   * Adopt the server's view of our limits. Only ever lowers what's available,
+   * since requests still in flight may not be counted in `remaining` yet.
+   */
+  updateFromHeaders(headers: Headers): void {
+    this.applyHeader(headers, "requests", this.requests);
+    this.applyHeader(headers, "input-tokens", this.inputTokens);
+  }
+
+  // --- Helpers ---
+
+  private applyHeader(headers: Headers, name: string, bucket: TokenBucket): void {
+    const limit = Number(headers.get(`anthropic-ratelimit-${name}-limit`));
+    const remaining = headers.get(`anthropic-ratelimit-${name}-remaining`);
+    const reset = headers.get(`anthropic-ratelimit-${name}-reset`);
+
+    if (limit > 0 && limit !== bucket.capacity) {
+      this.logger.info(`Rate limiter: ${name} limit ${bucket.capacity} → ${limit}/min (from API headers)`);
+      bucket.capacity = limit;
+    }
+    if (remaining !== null && Number.isFinite(Number(remaining))) {
+      bucket.refill(Date.now());
+      bucket.available = Math.min(bucket.available, Number(remaining));
+    }
+    if (remaining === "0" && reset) {
+      const resetMs = new Date(reset).getTime() - Date.now();
+      if (resetMs > 0) this.pauseFor(resetMs);
+    }
+  }
+}
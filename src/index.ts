@@ -4,10 +4,29 @@
 
 export { TradingAgent } from "./agent/trading-agent.js";
 export { KalshiClient } from "./api/kalshi-client.js";
+export { KalshiWebSocket } from "./api/kalshi-ws.js";
+export { MarketCache } from "./api/market-cache.js";
 export { LLMForecaster } from "./forecaster/llm-forecaster.js";
+export { OpenAIForecaster } from "./forecaster/openai-forecaster.js";
+export { FixtureForecaster } from "./forecaster/fixture-forecaster.js";
+export { EnsembleForecaster, aggregateProbabilities } from "./forecaster/ensemble-forecaster.js";
+export { CachingForecaster } from "./forecaster/caching-forecaster.js";
+export { CostTracker } from "./forecaster/cost-tracker.js";
+export { createForecaster } from "./forecaster/create-forecaster.js";
+export { ContextProvider } from "./context/context-provider.js";
+export { NewsIngestor } from "./news/news-ingestor.js";
 export { EdgeDetector } from "./agent/edge-detector.js";
 export { RiskManager } from "./risk/risk-manager.js";
+export { ExitEngine } from "./risk/exit-engine.js";
+export { CircuitBreaker } from "./risk/circuit-breaker.js";
+export { PortfolioRisk } from "./risk/portfolio-risk.js";
+export { OrderValidator } from "./agent/order-validator.js";
 export { PaperTrader } from "./agent/paper-trader.js";
+export { BasketDetector } from "./arbitrage/basket-detector.js";
+export { BasketExecutor } from "./arbitrage/basket-executor.js";
+export { PolymarketClient } from "./venues/polymarket-client.js";
+export { ContractMatcher } from "./venues/contract-matcher.js";
+export { CrossVenueScanner } from "./venues/cross-venue-scanner.js";
 export { loadConfig } from "./utils/config.js";
 export { createLogger } from "./utils/logger.js";
 export type * from "./types/index.js";
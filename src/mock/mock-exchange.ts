@@ -0,0 +1,699 @@
+// ============================================================
+// Mock Exchange — Local Kalshi REST + WebSocket stand-in for offline testing
+// ============================================================
+//
+// Implements the subset of the Kalshi trade API that KalshiClient uses,
+// with RSA-PSS signature checks and price-time matching of incoming
+// orders against a scripted order book. Point KALSHI_BASE_PATH at
+// `${mock.url}/trade-api/v2` to run the full agent loop against it.
+// The WebSocket API (ticker, orderbook_delta and fill channels) is served
+// on the same port at /trade-api/ws/v2, streaming every book change.
+// Fills pay Kalshi's standard taker / maker fees.
+
+import crypto from "node:crypto";
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import type { Duplex } from "node:stream";
+import { WebSocket, WebSocketServer } from "ws";
+import { KALSHI_FEES, fillFeeCents } from "../risk/fees.js";
+
+const API_PREFIX = "/trade-api/v2";
+const WS_PATH = "/trade-api/ws/v2";
+const MAX_CLOCK_SKEW_MS = 5 * 60_000;
+
+/** A price level as Kalshi returns it: [price in cents, quantity] */
+export type MockLevel = [number, number];
+
+/** A scripted market: raw Kalshi market fields plus its order book (bids only, as Kalshi returns) */
+export interface MockMarket {
+  market: {
+    ticker: string;
+    event_ticker: string;
+    title: string;
+    subtitle?: string;
+    category?: string;
+    status: string;               // active | closed | determined | finalized ...
+    volume?: number;
+    open_interest?: number;
+    close_time?: string;
+    expiration_time?: string;
+    result?: string;
+    [key: string]: unknown;
+  };
+  orderbook: { yes: MockLevel[]; no: MockLevel[] };
+}
+
+/** Event metadata; events not listed are served as non-exclusive, titled by their ticker */
+export interface MockEvent {
+  event_ticker: string;
+  title: string;
+  mutually_exclusive: boolean;
+}
+
+export interface MockScenario {
+  balanceCents: number;
+  markets: MockMarket[];
+  events?: MockEvent[];
+}
+
+interface MockOrder {
+  order_id: string;
+  ticker: string;
+  status: "resting" | "canceled" | "executed";
+  side: "yes" | "no";
+  action: "buy" | "sell";
+  type: "limit" | "market";
+  yes_price: number;
+  no_price: number;
+  initial_count: number;
+  remaining_count: number;
+  fill_count: number;
+  created_time: string;
+  expiration_time: string | null;
+}
+
+interface MockFill {
+  trade_id: string;
+  order_id: string;
+  ticker: string;
+  side: "yes" | "no";
+  action: "buy" | "sell";
+  count: number;
+  yes_price: number;
+  no_price: number;
+  is_taker: boolean;
+  created_time: string;
+}
+
+/** A WebSocket client and its subscriptions, by sid */
+interface MockWsClient {
+  socket: WebSocket;
+  subscriptions: Map<number, { channel: string; tickers?: Set<string>; seq: number }>;
+}
+
+/** Net position in YES terms: > 0 long YES, < 0 long NO */
+interface MockPosition {
+  position: number;
+  avgYesPrice: number;            // average entry, expressed as a YES price
+  realizedPnl: number;            // cents, before fees
+  feesPaid: number;               // cents
+  totalTraded: number;
+}
+
+export class MockExchange {
+  private server: http.Server;
+  private apiKeyId: string;
+  private publicKey: crypto.KeyObject;
+  private markets = new Map<string, MockMarket>();
+  private events = new Map<string, MockEvent>();
+  private orders = new Map<string, MockOrder>();
+  private fills: MockFill[] = [];
+  private positions = new Map<string, MockPosition>();
+  private balanceCents: number;
+  private port = 0;
+  private wss = new WebSocketServer({ noServer: true });
+  private wsClients = new Set<MockWsClient>();
+  private nextSid = 1;
+  private dropDeltas = false;
+
+  constructor(scenario: MockScenario, auth: { apiKeyId: string; publicKey: crypto.KeyObject | string }) {
+    this.apiKeyId = auth.apiKeyId;
+    this.publicKey =
+      typeof auth.publicKey === "string" ? crypto.createPublicKey(auth.publicKey) : auth.publicKey;
+    this.balanceCents = scenario.balanceCents;
+    for (const m of scenario.markets) {
+      this.markets.set(m.market.ticker, structuredClone(m));
+    }
+    for (const e of scenario.events ?? []) {
+      this.events.set(e.event_ticker, { ...e });
+    }
+    this.server = http.createServer((req, res) => this.handle(req, res));
+    this.server.on("upgrade", (req, socket, head) => this.handleUpgrade(req, socket, head));
+  }
+
+  /** Start listening (port 0 = any free port). Resolves with the base URL. */
+  async start(port = 0): Promise<string> {
+    await new Promise<void>((resolve) => this.server.listen(port, "127.0.0.1", resolve));
+    this.port = (this.server.address() as AddressInfo).port;
+    return this.url;
+  }
+
+  async stop(): Promise<void> {
+    for (const client of this.wsClients) client.socket.terminate();
+    await new Promise<void>((resolve, reject) => this.server.close((err) => (err ? reject(err) : resolve())));
+  }
+
+  /** Base URL to use as KALSHI_BASE_PATH */
+  get url(): string {
+    return `http://127.0.0.1:${this.port}${API_PREFIX}`;
+  }
+
+  /** WebSocket URL to use as KALSHI_WS_URL (derived from the base path by default) */
+  get wsUrl(): string {
+    return `ws://127.0.0.1:${this.port}${WS_PATH}`;
+  }
+
+  // --- Scripting ---
+
+  /** Replace a market's book, then match any resting orders against it */
+  setOrderBook(ticker: string, orderbook: { yes: MockLevel[]; no: MockLevel[] }): void {
+    const m = this.requireMarket(ticker);
+    const before = structuredClone(m.orderbook);
+    m.orderbook = structuredClone(orderbook);
+    for (const order of this.orders.values()) {
+      if (order.ticker === ticker && order.status === "resting") this.match(order, false);
+    }
+    this.publishBookChanges(ticker, before);
+  }
+
+  /** Drop every WebSocket connection, e.g. to exercise client reconnects */
+  dropConnections(): void {
+    for (const client of this.wsClients) client.socket.terminate();
+  }
+
+  /**
+   * Lose the order book deltas of the next book change, as a lossy link
+   * would: their `seq` numbers are used up but never sent, so clients see
+   * a gap at the change after.
+   */
+  dropNextDeltas(): void {
+    this.dropDeltas = true;
+  }
+
+  /** Settle a market: pay out positions and mark it finalized */
+  settleMarket(ticker: string, result: "yes" | "no" | "voided"): void {
+    const m = this.requireMarket(ticker);
+    m.market.status = "finalized";
+    m.market.result = result;
+
+    const pos = this.positions.get(ticker);
+    if (pos && pos.position !== 0) {
+      const contracts = Math.abs(pos.position);
+      const cost = exposureOf(pos);
+      const payout =
+        result === "voided" ? cost
+        : (result === "yes") === pos.position > 0 ? contracts * 100
+        : 0;
+      this.balanceCents += payout;
+      pos.realizedPnl += payout - cost;
+      pos.position = 0;
+    }
+
+    for (const order of this.orders.values()) {
+      if (order.ticker === ticker && order.status === "resting") order.status = "canceled";
+    }
+  }
+
+  // --- HTTP ---
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    try {
+      const url = new URL(req.url ?? "/", "http://localhost");
+      const method = req.method ?? "GET";
+      const body = method === "POST" ? await readBody(req) : undefined;
+
+      if (!url.pathname.startsWith(API_PREFIX)) {
+        return send(res, 404, { error: { code: "not_found", message: "Unknown path" } });
+      }
+
+      const authError = this.verifySignature(req, method, url.pathname);
+      if (authError) {
+        return send(res, 401, { error: { code: "unauthorized", message: authError } });
+      }
+
+      this.expireOrders();
+      const route = url.pathname.slice(API_PREFIX.length);
+      const [status, payload] = this.route(method, route, url.searchParams, body);
+      send(res, status, payload);
+    } catch (err) {
+      send(res, 500, { error: { code: "internal", message: String(err) } });
+    }
+  }
+
+  private route(
+    method: string,
+    route: string,
+    query: URLSearchParams,
+    body: any
+  ): [number, unknown] {
+    let match: RegExpMatchArray | null;
+
+    if (method === "GET" && route === "/markets") {
+      return [200, this.listMarkets(query)];
+    }
+    if (method === "GET" && route === "/events") {
+      return [200, this.listEvents(query)];
+    }
+    if (method === "GET" && (match = route.match(/^\/markets\/([^/]+)\/orderbook$/))) {
+      const m = this.markets.get(match[1]);
+      if (!m) return notFound("market");
+      const depth = parseInt(query.get("depth") ?? "0", 10);
+      const slice = (levels: MockLevel[]) => (depth > 0 ? sortBids(levels).slice(0, depth) : sortBids(levels));
+      // Kalshi lists levels ascending by price
+      return [200, { orderbook: { yes: slice(m.orderbook.yes).reverse(), no: slice(m.orderbook.no).reverse() } }];
+    }
+    if (method === "GET" && (match = route.match(/^\/markets\/([^/]+)$/))) {
+      const m = this.markets.get(match[1]);
+      return m ? [200, { market: this.quote(m) }] : notFound("market");
+    }
+    if (method === "GET" && route === "/portfolio/balance") {
+      return [200, { balance: this.balanceCents }];
+    }
+    if (method === "GET" && route === "/portfolio/positions") {
+      return [200, { market_positions: this.listPositions(query), cursor: "" }];
+    }
+    if (method === "GET" && route === "/portfolio/orders") {
+      const orders = [...this.orders.values()].filter(
+        (o) =>
+          (!query.get("status") || o.status === query.get("status")) &&
+          (!query.get("ticker") || o.ticker === query.get("ticker"))
+      );
+      return [200, { orders, cursor: "" }];
+    }
+    if (method === "POST" && route === "/portfolio/orders") {
+      return this.placeOrder(body);
+    }
+    if ((match = route.match(/^\/portfolio\/orders\/([^/]+)$/))) {
+      const order = this.orders.get(match[1]);
+      if (!order) return notFound("order");
+      if (method === "GET") return [200, { order }];
+      if (method === "DELETE") {
+        if (order.status === "resting") order.status = "canceled";
+        return [200, { order, reduced_by: order.remaining_count }];
+      }
+    }
+    if (method === "GET" && route === "/portfolio/fills") {
+      const fills = this.fills.filter(
+        (f) =>
+          (!query.get("order_id") || f.order_id === query.get("order_id")) &&
+          (!query.get("ticker") || f.ticker === query.get("ticker"))
+      );
+      return [200, { fills, cursor: "" }];
+    }
+
+    return notFound("route");
+  }
+
+  // --- Auth ---
+
+  /** Returns an error message, or undefined if the request is correctly signed */
+  private verifySignature(req: http.IncomingMessage, method: string, pathname: string): string | undefined {
+    const key = req.headers["kalshi-access-key"];
+    const signature = req.headers["kalshi-access-signature"];
+    const timestamp = req.headers["kalshi-access-timestamp"];
+
+    if (typeof key !== "string" || typeof signature !== "string" || typeof timestamp !== "string") {
+      return "Missing KALSHI-ACCESS-* headers";
+    }
+    if (key !== this.apiKeyId) return "Unknown API key";
+    if (Math.abs(Date.now() - Number(timestamp)) > MAX_CLOCK_SKEW_MS) return "Timestamp outside allowed skew";
+
+    const valid = crypto.verify(
+      "sha256",
+      Buffer.from(timestamp + method.toUpperCase() + pathname),
+      {
+        key: this.publicKey,
+        padding: crypto.constants.RSA_PKCS1_PSS_PADDING,
+        saltLength: crypto.constants.RSA_PSS_SALTLEN_DIGEST,
+      },
+      Buffer.from(signature, "base64")
+    );
+    return valid ? undefined : "Invalid signature";
+  }
+
+  // --- WebSocket ---
+
+  private handleUpgrade(req: http.IncomingMessage, socket: Duplex, head: Buffer): void {
+    const pathname = new URL(req.url ?? "/", "http://localhost").pathname;
+    const authError = pathname === WS_PATH ? this.verifySignature(req, "GET", pathname) : "Unknown path";
+    if (authError) {
+      socket.end(`HTTP/1.1 401 Unauthorized\r\n\r\n${authError}`);
+      return;
+    }
+
+    this.wss.handleUpgrade(req, socket, head, (ws) => {
+      const client: MockWsClient = { socket: ws, subscriptions: new Map() };
+      this.wsClients.add(client);
+      ws.on("close", () => this.wsClients.delete(client));
+      ws.on("message", (data) => this.handleCommand(client, data.toString()));
+    });
+  }
+
+  private handleCommand(client: MockWsClient, text: string): void {
+    const reply = (message: unknown) => client.socket.send(JSON.stringify(message));
+    let command: any;
+    try {
+      command = JSON.parse(text);
+    } catch {
+      return reply({ type: "error", msg: { code: 1, msg: "Invalid JSON" } });
+    }
+
+    if (command.cmd === "unsubscribe") {
+      for (const sid of command.params?.sids ?? []) {
+        client.subscriptions.delete(sid);
+        reply({ type: "unsubscribed", id: command.id, sid });
+      }
+      return;
+    }
+    if (command.cmd !== "subscribe") {
+      return reply({ type: "error", id: command.id, msg: { code: 5, msg: `Unknown command ${command.cmd}` } });
+    }
+
+    const tickers: string[] | undefined = command.params?.market_tickers;
+    for (const channel of command.params?.channels ?? []) {
+      if (!["ticker", "orderbook_delta", "fill"].includes(channel)) {
+        reply({ type: "error", id: command.id, msg: { code: 6, msg: `Unknown channel ${channel}` } });
+        continue;
+      }
+      if (channel === "orderbook_delta" && !tickers?.length) {
+        reply({ type: "error", id: command.id, msg: { code: 7, msg: "orderbook_delta needs market_tickers" } });
+        continue;
+      }
+
+      const sid = this.nextSid++;
+      const subscription = { channel, tickers: tickers ? new Set(tickers) : undefined, seq: 0 };
+      client.subscriptions.set(sid, subscription);
+      reply({ type: "subscribed", id: command.id, msg: { channel, sid } });
+
+      if (channel === "orderbook_delta") {
+        for (const ticker of tickers!) {
+          const m = this.markets.get(ticker);
+          if (!m) continue;
+          reply({
+            type: "orderbook_snapshot",
+            sid,
+            seq: ++subscription.seq,
+            msg: { market_ticker: ticker, yes: m.orderbook.yes, no: m.orderbook.no },
+          });
+        }
+      }
+    }
+  }
+
+  /** Send a message to every subscription on `channel` that covers `ticker` */
+  private publish(channel: string, ticker: string, build: () => unknown): void {
+    for (const client of this.wsClients) {
+      for (const [sid, sub] of client.subscriptions) {
+        if (sub.channel !== channel || (sub.tickers && !sub.tickers.has(ticker))) continue;
+        const seq = channel === "orderbook_delta" ? { seq: ++sub.seq } : {};
+        if (channel === "orderbook_delta" && this.dropDeltas) continue;
+        client.socket.send(JSON.stringify({ type: channel, sid, ...seq, msg: build() }));
+      }
+    }
+  }
+
+  /** Stream the level-by-level difference from `before`, then the new top of book */
+  private publishBookChanges(ticker: string, before: { yes: MockLevel[]; no: MockLevel[] }): void {
+    if (this.wsClients.size === 0) return;
+    const m = this.requireMarket(ticker);
+
+    for (const side of ["yes", "no"] as const) {
+      const old = new Map(before[side]);
+      const now = new Map(m.orderbook[side]);
+      for (const price of new Set([...old.keys(), ...now.keys()])) {
+        const delta = (now.get(price) ?? 0) - (old.get(price) ?? 0);
+        if (delta !== 0) {
+          this.publish("orderbook_delta", ticker, () => ({ market_ticker: ticker, price, delta, side }));
+        }
+      }
+    }
+    this.dropDeltas = false;
+
+    const quote = this.quote(m) as Record<string, number>;
+    this.publish("ticker", ticker, () => ({
+      market_ticker: ticker,
+      price: quote.last_price ?? 0,
+      yes_bid: quote.yes_bid,
+      yes_ask: quote.yes_ask,
+      volume: quote.volume ?? 0,
+      open_interest: quote.open_interest ?? 0,
+      ts: Math.floor(Date.now() / 1000),
+    }));
+  }
+
+  // --- Market data ---
+
+  private listMarkets(query: URLSearchParams): unknown {
+    const status = query.get("status");
+    const eventTicker = query.get("event_ticker");
+    const limit = parseInt(query.get("limit") ?? "100", 10);
+    const offset = parseInt(query.get("cursor") || "0", 10);
+
+    const all = [...this.markets.values()].filter((m) => {
+      if (eventTicker && m.market.event_ticker !== eventTicker) return false;
+      if (!status) return true;
+      // Kalshi's "open" filter returns markets in the "active" state
+      return status === "open" ? m.market.status === "active" : m.market.status === status;
+    });
+    const page = all.slice(offset, offset + limit);
+    const next = offset + limit < all.length ? String(offset + limit) : "";
+
+    return { markets: page.map((m) => this.quote(m)), cursor: next };
+  }
+
+  /** Events derived from the markets' event tickers; "open" means some market is still active */
+  private listEvents(query: URLSearchParams): unknown {
+    const byEvent = new Map<string, MockMarket[]>();
+    for (const m of this.markets.values()) {
+      byEvent.set(m.market.event_ticker, [...(byEvent.get(m.market.event_ticker) ?? []), m]);
+    }
+
+    const events = [...byEvent.entries()]
+      .filter(([, markets]) => query.get("status") !== "open" || markets.some((m) => m.market.status === "active"))
+      .map(([eventTicker, markets]) => {
+        const meta = this.events.get(eventTicker);
+        return {
+          event_ticker: eventTicker,
+          series_ticker: eventTicker.split("-")[0],
+          title: meta?.title ?? eventTicker,
+          mutually_exclusive: meta?.mutually_exclusive ?? false,
+          ...(query.get("with_nested_markets") === "true" ? { markets: markets.map((m) => this.quote(m)) } : {}),
+        };
+      });
+    return { events, cursor: "" };
+  }
+
+  /** Market JSON with top-of-book quotes derived from the book */
+  private quote(m: MockMarket): Record<string, unknown> {
+    const bestYesBid = sortBids(m.orderbook.yes)[0]?.[0] ?? 0;
+    const bestNoBid = sortBids(m.orderbook.no)[0]?.[0] ?? 0;
+    return {
+      ...m.market,
+      yes_bid: bestYesBid,
+      no_bid: bestNoBid,
+      yes_ask: bestNoBid > 0 ? 100 - bestNoBid : 0,
+      no_ask: bestYesBid > 0 ? 100 - bestYesBid : 0,
+    };
+  }
+
+  // --- Orders ---
+
+  private placeOrder(body: any): [number, unknown] {
+    const m = this.markets.get(body?.ticker);
+    if (!m) return notFound("market");
+    if (m.market.status !== "active") return badRequest("market_closed", "Market is not open for trading");
+    if (body.side !== "yes" && body.side !== "no") return badRequest("invalid_side", "side must be yes or no");
+    if (body.action !== "buy" && body.action !== "sell") return badRequest("invalid_action", "action must be buy or sell");
+    if (!Number.isInteger(body.count) || body.count <= 0) return badRequest("invalid_count", "count must be a positive integer");
+
+    const price = body.side === "yes" ? body.yes_price : body.no_price;
+    if (body.type === "limit" && (!Number.isInteger(price) || price < 1 || price > 99)) {
+      return badRequest("invalid_price", "limit price must be an integer between 1 and 99");
+    }
+    // Market orders cross at any price
+    const limit = body.type === "market" ? (body.action === "buy" ? 99 : 1) : price;
+
+    if (body.action === "buy" && limit * body.count > this.balanceCents) {
+      return badRequest("insufficient_balance", "Insufficient balance");
+    }
+
+    const order: MockOrder = {
+      order_id: crypto.randomUUID(),
+      ticker: body.ticker,
+      status: "resting",
+      side: body.side,
+      action: body.action,
+      type: body.type ?? "limit",
+      yes_price: body.side === "yes" ? limit : 100 - limit,
+      no_price: body.side === "no" ? limit : 100 - limit,
+      initial_count: body.count,
+      remaining_count: body.count,
+      fill_count: 0,
+      created_time: new Date().toISOString(),
+      expiration_time: body.expiration_ts ? new Date(body.expiration_ts * 1000).toISOString() : null,
+    };
+    this.orders.set(order.order_id, order);
+
+    const before = structuredClone(m.orderbook);
+    this.match(order, true);
+    this.publishBookChanges(order.ticker, before);
+    if (order.type === "market" && order.status === "resting") order.status = "canceled";
+
+    return [201, { order }];
+  }
+
+  /**
+   * Match an order against the scripted book, best price first.
+   * Buying YES at p crosses NO bids ≥ 100 - p; selling YES at p crosses
+   * YES bids ≥ p (and symmetrically for NO).
+   */
+  private match(order: MockOrder, isTaker: boolean): void {
+    const m = this.requireMarket(order.ticker);
+    const limit = order.side === "yes" ? order.yes_price : order.no_price;
+    const buying = order.action === "buy";
+    const opposite = order.side === "yes" ? "no" : "yes";
+    const bookSide = buying ? m.orderbook[opposite] : m.orderbook[order.side];
+    const levels = sortBids(bookSide);
+
+    for (const level of levels) {
+      if (order.remaining_count === 0) break;
+      const [bidPrice, quantity] = level;
+      // Our execution price on our own side
+      const execPrice = buying ? 100 - bidPrice : bidPrice;
+      if (buying ? execPrice > limit : execPrice < limit) break;
+
+      const count = Math.min(quantity, order.remaining_count);
+      if (buying && execPrice * count > this.balanceCents) break;
+
+      level[1] -= count;
+      order.remaining_count -= count;
+      order.fill_count += count;
+      this.recordFill(order, count, execPrice, isTaker);
+    }
+
+    const remaining = levels.filter((l) => l[1] > 0);
+    if (buying) m.orderbook[opposite] = remaining;
+    else m.orderbook[order.side] = remaining;
+
+    if (order.remaining_count === 0) order.status = "executed";
+  }
+
+  private recordFill(order: MockOrder, count: number, price: number, isTaker: boolean): void {
+    this.fills.push({
+      trade_id: crypto.randomUUID(),
+      order_id: order.order_id,
+      ticker: order.ticker,
+      side: order.side,
+      action: order.action,
+      count,
+      yes_price: order.side === "yes" ? price : 100 - price,
+      no_price: order.side === "no" ? price : 100 - price,
+      is_taker: isTaker,
+      created_time: new Date().toISOString(),
+    });
+    this.publish("fill", order.ticker, () => ({
+      trade_id: this.fills[this.fills.length - 1].trade_id,
+      order_id: order.order_id,
+      market_ticker: order.ticker,
+      is_taker: isTaker,
+      side: order.side,
+      action: order.action,
+      yes_price: order.side === "yes" ? price : 100 - price,
+      no_price: order.side === "no" ? price : 100 - price,
+      count,
+      ts: Math.floor(Date.now() / 1000),
+    }));
+
+    // Express the fill in YES terms: buying YES or selling NO adds YES exposure
+    const yesPrice = order.side === "yes" ? price : 100 - price;
+    const direction = (order.side === "yes") === (order.action === "buy") ? 1 : -1;
+    this.applyFill(order.ticker, direction * count, yesPrice, fillFeeCents(count, price, isTaker, KALSHI_FEES));
+  }
+
+  private applyFill(ticker: string, delta: number, yesPrice: number, feeCents: number): void {
+    const pos = this.positions.get(ticker) ??
+      { position: 0, avgYesPrice: 0, realizedPnl: 0, feesPaid: 0, totalTraded: 0 };
+    pos.totalTraded += Math.abs(delta);
+    pos.feesPaid += feeCents;
+    this.balanceCents -= feeCents;
+
+    // Closing part: reduces the existing position
+    if (pos.position !== 0 && Math.sign(delta) !== Math.sign(pos.position)) {
+      const closing = Math.min(Math.abs(delta), Math.abs(pos.position));
+      const long = pos.position > 0;
+      // Closing a long YES returns the YES price; closing a long NO returns the NO price
+      const proceeds = closing * (long ? yesPrice : 100 - yesPrice);
+      const cost = closing * (long ? pos.avgYesPrice : 100 - pos.avgYesPrice);
+      this.balanceCents += proceeds;
+      pos.realizedPnl += proceeds - cost;
+      pos.position += long ? -closing : closing;
+      delta += long ? closing : -closing;
+    }
+
+    // Opening part: adds to (or starts) a position
+    if (delta !== 0) {
+      const opening = Math.abs(delta);
+      const long = delta > 0;
+      this.balanceCents -= opening * (long ? yesPrice : 100 - yesPrice);
+      const held = Math.abs(pos.position);
+      pos.avgYesPrice = held === 0 ? yesPrice : (pos.avgYesPrice * held + yesPrice * opening) / (held + opening);
+      pos.position += delta;
+    }
+
+    this.positions.set(ticker, pos);
+  }
+
+  private expireOrders(): void {
+    const now = Date.now();
+    for (const order of this.orders.values()) {
+      if (order.status === "resting" && order.expiration_time && Date.parse(order.expiration_time) <= now) {
+        order.status = "canceled";
+      }
+    }
+  }
+
+  private listPositions(query: URLSearchParams): unknown[] {
+    const onlyOpen = query.get("count_filter") === "position";
+    return [...this.positions.entries()]
+      .filter(([, p]) => !onlyOpen || p.position !== 0)
+      .map(([ticker, p]) => ({
+        ticker,
+        position: p.position,
+        market_exposure: Math.round(exposureOf(p)),
+        realized_pnl: Math.round(p.realizedPnl),
+        fees_paid: p.feesPaid,
+        total_traded: p.totalTraded,
+        resting_orders_count: [...this.orders.values()].filter(
+          (o) => o.ticker === ticker && o.status === "resting"
+        ).length,
+      }));
+  }
+
+  private requireMarket(ticker: string): MockMarket {
+    const m = this.markets.get(ticker);
+    if (!m) throw new Error(`Unknown market ${ticker}`);
+    return m;
+  }
+}
+
+// --- Helpers ---
+
+/** Cost basis in cents of a YES-terms position */
+function exposureOf(p: MockPosition): number {
+  return Math.abs(p.position) * (p.position > 0 ? p.avgYesPrice : 100 - p.avgYesPrice);
+}
+
+/** Bid levels, best (highest) first, as mutable references */
+function sortBids(levels: MockLevel[]): MockLevel[] {
+  return [...levels].sort((a, b) => b[0] - a[0]);
+}
+
+function notFound(what: string): [number, unknown] {
+  return [404, { error: { code: "not_found", message: `${what} not found` } }];
+}
+
+function badRequest(code: string, message: string): [number, unknown] {
+  return [400, { error: { code, message } }];
+}
+
+function send(res: http.ServerResponse, status: number, payload: unknown): void {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(payload));
+}
+
+async function readBody(req: http.IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  const text = Buffer.concat(chunks).toString("utf8");
+  return text ? JSON.parse(text) : undefined;
+}
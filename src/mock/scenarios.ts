@@ -0,0 +1,65 @@
+// ============================================================
+// Mock Scenarios — Scripted markets for the mock exchange
+// ============================================================
+
+import fs from "node:fs";
+import type { MockMarket, MockScenario } from "./mock-exchange.js";
+
+/** Load a scenario from a JSON file shaped like MockScenario */
+export function loadScenario(filePath: string): MockScenario {
+  return JSON.parse(fs.readFileSync(filePath, "utf8")) as MockScenario;
+}
+
+/**
+ * A small built-in scenario: a mutually exclusive three-way event, a pair of
+ * standalone binaries, a thin one-sided book and an already-settled market.
+ * Enough to exercise filtering, forecasting, sizing and order matching.
+ */
+export function defaultScenario(): MockScenario {
+  const closeTime = new Date(Date.now() + 14 * 86_400_000).toISOString();
+  const market = (
+    ticker: string,
+    eventTicker: string,
+    title: string,
+    yes: [number, number][],
+    no: [number, number][],
+    extra: Partial<MockMarket["market"]> = {}
+  ): MockMarket => ({
+    market: {
+      ticker,
+      event_ticker: eventTicker,
+      title,
+      category: "Economics",
+      status: "active",
+      volume: 5_000,
+      open_interest: 2_000,
+      close_time: closeTime,
+      expiration_time: closeTime,
+      ...extra,
+    },
+    orderbook: { yes, no },
+  });
+
+  return {
+    balanceCents: 100_000,
+    markets: [
+      market("KXFED-26DEC-CUT", "KXFED-26DEC", "Will the Fed cut rates in December?",
+        [[40, 200], [38, 500], [35, 1_000]], [[56, 150], [54, 400], [50, 800]]),
+      market("KXFED-26DEC-HOLD", "KXFED-26DEC", "Will the Fed hold rates in December?",
+        [[48, 300], [45, 600]], [[48, 250], [45, 500]]),
+      market("KXFED-26DEC-HIKE", "KXFED-26DEC", "Will the Fed hike rates in December?",
+        [[5, 500], [3, 1_000]], [[92, 400], [90, 800]]),
+      market("KXCPI-26NOV-T3", "KXCPI-26NOV", "Will November CPI YoY be above 3.0%?",
+        [[30, 100], [28, 300]], [[66, 120], [60, 300]], { category: "Economics" }),
+      market("KXBTC-26DEC31-T100K", "KXBTC-26DEC31", "Will Bitcoin close 2026 above $100k?",
+        [[62, 80], [60, 200]], [[35, 60], [30, 200]], { category: "Crypto" }),
+      market("KXTHIN-26DEC-X", "KXTHIN-26DEC", "Thin one-sided market",
+        [[20, 10]], [], { volume: 15 }),
+      market("KXDONE-26OCT-Y", "KXDONE-26OCT", "Already settled market",
+        [], [], { status: "finalized", result: "yes" }),
+    ],
+    events: [
+      { event_ticker: "KXFED-26DEC", title: "Fed decision in December", mutually_exclusive: true },
+    ],
+  };
+}
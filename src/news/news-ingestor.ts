@@ -0,0 +1,151 @@
+// ============================================================
+// News Ingestor — Polls feeds and the drop directory for new items
+// ============================================================
+
+import crypto from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+import type { AgentConfig, KalshiMarket, NewsItem, NewsMatch } from "../types/index.js";
+import type { Logger } from "../utils/logger.js";
+import { appendJsonl } from "../utils/jsonl.js";
+import { parseFeed } from "../utils/feed-parser.js";
+import { loadNewsDir } from "../context/news-source.js";
+import { matchNewsToMarkets } from "./news-matcher.js";
+
+const FETCH_TIMEOUT_MS = 15_000;
+/** Dedupe keys remembered across restarts */
+const MAX_SEEN_KEYS = 5000;
+
+/**
+ * Collects news from RSS/Atom feeds and the local drop directory
+ * (`context.newsDir`), drops anything already seen (by id or headline),
+ * and queues the markets that fresh items mention for re-forecasting.
+ *
+ * Feed items are appended to `<newsDir>/feeds.jsonl`, so the `news` context
+ * source also sees them in later cycles.
+ */
+export class NewsIngestor {
+  private feeds: string[];
+  private dropDir: string;
+  private feedStorePath: string;
+  private seenPath: string;
+  private options: AgentConfig["news"];
+  private logger: Logger;
+  private seen: Set<string>;
+  /** No seen-file yet: the first poll only records what already exists */
+  private priming: boolean;
+  private queue = new Map<string, NewsItem[]>();
+
+  constructor(config: AgentConfig, logger: Logger) {
+    this.feeds = config.news.feeds;
+    this.dropDir = config.context.newsDir;
+    this.feedStorePath = path.join(config.context.newsDir, "feeds.jsonl");
+    this.seenPath = path.join(config.storage.dataDir, "news-seen.json");
+    this.options = config.news;
+    this.logger = logger;
+
+    this.priming = !fs.existsSync(this.seenPath);
+    this.seen = new Set(this.priming ? [] : (JSON.parse(fs.readFileSync(this.seenPath, "utf8")) as string[]));
+  }
+
+  /** Every item currently in the feeds and the drop directory, seen or not */
+  async collect(): Promise<NewsItem[]> {
+    const items: NewsItem[] = [];
+    for (const url of this.feeds) {
+      try {
+        items.push(...(await this.fetchFeed(url)));
+      } catch (err) {
+        this.logger.warn(`News feed ${url} failed: ${err}`);
+      }
+    }
+    return [...items, ...loadNewsDir(this.dropDir, this.logger)];
+  }
+
+  /** Items not seen before, from every feed and the drop directory */
+  async poll(): Promise<NewsItem[]> {
+    const fresh: NewsItem[] = [];
+    for (const item of await this.collect()) {
+      const keys = dedupeKeys(item);
+      if (keys.some((k) => this.seen.has(k))) continue;
+      keys.forEach((k) => this.seen.add(k));
+      fresh.push(item);
+    }
+
+    // Feed items get a timestamp on first sight so the age checks work
+    const now = new Date().toISOString();
+    for (const item of fresh) {
+      if (item.source.startsWith("http")) {
+        item.publishedAt ??= now;
+        appendJsonl(this.feedStorePath, item);
+      }
+    }
+    if (fresh.length > 0 || this.priming) this.saveSeen();
+
+    if (this.priming) {
+      this.priming = false;
+      this.logger.info(`News: recorded ${fresh.length} existing items; only newer ones will trigger re-forecasts`);
+      return [];
+    }
+    if (fresh.length > 0) this.logger.info(`News: ${fresh.length} new items`);
+    return fresh;
+  }
+
+  /**
+   * Poll, match recent items against `markets` and queue the hits. Returns
+   * the matches found in this poll.
+   */
+  async ingest(markets: KalshiMarket[]): Promise<NewsMatch[]> {
+    const maxAgeMs = this.options.maxItemAgeMinutes * 60_000;
+    const recent = (await this.poll()).filter(
+      (item) => !item.publishedAt || Date.now() - Date.parse(item.publishedAt) <= maxAgeMs
+    );
+    if (recent.length === 0) return [];
+
+    const matches = matchNewsToMarkets(recent, markets, this.options);
+    for (const match of matches) {
+      for (const { ticker, score, entities } of match.markets) {
+        this.queue.set(ticker, [...(this.queue.get(ticker) ?? []), match.item]);
+        this.logger.info(
+          `News match: "${match.item.title}" → ${ticker} ` +
+          `(score ${score.toFixed(2)}${entities.length > 0 ? `, ${entities.join(", ")}` : ""})`
+        );
+      }
+    }
+    return matches;
+  }
+
+  /** Queued tickers with the items that triggered them; empties the queue */
+  takeQueue(): Map<string, NewsItem[]> {
+    const queued = this.queue;
+    this.queue = new Map();
+    return queued;
+  }
+
+  // --- Helpers ---
+
+  private async fetchFeed(url: string): Promise<NewsItem[]> {
+    const response = await fetch(url, {
+      headers: { Accept: "application/rss+xml, application/atom+xml, application/xml, text/xml" },
+      signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+    });
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    return parseFeed(await response.text(), url);
+  }
+
+  private saveSeen(): void {
+    const keys = [...this.seen].slice(-MAX_SEEN_KEYS);
+    this.seen = new Set(keys);
+    fs.mkdirSync(path.dirname(this.seenPath), { recursive: true });
+    const tmpPath = `${this.seenPath}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify(keys));
+    fs.renameSync(tmpPath, this.seenPath);
+  }
+}
+
+/** The same story often arrives from several feeds with different ids */
+function dedupeKeys(item: NewsItem): string[] {
+  const headline = item.title.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+  const keys = [`id:${item.id}`];
+  if (headline) keys.push(`title:${crypto.createHash("sha256").update(headline).digest("hex").slice(0, 16)}`);
+  return keys;
+}
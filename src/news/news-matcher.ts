@@ -0,0 +1,54 @@
+// ============================================================
+// News Matcher — Which open markets a news item is about
+// ============================================================
+
+import type { KalshiMarket, NewsItem, NewsMatch } from "../types/index.js";
+import { marketEntities, marketTerms, matchedEntities, relevance } from "../utils/text-match.js";
+
+export interface MatchOptions {
+  minRelevance: number;
+  maxMarketsPerItem: number;
+}
+
+/**
+ * Match items to markets by keyword overlap with the title/subtitle and by
+ * entity mentions (capitalized names, event series). A market with known
+ * entities only matches if the item names at least one of them, which keeps
+ * generic keyword overlap from triggering re-forecasts.
+ */
+export function matchNewsToMarkets(
+  items: NewsItem[],
+  markets: KalshiMarket[],
+  options: MatchOptions
+): NewsMatch[] {
+  const indexed = markets.map((market) => ({
+    market,
+    terms: marketTerms(market),
+    entities: marketEntities(market),
+  }));
+
+  const matches: NewsMatch[] = [];
+  for (const item of items) {
+    const text = `${item.title} ${item.summary}`;
+    const hits: NewsMatch["markets"] = [];
+
+    for (const { market, terms, entities } of indexed) {
+      const keywordScore = relevance(terms, text);
+      if (keywordScore < options.minRelevance) continue;
+
+      const entityHits = matchedEntities(entities, text);
+      if (entities.size > 0 && entityHits.length === 0) continue;
+
+      const score = entities.size > 0
+        ? 0.7 * keywordScore + 0.3 * (entityHits.length / entities.size)
+        : keywordScore;
+      hits.push({ ticker: market.ticker, score, entities: entityHits });
+    }
+
+    if (hits.length > 0) {
+      hits.sort((a, b) => b.score - a.score);
+      matches.push({ item, markets: hits.slice(0, options.maxMarketsPerItem) });
+    }
+  }
+  return matches;
+}
@@ -0,0 +1,198 @@
+// ============================================================
+// Book Depth — Fill prices from walking the order book
+// ============================================================
+
+import type { OrderBook, OrderBookLevel } from "../types/index.js";
+import { feePerContract, tradingFeeCents } from "./fees.js";
+
+/** Result of crossing some number of contracts through the book */
+export interface BookFill {
+  contracts: number;
+  avgPrice: number;         // volume-weighted, cents
+  worstPrice: number;       // deepest level touched — the limit that fills it all
+  costCents: number;        // proceeds, for sells
+  feeCents: number;         // taker fees, rounded up per level crossed
+  /** What stopped the walk: the dollar budget, the max average price, or running out of book */
+  limitedBy: "budget" | "price" | "depth" | "size";
+}
+
+/**
+ * Levels we can buy `side` from, cheapest first. Kalshi books only hold
+ * bids: buying YES at p means matching a NO bid at 100 - p.
+ */
+export function askLevels(book: OrderBook, side: "yes" | "no"): OrderBookLevel[] {
+  const opposite = side === "yes" ? book.no : book.yes;
+  return opposite
+    .filter((l) => l.quantity > 0 && l.price > 0 && l.price < 100)
+    .map((l) => ({ price: 100 - l.price, quantity: l.quantity }))
+    .sort((a, b) => a.price - b.price);
+}
+
+/** Bids we can sell `side` into, best (highest) first */
+export function bidLevels(book: OrderBook, side: "yes" | "no"): OrderBookLevel[] {
+  return book[side]
+    .filter((l) => l.quantity > 0 && l.price > 0 && l.price < 100)
+    .sort((a, b) => b.price - a.price);
+}
+
+/**
+ * Buy as many contracts as `budgetCents` allows while the volume-weighted
+ * average price stays at or below `maxAvgPrice`. Both limits apply to the
+ * all-in price, including the taker fee at `feeRate`.
+ */
+export function fillForBudget(
+  levels: OrderBookLevel[],
+  budgetCents: number,
+  maxAvgPrice: number,
+  feeRate = 0
+): BookFill {
+  let contracts = 0;
+  let allInCost = 0;
+  let cost = 0;
+  let fees = 0;
+  let worst = 0;
+  let limitedBy: BookFill["limitedBy"] = "depth";
+
+  for (const level of levels) {
+    const allIn = level.price + feePerContract(level.price, feeRate);
+    const affordable = Math.floor((budgetCents - allInCost) / allIn);
+    // Largest k with (allInCost + k·allIn) / (contracts + k) ≤ maxAvgPrice
+    const withinPrice = allIn <= maxAvgPrice
+      ? Infinity
+      : Math.floor((maxAvgPrice * contracts - allInCost) / (allIn - maxAvgPrice));
+    const take = Math.max(0, Math.min(level.quantity, affordable, withinPrice));
+
+    if (take > 0) {
+      contracts += take;
+      allInCost += take * allIn;
+      cost += take * level.price;
+      fees += tradingFeeCents(take, level.price, feeRate);
+      worst = level.price;
+    }
+    if (take < level.quantity) {
+      limitedBy = affordable <= withinPrice ? "budget" : "price";
+      break;
+    }
+  }
+
+  return summarize(contracts, cost, fees, worst, limitedBy);
+}
+
+/** Fill up to `contracts` at prices no worse than `limitPrice`, paying `feeRate` per level */
+export function fillContracts(levels: OrderBookLevel[], contracts: number, limitPrice: number, feeRate = 0): BookFill {
+  let filled = 0;
+  let cost = 0;
+  let fees = 0;
+  let worst = 0;
+
+  for (const level of levels) {
+    if (filled >= contracts || level.price > limitPrice) break;
+    const take = Math.min(level.quantity, contracts - filled);
+    filled += take;
+    cost += take * level.price;
+    fees += tradingFeeCents(take, level.price, feeRate);
+    worst = level.price;
+  }
+
+  return summarize(filled, cost, fees, worst, filled >= contracts ? "size" : "depth");
+}
+
+/**
+ * Sell up to `contracts` into the bids at prices no lower than `minPrice`,
+ * paying `feeRate` per level. `worstPrice` is the lowest bid hit.
+ */
+export function sellContracts(levels: OrderBookLevel[], contracts: number, minPrice: number, feeRate = 0): BookFill {
+  let filled = 0;
+  let proceeds = 0;
+  let fees = 0;
+  let worst = 0;
+
+  for (const level of levels) {
+    if (filled >= contracts || level.price < minPrice) break;
+    const take = Math.min(level.quantity, contracts - filled);
+    filled += take;
+    proceeds += take * level.price;
+    fees += tradingFeeCents(take, level.price, feeRate);
+    worst = level.price;
+  }
+
+  return summarize(filled, proceeds, fees, worst, filled >= contracts ? "size" : "depth");
+}
+
+/** Whole baskets bought across several legs */
+export interface BasketFill {
+  baskets: number;
+  legs: BookFill[];         // per leg, in input order
+  limitedBy: "budget" | "price" | "depth";
+}
+
+/**
+ * Buy whole baskets — one contract on every leg — cheapest levels first,
+ * while each further basket still costs, taker fees included, at least
+ * `minProfitCents` less than `payoutCents`, and the total stays within
+ * `budgetCents`.
+ */
+export function fillBasket(
+  legs: OrderBookLevel[][],
+  payoutCents: number,
+  budgetCents: number,
+  minProfitCents: number,
+  feeRate = 0
+): BasketFill {
+  const level = legs.map(() => 0);
+  const used = legs.map(() => 0);
+  let baskets = 0;
+  let spent = 0;
+  let limitedBy: BasketFill["limitedBy"] = "depth";
+
+  while (legs.length > 0) {
+    const current = legs.map((levels, i) => levels[level[i]]);
+    if (current.some((l) => !l)) break;
+
+    const unitCost = current.reduce((sum, l) => sum + l.price + feePerContract(l.price, feeRate), 0);
+    if (unitCost > payoutCents - minProfitCents) {
+      limitedBy = "price";
+      break;
+    }
+    const available = Math.min(...current.map((l, i) => l.quantity - used[i]));
+    const take = Math.min(available, Math.floor((budgetCents - spent) / unitCost));
+    if (take <= 0) {
+      limitedBy = "budget";
+      break;
+    }
+
+    baskets += take;
+    spent += take * unitCost;
+    current.forEach((l, i) => {
+      used[i] += take;
+      if (used[i] >= l.quantity) {
+        level[i]++;
+        used[i] = 0;
+      }
+    });
+    if (take < available) {
+      limitedBy = "budget";
+      break;
+    }
+  }
+
+  // Each leg took its cheapest `baskets` contracts, so re-walking gives its fill
+  return { baskets, legs: legs.map((levels) => fillContracts(levels, baskets, 99, feeRate)), limitedBy };
+}
+
+function summarize(
+  contracts: number,
+  cost: number,
+  fees: number,
+  worst: number,
+  limitedBy: BookFill["limitedBy"]
+): BookFill {
+  return {
+    contracts,
+    avgPrice: contracts > 0 ? cost / contracts : 0,
+    worstPrice: worst,
+    costCents: cost,
+    feeCents: fees,
+    limitedBy,
+  };
+}
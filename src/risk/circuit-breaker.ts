@@ -0,0 +1,260 @@
+// ============================================================
+// Circuit Breaker — Persistent trading halts and kill switch
+// ============================================================
+
+import fs from "node:fs";
+import path from "node:path";
+import type { AgentConfig, BreakerKind, CircuitBreakerState, CircuitBreakerTrip } from "../types/index.js";
+import type { ExecutionMode } from "../agent/trading-agent.js";
+import type { Logger } from "../utils/logger.js";
+import { paperLedgerPath } from "../agent/paper-ledger.js";
+
+const HOUR_MS = 3600_000;
+
+/** Breaker state plus the limits it is checked against, for status reports */
+export interface CircuitBreakerStatus extends CircuitBreakerState {
+  dailyLossLimitUsd: number;
+  maxTradesPerHour: number;
+  maxDrawdownPct: number;
+  timezone: string;
+  killSwitchPath: string | null;
+  killSwitchPresent: boolean;
+}
+
+/**
+ * Breaker state file for a mode: one for live and one per paper account, so
+ * paper equity and losses never trip live (or another account). Paper state
+ * sits in a subdirectory, out of the way of the account ledgers.
+ */
+export function breakerStatePath(dataDir: string, mode: ExecutionMode, account: string): string {
+  if (mode === "live") return path.join(dataDir, "live", "breaker.json");
+  const ledgerPath = paperLedgerPath(dataDir, account);
+  return path.join(path.dirname(ledgerPath), "breakers", path.basename(ledgerPath));
+}
+
+/**
+ * Halts new entries when the day's realized losses reach `dailyLossLimitUsd`,
+ * when equity falls `maxDrawdownPct` below its peak, or when the kill switch
+ * is thrown (the `killSwitchPath` file exists, or `trip` is called, e.g. on
+ * SIGUSR2). A tripped breaker stays tripped — across restarts and new days —
+ * until someone re-arms it with `npm run breaker -- rearm`.
+ *
+ * Entries are also throttled to `maxTradesPerHour` over a rolling hour; that
+ * limit delays trades but never trips.
+ *
+ * With a `statePath`, every call reads and rewrites it, so a re-arm from the
+ * CLI reaches a running agent at its next check. Each mode and paper
+ * account has its own file (see `breakerStatePath`); the kill switch file
+ * is shared and halts them all. The backtester runs an in-memory breaker.
+ */
+export class CircuitBreaker {
+  private dailyLossLimitUsd: number;
+  private maxTradesPerHour: number;
+  private maxDrawdownPct: number;
+  private timezone: string;
+  private statePath: string | null;
+  private killSwitchPath: string | null;
+  private dayFormat: Intl.DateTimeFormat;
+  private memory: CircuitBreakerState | null = null;
+  private logger: Logger;
+  private now: () => number;
+
+  /**
+   * @param statePath Where to keep state, watching the kill switch file too;
+   *                  null keeps it in memory (backtests)
+   * @param now       Clock for the daily rollover and hourly trade window
+   */
+  constructor(config: AgentConfig, logger: Logger, statePath: string | null, now: () => number = Date.now) {
+    this.dailyLossLimitUsd = config.circuitBreaker.dailyLossLimitUsd;
+    this.maxTradesPerHour = config.circuitBreaker.maxTradesPerHour;
+    this.maxDrawdownPct = config.circuitBreaker.maxDrawdownPct;
+    this.timezone = config.circuitBreaker.timezone;
+    this.statePath = statePath;
+    this.killSwitchPath = statePath ? config.circuitBreaker.killSwitchPath : null;
+    // en-CA formats dates as YYYY-MM-DD
+    this.dayFormat = new Intl.DateTimeFormat("en-CA", {
+      timeZone: this.timezone,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+    });
+    this.logger = logger;
+    this.now = now;
+  }
+
+  /** The current trading day in the breaker's timezone (YYYY-MM-DD) */
+  today(): string {
+    return this.dayFormat.format(new Date(this.now()));
+  }
+
+  /**
+   * The active trip, or null when trading may go on. Throws the kill switch
+   * first if its file has appeared.
+   */
+  check(): CircuitBreakerTrip | null {
+    if (this.killSwitchPresent()) {
+      this.trip("kill_switch", `kill switch file ${this.killSwitchPath} exists`);
+    }
+    return this.load().trip ?? null;
+  }
+
+  /** True while another entry fits in the rolling hour */
+  canTrade(): boolean {
+    return this.recentTrades(this.load()).length < this.maxTradesPerHour;
+  }
+
+  /** Count an entry toward the hourly limit */
+  recordTrade(): void {
+    this.update((state) => {
+      state.tradeTimes = [...this.recentTrades(state), this.now()];
+    });
+  }
+
+  /** Record a realized loss; trips the daily loss breaker at the limit */
+  recordLoss(amount: number): void {
+    const dailyLoss = this.update((state) => (state.dailyLossUsd += amount));
+    if (this.dailyLossLimitUsd <= 0) return;
+
+    if (dailyLoss >= this.dailyLossLimitUsd) {
+      this.trip(
+        "daily_loss",
+        `daily loss $${dailyLoss.toFixed(2)} reached the $${this.dailyLossLimitUsd.toFixed(2)} limit`
+      );
+    } else if (dailyLoss >= this.dailyLossLimitUsd * 0.8) {
+      this.logger.warn(`Approaching daily loss limit: $${dailyLoss.toFixed(2)} / $${this.dailyLossLimitUsd.toFixed(2)}`);
+    }
+  }
+
+  /** Track peak equity (cash plus positions at the bid); trips on drawdown past the limit */
+  observeEquity(equityUsd: number): void {
+    const peak = this.update((state) => (state.peakEquityUsd = Math.max(state.peakEquityUsd, equityUsd)));
+    if (this.maxDrawdownPct <= 0 || peak <= 0) return;
+
+    const drawdown = (peak - equityUsd) / peak;
+    if (drawdown >= this.maxDrawdownPct) {
+      this.trip(
+        "drawdown",
+        `equity $${equityUsd.toFixed(2)} is ${(drawdown * 100).toFixed(1)}% below its $${peak.toFixed(2)} peak`
+      );
+    }
+  }
+
+  /** Halt new entries until re-armed. A breaker already tripped keeps its first reason. */
+  trip(breaker: BreakerKind, reason: string): void {
+    const tripped = this.update((state) => {
+      if (state.trip) return false;
+      state.trip = { breaker, reason, trippedAt: new Date(this.now()).toISOString() };
+      return true;
+    });
+    if (tripped) this.logger.error(`Circuit breaker tripped (${breaker}): ${reason} — halting new entries`);
+  }
+
+  /**
+   * Clear a trip and start the day's loss count and the drawdown peak afresh.
+   * Refuses while the kill switch file is still there. Returns the cleared trip.
+   */
+  rearm(): CircuitBreakerTrip | null {
+    if (this.killSwitchPresent()) {
+      throw new Error(`Remove the kill switch file ${this.killSwitchPath} before re-arming`);
+    }
+    const cleared = this.update((state) => {
+      const trip = state.trip ?? null;
+      delete state.trip;
+      state.dailyLossUsd = 0;
+      state.peakEquityUsd = 0;
+      return trip;
+    });
+    if (cleared) this.logger.info(`Circuit breaker re-armed (was ${cleared.breaker}: ${cleared.reason})`);
+    return cleared;
+  }
+
+  /**
+   * Clear a daily-loss trip from an earlier day, leaving drawdown and
+   * kill-switch trips latched. The backtester calls this in place of an
+   * operator re-arming each morning. Returns the cleared trip.
+   */
+  rearmDailyLoss(): CircuitBreakerTrip | null {
+    const cleared = this.update((state) => {
+      const trip = state.trip;
+      if (trip?.breaker !== "daily_loss" || this.dayFormat.format(new Date(trip.trippedAt)) === state.day) return null;
+      delete state.trip;
+      return trip;
+    });
+    if (cleared) this.logger.info(`New trading day ${this.today()}: daily loss breaker re-armed`);
+    return cleared;
+  }
+
+  status(): CircuitBreakerStatus {
+    const state = this.load();
+    return {
+      ...state,
+      tradeTimes: this.recentTrades(state),
+      dailyLossLimitUsd: this.dailyLossLimitUsd,
+      maxTradesPerHour: this.maxTradesPerHour,
+      maxDrawdownPct: this.maxDrawdownPct,
+      timezone: this.timezone,
+      killSwitchPath: this.killSwitchPath,
+      killSwitchPresent: this.killSwitchPresent(),
+    };
+  }
+
+  // --- State ---
+
+  private killSwitchPresent(): boolean {
+    return this.killSwitchPath !== null && fs.existsSync(this.killSwitchPath);
+  }
+
+  private recentTrades(state: CircuitBreakerState): number[] {
+    return state.tradeTimes.filter((t) => this.now() - t < HOUR_MS);
+  }
+
+  private update<T>(change: (state: CircuitBreakerState) => T): T {
+    const state = this.load();
+    const result = change(state);
+    this.save(state);
+    return result;
+  }
+
+  /** Current state, rolled over to today. Unreadable state fails loudly rather than trading unguarded. */
+  private load(): CircuitBreakerState {
+    let state: CircuitBreakerState;
+    if (!this.statePath) {
+      state = this.memory ?? this.fresh();
+    } else if (!fs.existsSync(this.statePath)) {
+      state = this.fresh();
+    } else {
+      try {
+        state = JSON.parse(fs.readFileSync(this.statePath, "utf-8"));
+      } catch (err) {
+        throw new Error(`Could not read circuit breaker state at ${this.statePath}: ${err}`);
+      }
+    }
+
+    const today = this.today();
+    if (state.day !== today) {
+      if (state.dailyLossUsd > 0) {
+        this.logger.info(`New trading day ${today}: daily loss counter reset from $${state.dailyLossUsd.toFixed(2)}`);
+      }
+      state.day = today;
+      state.dailyLossUsd = 0;
+      this.save(state);
+    }
+    return state;
+  }
+
+  private save(state: CircuitBreakerState): void {
+    state.tradeTimes = this.recentTrades(state);
+    if (!this.statePath) {
+      this.memory = state;
+      return;
+    }
+    fs.mkdirSync(path.dirname(this.statePath), { recursive: true });
+    const tmpPath = `${this.statePath}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify(state, null, 2));
+    fs.renameSync(tmpPath, this.statePath);
+  }
+
+  private fresh(): CircuitBreakerState {
+    return { day: this.today(), dailyLossUsd: 0, tradeTimes: [], peakEquityUsd: 0 };
+  }
+}
@@ -0,0 +1,242 @@
+// ============================================================
+// Exit Engine — Sell and scale-in decisions for held positions
+// ============================================================
+
+import type {
+  AgentConfig,
+  Edge,
+  ExitReason,
+  Forecast,
+  KalshiMarket,
+  OrderBook,
+  Portfolio,
+  Position,
+  TradeSignal,
+} from "../types/index.js";
+import type { Logger } from "../utils/logger.js";
+import { exitPrice } from "../agent/mark-to-market.js";
+import { bidLevels, sellContracts } from "./book-depth.js";
+import { feePerContract, tradingFeeCents } from "./fees.js";
+
+/** What to do with the positions we hold this cycle */
+export interface ExitPlan {
+  exits: TradeSignal[];
+  scaleIns: Set<string>;        // tickers RiskManager may add to (see generateSignals)
+}
+
+const REASON_TEXT: Record<ExitReason, string> = {
+  edge: "edge gone",
+  take_profit: "take profit",
+  stop_loss: "stop loss",
+  expiry: "near expiration",
+};
+
+/**
+ * Re-evaluates every held position against its latest forecast and the
+ * current bid (what we'd actually get for it, after the taker fee).
+ *
+ * A position is sold when, in order of precedence:
+ *   - its market expires within `exits.hoursBeforeClose`
+ *   - the bid has risen `takeProfitPct` above cost, or fallen `stopLossPct` below it
+ *   - the forecast now values it less than the bid plus `minHoldEdge`
+ *     (the edge flipped or collapsed)
+ *
+ * Edge exits sell only at net bids that trigger them (at least the model's
+ * value less `minHoldEdge`), and take-profits never below their target;
+ * stop-losses and expiry exits take whatever bids there are.
+ * A position whose buy edge has widened by `scaleInEdgeIncrease` since entry
+ * is flagged for scaling in instead. Basket legs are never reviewed: selling
+ * one would leave the rest of the basket unhedged.
+ */
+export class ExitEngine {
+  private minHoldEdge: number;
+  private takeProfitPct: number;
+  private stopLossPct: number;
+  private hoursBeforeClose: number;
+  private scaleInEdgeIncrease: number;
+  private takerRate: number;
+  private logger: Logger;
+  private now: () => number;
+
+  constructor(config: AgentConfig, logger: Logger, now: () => number = Date.now) {
+    this.minHoldEdge = config.exits.minHoldEdge;
+    this.takeProfitPct = config.exits.takeProfitPct;
+    this.stopLossPct = config.exits.stopLossPct;
+    this.hoursBeforeClose = config.exits.hoursBeforeClose;
+    this.scaleInEdgeIncrease = config.exits.scaleInEdgeIncrease;
+    this.takerRate = config.fees.takerRate;
+    this.logger = logger;
+    this.now = now;
+  }
+
+  /**
+   * Review the positions whose market is in `markets`. `edges` are this
+   * cycle's buy edges; `working` lists tickers with an order still on the
+   * book, which are left alone until it resolves.
+   */
+  review(
+    portfolio: Portfolio,
+    markets: KalshiMarket[],
+    forecasts: Forecast[],
+    edges: Edge[],
+    books: Map<string, OrderBook>,
+    working: Set<string> = new Set()
+  ): ExitPlan {
+    const marketMap = new Map(markets.map((m) => [m.ticker, m]));
+    const forecastMap = new Map(forecasts.filter((f) => !f.parseFailed).map((f) => [f.ticker, f]));
+    const edgeMap = new Map(edges.map((e) => [e.ticker, e]));
+    const plan: ExitPlan = { exits: [], scaleIns: new Set() };
+
+    for (const position of portfolio.positions) {
+      const market = marketMap.get(position.ticker);
+      if (!market || market.status !== "open" || position.contracts <= 0 || position.basketId) continue;
+      if (working.has(position.ticker)) {
+        this.logger.debug(`Not reviewing ${position.ticker}: an order is still working`);
+        continue;
+      }
+
+      const forecast = forecastMap.get(position.ticker);
+      const modelProb = forecast
+        ? position.side === "yes" ? forecast.modelProbYes : 1 - forecast.modelProbYes
+        : undefined;
+      const reason = this.exitReason(position, market, modelProb);
+
+      if (reason) {
+        const signal = this.exitSignal(position, market, reason, forecast, modelProb, books.get(position.ticker));
+        if (signal) plan.exits.push(signal);
+        continue;
+      }
+
+      const edge = edgeMap.get(position.ticker);
+      if (
+        this.scaleInEdgeIncrease > 0 &&
+        edge?.side === position.side &&
+        position.entryEdge !== undefined &&
+        edge.edge >= position.entryEdge + this.scaleInEdgeIncrease
+      ) {
+        this.logger.info(
+          `Scale-in candidate ${position.ticker}: edge ${(edge.edge * 100).toFixed(1)}% ` +
+          `vs ${(position.entryEdge * 100).toFixed(1)}% at entry`
+        );
+        plan.scaleIns.add(position.ticker);
+      }
+    }
+
+    if (plan.exits.length > 0 || plan.scaleIns.size > 0) {
+      this.logger.info(`Exit review: ${plan.exits.length} exits, ${plan.scaleIns.size} scale-ins`);
+    }
+    return plan;
+  }
+
+  private exitReason(position: Position, market: KalshiMarket, modelProb?: number): ExitReason | null {
+    const bid = exitPrice(market, position.side);
+    if (bid <= 0) return null; // nothing to sell into
+
+    const hoursLeft = (Date.parse(market.expirationDate) - this.now()) / 3600_000;
+    if (this.hoursBeforeClose > 0 && hoursLeft <= this.hoursBeforeClose) return "expiry";
+
+    const netBid = bid - feePerContract(bid, this.takerRate);
+    if (this.takeProfitPct > 0 && netBid >= position.avgPrice * (1 + this.takeProfitPct)) return "take_profit";
+    if (this.stopLossPct > 0 && netBid <= position.avgPrice * (1 - this.stopLossPct)) return "stop_loss";
+    if (modelProb !== undefined && modelProb - netBid / 100 < this.minHoldEdge) return "edge";
+    return null;
+  }
+
+  /**
+   * Sell the whole position into the bids, no lower than the reason allows.
+   * Without a book it goes at the top bid.
+   */
+  private exitSignal(
+    position: Position,
+    market: KalshiMarket,
+    reason: ExitReason,
+    forecast: Forecast | undefined,
+    modelProb: number | undefined,
+    book?: OrderBook
+  ): TradeSignal | null {
+    const bid = exitPrice(market, position.side);
+    const floor =
+      reason === "edge" && modelProb !== undefined ? this.minNetPrice((modelProb - this.minHoldEdge) * 100)
+      : reason === "take_profit" ? this.minNetPrice(position.avgPrice * (1 + this.takeProfitPct))
+      : 1;
+
+    let contracts = position.contracts;
+    let limitPrice = bid;
+    let avgPrice = bid;
+    let feeCents: number;
+    if (book) {
+      const fill = sellContracts(bidLevels(book, position.side), contracts, floor, this.takerRate);
+      if (fill.contracts <= 0) {
+        this.logger.debug(`Not exiting ${position.ticker} (${REASON_TEXT[reason]}): no bids at or above ${floor}¢`);
+        return null;
+      }
+      contracts = fill.contracts;
+      limitPrice = fill.worstPrice;
+      avgPrice = fill.avgPrice;
+      feeCents = fill.feeCents;
+    } else {
+      if (bid < floor) return null;
+      feeCents = tradingFeeCents(contracts, bid, this.takerRate);
+    }
+
+    const fees = feeCents / 100;
+    const proceeds = (contracts * avgPrice) / 100;
+    const pnl = proceeds - fees - (contracts * position.avgPrice) / 100;
+    const fee = feePerContract(avgPrice, this.takerRate) / 100;
+    const value = modelProb ?? avgPrice / 100;
+    const holdEdge = value - avgPrice / 100 + fee;
+
+    const reasonText =
+      `Exit (${REASON_TEXT[reason]}): ` +
+      (modelProb !== undefined ? `model ${(modelProb * 100).toFixed(1)}% vs ` : "") +
+      `bid ${bid}¢ | held ${position.contracts}x @ ${position.avgPrice.toFixed(1)}¢ | ` +
+      `${contracts} contracts @ ${avgPrice.toFixed(1)}¢ − $${fees.toFixed(2)} fees → ` +
+      `${pnl >= 0 ? "+" : "-"}$${Math.abs(pnl).toFixed(2)} on cost`;
+
+    const edge: Edge = {
+      ticker: position.ticker,
+      market,
+      forecast: forecast ?? {
+        ticker: position.ticker,
+        modelProbYes: position.side === "yes" ? value : 1 - value,
+        confidence: 0,
+        reasoning: "No fresh forecast; exit on price rules only",
+        sources: [],
+        timestamp: new Date(this.now()),
+      },
+      side: position.side,
+      marketProb: avgPrice / 100,
+      modelProb: value,
+      fee,
+      edge: holdEdge,
+      expectedValue: avgPrice > 0 ? holdEdge / (avgPrice / 100) : 0,
+    };
+
+    this.logger.info(
+      `Signal: SELL ${contracts}x ${position.side.toUpperCase()} ${position.ticker} @ ${limitPrice}¢ — ${REASON_TEXT[reason]}`
+    );
+
+    return {
+      edge,
+      side: position.side,
+      action: "sell",
+      contracts,
+      limitPrice,
+      expectedFillPrice: avgPrice,
+      slippageCents: bid - avgPrice,
+      expectedFees: fees,
+      exitReason: reason,
+      kellyFraction: 0,
+      positionSizeUsd: proceeds,
+      reason: reasonText,
+    };
+  }
+
+  /** Lowest bid (cents) that still nets `target` after the taker fee */
+  private minNetPrice(target: number): number {
+    for (let price = 1; price < 100; price++) {
+      if (price - feePerContract(price, this.takerRate) >= target) return price;
+    }
+    return 100;
+  }
+}
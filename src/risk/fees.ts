@@ -0,0 +1,45 @@
+// ============================================================
+// Fees — Kalshi's trading fee schedule (and Polymarket's)
+// ============================================================
+
+import type { FeeSchedule } from "../types/index.js";
+
+/**
+ * Kalshi's general schedule. Some series (e.g. the S&P 500 and Nasdaq-100
+ * index markets) charge half the taker rate; set FEE_TAKER_RATE for those.
+ */
+export const KALSHI_FEES: FeeSchedule = { takerRate: 0.07, makerRate: 0.0175 };
+
+/**
+ * Fee on one fill: rate × C × P × (1 − P) with P in dollars, rounded up to
+ * the next cent. Largest at 50¢, vanishing toward 1¢ and 99¢.
+ */
+export function tradingFeeCents(contracts: number, priceCents: number, rate: number): number {
+  if (contracts <= 0 || rate <= 0) return 0;
+  const raw = (rate * contracts * priceCents * (100 - priceCents)) / 100;
+  // Guard against 1.0000000002-style float noise rounding up a whole cent
+  return Math.ceil(raw - 1e-9);
+}
+
+/**
+ * Fee per contract before rounding (cents). Used to price edges before the
+ * order size is known; at realistic sizes the rounding is a fraction of a cent.
+ */
+export function feePerContract(priceCents: number, rate: number): number {
+  return (rate * priceCents * (100 - priceCents)) / 100;
+}
+
+/** Fee on one fill, by who provided the liquidity */
+export function fillFeeCents(contracts: number, priceCents: number, isTaker: boolean, fees: FeeSchedule): number {
+  return tradingFeeCents(contracts, priceCents, isTaker ? fees.takerRate : fees.makerRate);
+}
+
+/**
+ * Polymarket's taker fee: rate × C × min(P, 1 − P) with P in dollars, in
+ * cents. Settled in USDC, so not rounded to the cent. Most markets set the
+ * rate to zero.
+ */
+export function polymarketFeeCents(contracts: number, priceCents: number, rate: number): number {
+  if (contracts <= 0 || rate <= 0) return 0;
+  return rate * contracts * Math.min(priceCents, 100 - priceCents);
+}
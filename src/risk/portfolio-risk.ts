@@ -0,0 +1,369 @@
+// ============================================================
+// Portfolio Risk — Correlated exposure, scenarios and joint Kelly
+// ============================================================
+
+import type {
+  AgentConfig,
+  Edge,
+  EventRisk,
+  KalshiEvent,
+  KalshiMarket,
+  PortfolioRiskReport,
+  Position,
+  RiskScenario,
+} from "../types/index.js";
+import type { Logger } from "../utils/logger.js";
+import { getMarketGroup } from "../utils/market-filter.js";
+
+/** A held or proposed bet, as far as scenario P&L is concerned */
+export type Holding = Pick<Position, "ticker" | "side" | "contracts" | "avgPrice">;
+
+/** Which event and group each ticker belongs to, and which events are mutually exclusive */
+export interface RiskContext {
+  markets: Map<string, KalshiMarket>;
+  exclusiveEvents: Set<string>;
+}
+
+export function buildRiskContext(events: KalshiEvent[], markets: KalshiMarket[] = []): RiskContext {
+  const ctx: RiskContext = { markets: new Map(), exclusiveEvents: new Set() };
+  for (const event of events) {
+    if (event.mutuallyExclusive) ctx.exclusiveEvents.add(event.eventTicker);
+    for (const m of event.markets) ctx.markets.set(m.ticker, m);
+  }
+  for (const m of markets) ctx.markets.set(m.ticker, m);
+  return ctx;
+}
+
+/**
+ * Full Kelly fraction for one binary bet on its own: (p × b − q) / b, with
+ * b the net odds at the all-in cost (ask + taker fee).
+ */
+export function fullKellyFraction(edge: Edge): number {
+  const p = edge.modelProb;
+  const cost = edge.marketProb + edge.fee;
+  const b = (1 - cost) / cost;
+  if (!(b > 0)) return -1;
+  return (p * b - (1 - p)) / b;
+}
+
+/** One way an event can resolve, and whether a holding wins under it */
+interface Scenario {
+  label: string;
+  wins: (h: Holding) => boolean;
+}
+
+/**
+ * Treats the portfolio as correlated bets rather than independent ones.
+ *
+ * Positions are grouped by event. In a mutually exclusive event at most one
+ * market resolves YES, so its scenarios are "this market YES" for each market
+ * we touch plus "none of these" (Kalshi doesn't say whether an event's
+ * markets cover every outcome). Markets in other events are assumed to move
+ * together against us, so their one scenario is every position losing.
+ *
+ * Limits cap the worst-case loss per event (`maxEventLossUsd`) and summed
+ * over the events of a market group (`maxGroupLossUsd`). Hedged bets inside a
+ * mutually exclusive event — NO on several brackets, say — only count what
+ * can actually be lost at once.
+ */
+export class PortfolioRisk {
+  private maxEventLossUsd: number;
+  private maxGroupLossUsd: number;
+  private logger: Logger;
+
+  constructor(config: AgentConfig, logger: Logger) {
+    this.maxEventLossUsd = config.trading.maxEventLossUsd;
+    this.maxGroupLossUsd = config.trading.maxGroupLossUsd;
+    this.logger = logger;
+  }
+
+  // --- Scenario report ---
+
+  /** P&L of every scenario per event, largest worst case first */
+  report(holdings: Holding[], ctx: RiskContext): PortfolioRiskReport {
+    const byEvent = new Map<string, Holding[]>();
+    for (const h of holdings) {
+      if (h.contracts <= 0) continue;
+      const event = eventOf(h.ticker, ctx);
+      byEvent.set(event, [...(byEvent.get(event) ?? []), h]);
+    }
+
+    const events = [...byEvent].map(([eventTicker, held]) => this.eventRisk(eventTicker, held, ctx));
+    const groups = new Map<string, number>();
+    for (const e of events) groups.set(e.group, (groups.get(e.group) ?? 0) + e.worstCaseUsd);
+
+    return {
+      events: events.sort((a, b) => b.worstCaseUsd - a.worstCaseUsd),
+      groups: [...groups]
+        .map(([group, worstCaseUsd]) => ({ group, worstCaseUsd }))
+        .sort((a, b) => b.worstCaseUsd - a.worstCaseUsd),
+      worstCaseUsd: events.reduce((sum, e) => sum + e.worstCaseUsd, 0),
+    };
+  }
+
+  /** Log the report: one line per event with every scenario, then the group totals */
+  logReport(report: PortfolioRiskReport): void {
+    if (report.events.length === 0) return;
+    for (const e of report.events) {
+      const scenarios = e.scenarios.map((s) => `${s.label} ${usd(s.pnlUsd)}`).join(", ");
+      this.logger.info(
+        `Risk ${e.eventTicker} [${e.group}]: worst ${usd(-e.worstCaseUsd)} if ${e.worstScenario} | ${scenarios}`
+      );
+    }
+    const groups = report.groups
+      .map((g) => `${g.group} ${usd(-g.worstCaseUsd)}${this.maxGroupLossUsd > 0 ? ` of -$${this.maxGroupLossUsd}` : ""}`)
+      .join(", ");
+    this.logger.info(`Worst case across ${report.events.length} events: ${usd(-report.worstCaseUsd)} | ${groups}`);
+  }
+
+  // --- Limits ---
+
+  /**
+   * Most that can be spent on `edge` before its event's or its group's
+   * worst-case loss passes the limit. Scenarios where the bet wins only
+   * lower the loss, so each scenario where it loses bounds the spend.
+   */
+  headroomUsd(edge: Edge, holdings: Holding[], ctx: RiskContext): number {
+    const event = eventOf(edge.ticker, ctx);
+    const group = groupOf(edge.ticker, ctx);
+    const bet: Holding = { ticker: edge.ticker, side: edge.side, contracts: 0, avgPrice: 0 };
+
+    const sameEvent = holdings.filter((h) => h.contracts > 0 && eventOf(h.ticker, ctx) === event);
+    const scenarios = this.scenarios(event, [...sameEvent, bet], ctx);
+    const losing = scenarios.filter((s) => !s.wins(bet)).map((s) => -scenarioPnl(s, sameEvent));
+
+    let headroom = Infinity;
+    if (this.maxEventLossUsd > 0) {
+      for (const loss of losing) headroom = Math.min(headroom, this.maxEventLossUsd - loss);
+    }
+    if (this.maxGroupLossUsd > 0) {
+      const others = this.report(
+        holdings.filter((h) => eventOf(h.ticker, ctx) !== event && groupOf(h.ticker, ctx) === group),
+        ctx
+      ).worstCaseUsd;
+      for (const loss of losing) headroom = Math.min(headroom, this.maxGroupLossUsd - others - loss);
+    }
+    return Math.max(0, headroom);
+  }
+
+  // --- Joint Kelly ---
+
+  /**
+   * Full Kelly fractions for edges that share an event with another edge or
+   * with a held position, sized together instead of one at a time.
+   *
+   * In a mutually exclusive event the fractions maximise expected log wealth
+   * across its scenarios, with held positions as fixed P&L per scenario —
+   * so buying YES on two brackets, or adding to a hedge, is sized as the
+   * combined bet it is. Scenario probabilities come from the forecasts where
+   * we have them and market mids otherwise. Edges in any other shared event
+   * are scaled so they add up to no more than the largest of them alone,
+   * as if they were one bet.
+   *
+   * Like a single bet's Kelly fraction, each result is the target for the
+   * whole position: a scale-in's own held stake is included, and the caller
+   * subtracts it again. Tickers missing from the result size on their own
+   * Kelly fraction.
+   */
+  jointKelly(edges: Edge[], holdings: Holding[], bankrollUsd: number, ctx: RiskContext): Map<string, number> {
+    const fractions = new Map<string, number>();
+    if (bankrollUsd <= 0) return fractions;
+
+    const byEvent = new Map<string, Edge[]>();
+    for (const edge of edges) {
+      const event = eventOf(edge.ticker, ctx);
+      byEvent.set(event, [...(byEvent.get(event) ?? []), edge]);
+    }
+
+    for (const [event, group] of byEvent) {
+      const held = holdings.filter((h) => h.contracts > 0 && eventOf(h.ticker, ctx) === event);
+      if (group.length < 2 && held.length === 0) continue;
+
+      if (ctx.exclusiveEvents.has(event)) {
+        // The solve returns stakes on top of what is held; add back each bet's own holding
+        const joint = this.exclusiveKelly(event, group, held, bankrollUsd, ctx);
+        group.forEach((edge, i) => {
+          const ownUsd = held
+            .filter((h) => h.ticker === edge.ticker && h.side === edge.side)
+            .reduce((sum, h) => sum + (h.contracts * h.avgPrice) / 100, 0);
+          fractions.set(edge.ticker, joint[i] + ownUsd / bankrollUsd);
+        });
+        continue;
+      }
+
+      if (group.length < 2) continue;
+      const alone = group.map((e) => Math.max(0, fullKellyFraction(e)));
+      const total = alone.reduce((a, b) => a + b, 0);
+      const scale = total > 0 ? Math.max(...alone) / total : 0;
+      group.forEach((edge, i) => fractions.set(edge.ticker, alone[i] * scale));
+    }
+
+    for (const [ticker, fraction] of fractions) {
+      this.logger.debug(`Joint Kelly for ${ticker}: ${(fraction * 100).toFixed(2)}%`);
+    }
+    return fractions;
+  }
+
+  private exclusiveKelly(
+    event: string,
+    edges: Edge[],
+    held: Holding[],
+    bankrollUsd: number,
+    ctx: RiskContext
+  ): number[] {
+    const bets: Holding[] = edges.map((e) => ({ ticker: e.ticker, side: e.side, contracts: 0, avgPrice: 0 }));
+    const scenarios = this.scenarios(event, [...held, ...bets], ctx);
+    const probs = this.scenarioProbs(scenarios, edges, [...held, ...bets], ctx);
+
+    // Return per dollar staked on each bet, and held P&L as a fraction of bankroll
+    const returns = edges.map((edge, i) => {
+      const cost = edge.marketProb + edge.fee;
+      return scenarios.map((s) => (s.wins(bets[i]) ? (1 - cost) / cost : -1));
+    });
+    const base = scenarios.map((s) => scenarioPnl(s, held) / bankrollUsd);
+
+    return maximizeLogGrowth(returns, probs, base);
+  }
+
+  /**
+   * Probability of each scenario from an exclusive event's markets: our
+   * forecasts where we have them, market mids for the rest, squeezed into
+   * whatever the forecasts leave over. "None of these" gets the remainder.
+   */
+  private scenarioProbs(scenarios: Scenario[], edges: Edge[], holdings: Holding[], ctx: RiskContext): number[] {
+    const forecast = new Map(edges.map((e) => [e.ticker, e.forecast.modelProbYes]));
+    const tickers = [...new Set(holdings.map((h) => h.ticker))];
+    const implied = (ticker: string): number => {
+      const market = ctx.markets.get(ticker);
+      if (market && market.yesBid + market.yesAsk > 0) return (market.yesBid + market.yesAsk) / 200;
+      const h = holdings.find((x) => x.ticker === ticker && x.contracts > 0);
+      return h ? (h.side === "yes" ? h.avgPrice : 100 - h.avgPrice) / 100 : 0;
+    };
+
+    const forecastTotal = tickers.reduce((sum, t) => sum + (forecast.get(t) ?? 0), 0);
+    const forecastScale = forecastTotal > 1 ? 1 / forecastTotal : 1;
+    const left = 1 - forecastTotal * forecastScale;
+    const impliedTotal = tickers.reduce((sum, t) => sum + (forecast.has(t) ? 0 : implied(t)), 0);
+    const impliedScale = impliedTotal > left ? left / impliedTotal : 1;
+
+    const named = tickers.map((t) => {
+      const known = forecast.get(t);
+      return known !== undefined ? known * forecastScale : implied(t) * impliedScale;
+    });
+    const none = Math.max(0, 1 - named.reduce((a, b) => a + b, 0));
+    // Scenarios are built in ticker order with "none of these" last
+    return scenarios.map((_, i) => (i < named.length ? named[i] : none));
+  }
+
+  // --- Scenarios ---
+
+  private eventRisk(eventTicker: string, held: Holding[], ctx: RiskContext): EventRisk {
+    const scenarios: RiskScenario[] = this.scenarios(eventTicker, held, ctx).map((s) => ({
+      label: s.label,
+      pnlUsd: scenarioPnl(s, held),
+    }));
+    const worst = scenarios.reduce((a, b) => (b.pnlUsd < a.pnlUsd ? b : a));
+    return {
+      eventTicker,
+      group: groupOf(held[0].ticker, ctx),
+      mutuallyExclusive: ctx.exclusiveEvents.has(eventTicker),
+      scenarios,
+      worstCaseUsd: Math.max(0, -worst.pnlUsd),
+      worstScenario: worst.label,
+    };
+  }
+
+  private scenarios(eventTicker: string, holdings: Holding[], ctx: RiskContext): Scenario[] {
+    if (!ctx.exclusiveEvents.has(eventTicker)) {
+      return [{ label: "everything resolves against us", wins: () => false }];
+    }
+    const tickers = [...new Set(holdings.map((h) => h.ticker))];
+    return [
+      ...tickers.map((ticker) => ({
+        label: `${ticker} YES`,
+        wins: (h: Holding) => (h.side === "yes") === (h.ticker === ticker),
+      })),
+      { label: "none of these", wins: (h: Holding) => h.side === "no" },
+    ];
+  }
+}
+
+// --- Helpers ---
+
+function scenarioPnl(scenario: Scenario, holdings: Holding[]): number {
+  let pnl = 0;
+  for (const h of holdings) {
+    pnl += scenario.wins(h) ? (h.contracts * (100 - h.avgPrice)) / 100 : -(h.contracts * h.avgPrice) / 100;
+  }
+  return pnl;
+}
+
+/** Event of a listed market, or the ticker minus its last segment (KXFED-26DEC-T4.25 → KXFED-26DEC) */
+function eventOf(ticker: string, ctx: RiskContext): string {
+  const market = ctx.markets.get(ticker);
+  if (market) return market.eventTicker;
+  const cut = ticker.lastIndexOf("-");
+  return cut > 0 ? ticker.slice(0, cut) : ticker;
+}
+
+function groupOf(ticker: string, ctx: RiskContext): string {
+  const market = ctx.markets.get(ticker);
+  return market ? getMarketGroup(market) : ticker.split("-")[0];
+}
+
+function usd(amount: number): string {
+  return `${amount >= 0 ? "+" : "-"}$${Math.abs(amount).toFixed(2)}`;
+}
+
+/**
+ * Maximise Σ p_s · log(1 + base_s + Σ f_i · returns[i][s]) over stakes
+ * f_i ≥ 0 with Σ f_i ≤ 1, by projected gradient ascent. The objective is
+ * concave, so any local maximum is the global one.
+ */
+function maximizeLogGrowth(returns: number[][], probs: number[], base: number[]): number[] {
+  const n = returns.length;
+  const growth = (f: number[]): number => {
+    let g = 0;
+    for (let s = 0; s < probs.length; s++) {
+      if (probs[s] <= 0) continue;
+      let wealth = 1 + base[s];
+      for (let i = 0; i < n; i++) wealth += f[i] * returns[i][s];
+      if (wealth <= 0) return -Infinity;
+      g += probs[s] * Math.log(wealth);
+    }
+    return g;
+  };
+  const project = (f: number[]): number[] => {
+    const clamped = f.map((x) => Math.max(0, x));
+    const total = clamped.reduce((a, b) => a + b, 0);
+    return total > 1 ? clamped.map((x) => x / total) : clamped;
+  };
+
+  let f = new Array<number>(n).fill(0);
+  let current = growth(f);
+  if (!Number.isFinite(current)) return f;
+  let step = 0.1;
+
+  for (let iter = 0; iter < 1000 && step > 1e-7; iter++) {
+    const gradient = returns.map((r) => {
+      let d = 0;
+      for (let s = 0; s < probs.length; s++) {
+        if (probs[s] <= 0) continue;
+        let wealth = 1 + base[s];
+        for (let i = 0; i < n; i++) wealth += f[i] * returns[i][s];
+        d += (probs[s] * r[s]) / wealth;
+      }
+      return d;
+    });
+    const next = project(f.map((x, i) => x + step * gradient[i]));
+    const value = growth(next);
+    if (value > current + 1e-12) {
+      f = next;
+      current = value;
+      step *= 1.5;
+    } else {
+      step /= 2;
+    }
+  }
+  return f;
+}
@@ -2,47 +2,113 @@
 // Risk Manager — Position sizing and risk controls
 // ============================================================
 
-import type { Edge, TradeSignal, Portfolio, AgentConfig } from "../types/index.js";
+import type {
+  Edge,
+  TradeSignal,
+  Portfolio,
+  AgentConfig,
+  UncertaintySource,
+  OrderBook,
+  KalshiEvent,
+  KalshiMarket,
+  PortfolioRiskReport,
+} from "../types/index.js";
 import type { Logger } from "../utils/logger.js";
+import { askLevels, fillForBudget } from "./book-depth.js";
+import { feePerContract, tradingFeeCents } from "./fees.js";
+import { PortfolioRisk, buildRiskContext, fullKellyFraction, type Holding } from "./portfolio-risk.js";
+import { CircuitBreaker } from "./circuit-breaker.js";
 
 export class RiskManager {
   private kellyFraction: number;
+  private minEdge: number;
   private maxPositionUsd: number;
   private maxExposureUsd: number;
+  private uncertaintySource: UncertaintySource;
+  private maxEnsembleSpread: number;
+  private takerRate: number;
+  private portfolioRisk: PortfolioRisk;
+  private breaker: CircuitBreaker;
   private logger: Logger;
 
-  // Circuit breaker state
-  private dailyLoss = 0;
-  private dailyLossLimit: number;
-  private tradesThisHour = 0;
-  private maxTradesPerHour = 20;
-  private lastHourReset = Date.now();
-
-  constructor(config: AgentConfig, logger: Logger) {
+  /**
+   * @param breaker Daily loss, drawdown and kill-switch halts plus the hourly
+   *                trade limit. Defaults to an in-memory breaker on wall-clock
+   *                time; the agent passes its persistent one, the backtester
+   *                one on replayed snapshot time.
+   */
+  constructor(
+    config: AgentConfig,
+    logger: Logger,
+    breaker: CircuitBreaker = new CircuitBreaker(config, logger, null)
+  ) {
     this.kellyFraction = config.trading.kellyFraction;
+    this.minEdge = config.trading.minEdgeThreshold;
     this.maxPositionUsd = config.trading.maxPositionUsd;
     this.maxExposureUsd = config.trading.maxPortfolioExposureUsd;
-    this.dailyLossLimit = config.trading.maxPortfolioExposureUsd * 0.1; // 10% of max exposure
+    this.uncertaintySource = config.trading.uncertaintySource;
+    this.maxEnsembleSpread = config.trading.maxEnsembleSpread;
+    this.takerRate = config.fees.takerRate;
+    this.portfolioRisk = new PortfolioRisk(config, logger);
+    this.breaker = breaker;
     this.logger = logger;
   }
 
   /**
    * Convert edges into sized trade signals, applying all risk controls.
+   * With an order book for a ticker, sizing walks its depth; without one it
+   * assumes everything fills at the top-of-book ask.
+   *
+   * Markets we already hold are skipped, except tickers in `scaleIns`
+   * (see ExitEngine): those are topped up to their Kelly size on the same side.
+   *
+   * `events` tell PortfolioRisk which markets share an event and which events
+   * are mutually exclusive: edges there are Kelly-sized together, and every
+   * signal must fit the event and group worst-case loss limits.
    */
-  generateSignals(edges: Edge[], portfolio: Portfolio): TradeSignal[] {
-    this.resetHourlyCounterIfNeeded();
-
+  generateSignals(
+    edges: Edge[],
+    portfolio: Portfolio,
+    books?: Map<string, OrderBook>,
+    scaleIns: Set<string> = new Set(),
+    events: KalshiEvent[] = []
+  ): TradeSignal[] {
     // Circuit breaker checks
-    if (this.dailyLoss >= this.dailyLossLimit) {
-      this.logger.warn(`Circuit breaker: daily loss limit hit ($${this.dailyLoss.toFixed(2)})`);
+    const trip = this.breaker.check();
+    if (trip) {
+      this.logger.warn(`Circuit breaker tripped (${trip.breaker}): no new entries until re-armed`);
       return [];
     }
 
     const signals: TradeSignal[] = [];
-    let remainingExposure = this.maxExposureUsd - portfolio.totalExposureUsd;
+    // Resting orders can fill at any moment — count them against the cap
+    let remainingExposure =
+      this.maxExposureUsd - portfolio.totalExposureUsd - (portfolio.restingExposureUsd ?? 0);
+
+    const eligible = edges.filter((edge) => {
+      // Skip forecasts we shouldn't trust
+      const uncertainty = this.uncertaintyReason(edge);
+      if (uncertainty) {
+        this.logger.debug(`Skipping ${edge.ticker}: ${uncertainty}`);
+        return false;
+      }
 
-    for (const edge of edges) {
-      if (this.tradesThisHour >= this.maxTradesPerHour) {
+      // Check if we already have a position in this market
+      const existingPosition = portfolio.positions.find((p) => p.ticker === edge.ticker);
+      if (existingPosition && (!scaleIns.has(edge.ticker) || existingPosition.side !== edge.side)) {
+        this.logger.debug(`Skipping ${edge.ticker}: already have a position`);
+        return false;
+      }
+      return true;
+    });
+
+    // Correlated exposure: held positions plus this batch's signals as they're made
+    const ctx = buildRiskContext(events, edges.map((e) => e.market));
+    const holdings: Holding[] = portfolio.positions.map((p) => ({ ...p }));
+    const jointKelly = this.portfolioRisk.jointKelly(eligible, holdings, portfolio.balanceUsd, ctx);
+
+    for (const edge of eligible) {
+      if (!this.breaker.canTrade()) {
         this.logger.warn("Circuit breaker: hourly trade limit reached");
         break;
       }
@@ -52,24 +118,33 @@ export class RiskManager {
         break;
       }
 
-      // Skip low-confidence forecasts
-      if (edge.forecast.confidence < 0.3) {
-        this.logger.debug(`Skipping ${edge.ticker}: low confidence (${edge.forecast.confidence})`);
+      const headroom = this.portfolioRisk.headroomUsd(edge, holdings, ctx);
+      if (headroom < 1) {
+        this.logger.info(`Skipping ${edge.ticker}: event or group worst-case loss limit reached`);
         continue;
       }
 
-      // Check if we already have a position in this market
       const existingPosition = portfolio.positions.find((p) => p.ticker === edge.ticker);
-      if (existingPosition) {
-        this.logger.debug(`Skipping ${edge.ticker}: already have a position`);
-        continue;
-      }
+      const heldUsd = existingPosition ? (existingPosition.contracts * existingPosition.avgPrice) / 100 : 0;
 
-      const signal = this.sizePosition(edge, portfolio.balanceUsd, remainingExposure);
+      const signal = this.sizePosition(
+        edge,
+        portfolio.balanceUsd,
+        Math.min(remainingExposure, headroom),
+        books?.get(edge.ticker),
+        heldUsd,
+        jointKelly.get(edge.ticker)
+      );
       if (signal) {
         signals.push(signal);
+        holdings.push({
+          ticker: edge.ticker,
+          side: edge.side,
+          contracts: signal.contracts,
+          avgPrice: signal.expectedFillPrice ?? signal.limitPrice,
+        });
         remainingExposure -= signal.positionSizeUsd;
-        this.tradesThisHour++;
+        this.breaker.recordTrade();
       }
     }
 
@@ -85,26 +160,30 @@ export class RiskManager {
    *   p = model probability of winning
    *   q = 1 - p
    *   b = odds (payout / cost - 1, i.e., net odds received)
+   *   cost = ask + taker fee per contract
    *
    * We then apply a fractional Kelly (e.g., ¼ Kelly) for safety.
+   *
+   * With a book, the dollar size (fees included) is spent walking the ask
+   * levels, and the count is capped where the average all-in price would
+   * leave less than minEdgeThreshold of edge.
+   *
+   * A scale-in passes what it already holds as `heldUsd`; the Kelly size and
+   * the per-position cap then apply to the position as a whole.
+   *
+   * Bets sized jointly with others in their event (see PortfolioRisk.jointKelly)
+   * pass that full Kelly fraction as `kellyOverride`. It too covers the whole
+   * position, held stake included.
    */
   private sizePosition(
     edge: Edge,
     bankroll: number,
-    remainingExposure: number
+    remainingExposure: number,
+    book?: OrderBook,
+    heldUsd = 0,
+    kellyOverride?: number
   ): TradeSignal | null {
-    const p = edge.modelProb;
-    const q = 1 - p;
-    const cost = edge.marketProb; // cost per contract as fraction of $1
-    const payout = 1; // $1 payout on correct prediction
-
-    // Net odds: what you win relative to what you risk
-    const b = (payout - cost) / cost; // e.g., buy at 40¢ → win 60¢ on 40¢ risk → b = 1.5
-
-    if (b <= 0) return null;
-
-    // Full Kelly fraction
-    const fullKelly = (p * b - q) / b;
+    const fullKelly = kellyOverride ?? fullKellyFraction(edge);
 
     if (fullKelly <= 0) {
       this.logger.debug(`Negative Kelly for ${edge.ticker}, skipping`);
@@ -119,58 +198,110 @@ export class RiskManager {
 
     // Apply hard caps
     positionSizeUsd = Math.min(positionSizeUsd, this.maxPositionUsd);
+    if (heldUsd > 0) {
+      positionSizeUsd -= heldUsd;
+      if (positionSizeUsd < 1) {
+        this.logger.debug(`Not scaling into ${edge.ticker}: already at its Kelly size ($${heldUsd.toFixed(2)})`);
+        return null;
+      }
+    }
     positionSizeUsd = Math.min(positionSizeUsd, remainingExposure);
     positionSizeUsd = Math.max(positionSizeUsd, 1); // minimum $1
 
     // Calculate number of contracts (each contract costs yesPrice or noPrice cents)
-    const pricePerContract =
+    const topPrice =
       edge.side === "yes" ? edge.market.yesAsk : edge.market.noAsk;
 
-    if (pricePerContract <= 0) return null;
+    if (topPrice <= 0) return null;
+
+    let contracts: number;
+    let limitPrice = topPrice;
+    let avgPrice = topPrice;
+    let feeCents: number;
 
-    const contracts = Math.floor((positionSizeUsd * 100) / pricePerContract);
+    if (book) {
+      const maxAvgPrice = (edge.modelProb - this.minEdge) * 100;
+      const fill = fillForBudget(askLevels(book, edge.side), positionSizeUsd * 100, maxAvgPrice, this.takerRate);
+      if (fill.contracts <= 0) {
+        this.logger.debug(`Skipping ${edge.ticker}: no depth left with ${(this.minEdge * 100).toFixed(1)}% edge`);
+        return null;
+      }
+      if (fill.limitedBy === "price" || fill.limitedBy === "depth") {
+        this.logger.info(
+          `Capped ${edge.ticker} at ${fill.contracts} contracts ` +
+          `(${fill.limitedBy === "price" ? "edge after slippage and fees" : "book depth"})`
+        );
+      }
+      contracts = fill.contracts;
+      limitPrice = fill.worstPrice;
+      avgPrice = fill.avgPrice;
+      feeCents = fill.feeCents;
+    } else {
+      contracts = Math.floor((positionSizeUsd * 100) / (topPrice + feePerContract(topPrice, this.takerRate)));
+      feeCents = tradingFeeCents(contracts, topPrice, this.takerRate);
+    }
     if (contracts <= 0) return null;
 
-    const actualPositionUsd = (contracts * pricePerContract) / 100;
+    const actualPositionUsd = (contracts * avgPrice) / 100;
+    const fees = feeCents / 100;
+    const slippage = avgPrice - topPrice;
+    const priceText = (slippage > 0
+      ? `avg ${avgPrice.toFixed(1)}¢ (limit ${limitPrice}¢, slippage ${slippage.toFixed(1)}¢)`
+      : `${limitPrice}¢`) + ` + $${fees.toFixed(2)} fees`;
 
     const signal: TradeSignal = {
       edge,
       side: edge.side,
       action: "buy",
       contracts,
-      limitPrice: pricePerContract,
+      limitPrice,
+      expectedFillPrice: avgPrice,
+      slippageCents: slippage,
+      expectedFees: fees,
       kellyFraction: adjustedKelly,
       positionSizeUsd: actualPositionUsd,
       reason:
         `Edge: ${(edge.edge * 100).toFixed(1)}% | ` +
         `Model: ${(edge.modelProb * 100).toFixed(1)}% vs Market: ${(edge.marketProb * 100).toFixed(1)}% | ` +
         `Kelly: ${(adjustedKelly * 100).toFixed(2)}% | ` +
-        `${contracts} contracts @ ${pricePerContract}¢ = $${actualPositionUsd.toFixed(2)}`,
+        `${contracts} contracts @ ${priceText} = $${actualPositionUsd.toFixed(2)}`,
     };
 
-    this.logger.info(`Signal: BUY ${contracts}x ${edge.side.toUpperCase()} ${edge.ticker} @ ${pricePerContract}¢ ($${actualPositionUsd.toFixed(2)})`);
+    if (heldUsd > 0) signal.reason = `Scale-in on $${heldUsd.toFixed(2)} held | ${signal.reason}`;
+    this.logger.info(`Signal: ${heldUsd > 0 ? "SCALE-IN" : "BUY"} ${contracts}x ${edge.side.toUpperCase()} ${edge.ticker} @ ${priceText} ($${actualPositionUsd.toFixed(2)})`);
 
     return signal;
   }
 
+  /** Log the portfolio's P&L per outcome scenario of each event it holds */
+  reportScenarios(portfolio: Portfolio, events: KalshiEvent[], markets: KalshiMarket[] = []): PortfolioRiskReport {
+    const report = this.portfolioRisk.report(portfolio.positions, buildRiskContext(events, markets));
+    this.portfolioRisk.logReport(report);
+    return report;
+  }
+
   /** Record a realized loss for circuit breaker tracking */
   recordLoss(amount: number): void {
-    this.dailyLoss += amount;
-    if (this.dailyLoss >= this.dailyLossLimit * 0.8) {
-      this.logger.warn(`Approaching daily loss limit: $${this.dailyLoss.toFixed(2)} / $${this.dailyLossLimit.toFixed(2)}`);
-    }
+    this.breaker.recordLoss(amount);
   }
 
-  /** Reset daily loss counter (call at midnight) */
-  resetDaily(): void {
-    this.dailyLoss = 0;
-    this.logger.info("Daily loss counter reset");
-  }
+  /**
+   * Self-reported confidence and/or ensemble disagreement, per UNCERTAINTY_SOURCE.
+   * Forecasts without ensemble data always fall back to confidence.
+   */
+  private uncertaintyReason(edge: Edge): string | null {
+    const { confidence, ensemble, parseFailed } = edge.forecast;
+    if (parseFailed) return "forecast output failed validation";
 
-  private resetHourlyCounterIfNeeded(): void {
-    if (Date.now() - this.lastHourReset > 3600_000) {
-      this.tradesThisHour = 0;
-      this.lastHourReset = Date.now();
+    const useConfidence = this.uncertaintySource !== "spread" || !ensemble;
+    const useSpread = this.uncertaintySource !== "confidence" && ensemble;
+
+    if (useConfidence && confidence < 0.3) {
+      return `low confidence (${confidence})`;
+    }
+    if (useSpread && ensemble.spread > this.maxEnsembleSpread) {
+      return `ensemble spread ${(ensemble.spread * 100).toFixed(1)}% above ${(this.maxEnsembleSpread * 100).toFixed(1)}%`;
     }
+    return null;
   }
 }
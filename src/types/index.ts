@@ -18,6 +18,95 @@ export interface KalshiMarket {
   openInterest: number;
   expirationDate: string;
   result?: "yes" | "no" | "voided";
+  rulesPrimary?: string;    // resolution rules as published by Kalshi
+  rulesSecondary?: string;
+}
+
+/** An event and its markets. Mutually exclusive events resolve at most one market YES. */
+export interface KalshiEvent {
+  eventTicker: string;
+  seriesTicker: string;
+  title: string;
+  mutuallyExclusive: boolean;
+  markets: KalshiMarket[];  // every market in the event, whatever its status
+}
+
+/** Trading venues the cross-venue scanner compares */
+export type Venue = "kalshi" | "polymarket";
+
+/**
+ * A binary contract on any venue. Prices are cents per $1 payout (fractional
+ * on Polymarket, whose ticks go below a cent).
+ */
+export interface VenueMarket {
+  venue: Venue;
+  id: string;               // Kalshi ticker / Polymarket condition id
+  slug?: string;            // Polymarket URL slug
+  title: string;
+  closeTime: string;        // ISO 8601, when the outcome is decided
+  yesBid: number;
+  yesAsk: number;
+  noBid: number;
+  noAsk: number;
+  volume: number;           // in the venue's own units (contracts / USD)
+  yesTokenId?: string;      // Polymarket CLOB token for the YES outcome
+}
+
+/** A hand-curated statement that two contracts resolve on the same event */
+export interface VenueMapping {
+  kalshi: string;           // ticker
+  polymarket: string;       // condition id or slug
+  inverted?: boolean;       // Kalshi YES ≡ Polymarket NO
+  note?: string;
+}
+
+/** A fuzzy title + date match waiting for a human to confirm or reject it */
+export interface MatchCandidate {
+  id: string;
+  kalshi: string;
+  polymarket: string;
+  kalshiTitle: string;
+  polymarketTitle: string;
+  score: number;            // title similarity, 0–1
+  dateDiffDays: number;
+  status: "pending" | "approved" | "rejected";
+  proposedAt: string;       // ISO 8601
+}
+
+/** Two contracts believed to resolve identically */
+export interface MatchedPair {
+  kalshi: VenueMarket;
+  polymarket: VenueMarket;  // already flipped when the mapping is inverted
+  inverted: boolean;
+  reviewed: boolean;        // curated or approved, not just a fuzzy match
+  candidateId?: string;
+}
+
+/**
+ * Price comparison for one matched pair. The locked-in trade buys YES on
+ * one venue and NO on the other for a guaranteed $1, so it pays when the
+ * two asks plus both venues' fees come to less than 100¢.
+ */
+export interface CrossVenueEdge {
+  pair: MatchedPair;
+  midDivergence: number;    // Kalshi YES mid − Polymarket YES mid, cents
+  buyYesOn: Venue;          // the cheaper direction
+  yesAsk: number;           // cents, on buyYesOn
+  noAsk: number;            // cents, on the other venue
+  feesCents: number;        // per pair, both venues
+  profitCents: number;      // per pair: 100 − asks − fees
+  contracts: number;        // available at those prices (top of both books)
+}
+
+/** One side of an order book: resting bids, best (highest price) first */
+export interface OrderBookLevel {
+  price: number;            // cents
+  quantity: number;         // contracts
+}
+
+export interface OrderBook {
+  yes: OrderBookLevel[];
+  no: OrderBookLevel[];
 }
 
 /** Our model's probability estimate for a market */
@@ -28,6 +117,154 @@ export interface Forecast {
   reasoning: string;        // LLM's chain-of-thought
   sources: string[];        // URLs / data sources used
   timestamp: Date;
+  ensemble?: EnsembleSummary; // set when produced by the ensemble forecaster
+  cached?: boolean;         // served from the forecast cache, not a fresh model call
+  keyFactorsYes?: string[];
+  keyFactorsNo?: string[];
+  baseRateEstimate?: number;
+  informationEdge?: string;
+  parseFailed?: boolean;    // output never validated — placeholder that must not trade
+}
+
+export type EnsembleMethod = "mean" | "median" | "trimmed_mean" | "log_odds";
+
+/** How much the members of an ensemble forecast agreed */
+export interface EnsembleSummary {
+  method: EnsembleMethod;
+  members: Array<{ backend: ForecasterBackend; probability: number; confidence: number }>;
+  spread: number;           // std dev of member probabilities — objective uncertainty
+  min: number;
+  max: number;
+}
+
+/** Which uncertainty signal gates trades: self-reported confidence, ensemble spread, or both */
+export type UncertaintySource = "confidence" | "spread" | "both";
+
+/** One piece of retrieved context, scored for relevance to a market */
+export interface ContextSnippet {
+  source: string;           // recorded in Forecast.sources, e.g. "rules:TICKER" or a news URL
+  heading: string;
+  text: string;
+  score: number;            // 0–1, higher is more relevant
+}
+
+/** A news article or feed entry, from a local file or an RSS/Atom feed */
+export interface NewsItem {
+  id: string;               // guid / link / file path — used for dedupe
+  title: string;
+  summary: string;
+  url?: string;
+  publishedAt?: string;     // ISO 8601
+  source: string;           // feed URL or file it came from
+}
+
+/** A news item that mentions one or more open markets */
+export interface NewsMatch {
+  item: NewsItem;
+  markets: Array<{
+    ticker: string;
+    score: number;          // keyword relevance blended with entity hits (0–1)
+    entities: string[];     // market entities the item mentions
+  }>;
+}
+
+/** Ranked, budget-truncated context for one market's prompt */
+export interface MarketContext {
+  ticker: string;
+  text: string;             // rendered into the prompt's "Additional Context" section
+  sources: string[];        // sources of the snippets that made the cut
+}
+
+export type ContextSourceName = "rules" | "siblings" | "price_history" | "news";
+
+/** Anything that turns markets into probability forecasts (see src/forecaster) */
+export interface Forecaster {
+  forecast(market: KalshiMarket, context?: MarketContext): Promise<Forecast>;
+  /** Forecast several markets; failures are logged and omitted from the result */
+  forecastBatch(markets: KalshiMarket[], contexts?: Map<string, MarketContext>): Promise<Forecast[]>;
+}
+
+export type ForecasterBackend = "claude" | "openai" | "fixture";
+
+/** Tokens, searches and dollars for one model call */
+export interface LlmUsageRecord {
+  timestamp: string;        // ISO 8601
+  ticker: string;
+  backend: ForecasterBackend;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  webSearches: number;
+  costUsd: number;
+}
+
+/** Model spend rolled up for reporting next to P&L */
+export interface LlmCostSummary {
+  cycleUsd: number;         // since the last startCycle()
+  todayUsd: number;         // current UTC day, including earlier runs
+  totalUsd: number;         // everything in the usage log
+  dailyBudgetUsd: number;   // 0 = no cap
+  calls: number;            // today
+  inputTokens: number;      // today
+  outputTokens: number;     // today
+  webSearches: number;      // today
+  topMarkets: Array<{ ticker: string; costUsd: number; calls: number }>; // today, most expensive first
+}
+
+/** A forecast persisted to the local store, with the market price at the time */
+export interface ForecastRecord {
+  ticker: string;
+  eventTicker: string;
+  title: string;
+  modelProbYes: number;
+  confidence: number;
+  reasoning: string;
+  sources: string[];
+  timestamp: string;        // ISO 8601
+  marketYesAsk: number;     // cents, when the forecast was made
+  marketYesBid: number;
+  ensemble?: EnsembleSummary;
+  keyFactorsYes?: string[];
+  keyFactorsNo?: string[];
+  baseRateEstimate?: number;
+  informationEdge?: string;
+}
+
+/** A market outcome joined back to stored forecasts once it settles */
+export interface ResolutionRecord {
+  ticker: string;
+  result: "yes" | "no" | "voided";
+  resolvedAt: string;       // ISO 8601, when we observed the result
+}
+
+/** One probability bucket of a reliability diagram */
+export interface CalibrationBucket {
+  lower: number;
+  upper: number;
+  count: number;
+  meanForecast: number;     // average predicted P(YES) in the bucket
+  observedRate: number;     // fraction that actually resolved YES
+}
+
+/** Accuracy of forecasts grouped by the model's self-reported confidence */
+export interface ConfidenceBucket {
+  lower: number;
+  upper: number;
+  count: number;
+  meanConfidence: number;
+  brierScore: number;
+  directionalAccuracy: number; // fraction where P(YES) > 0.5 matched the outcome
+}
+
+/** Calibration report over all resolved forecasts */
+export interface CalibrationReport {
+  count: number;
+  baseRate: number;         // fraction of resolved forecasts that settled YES
+  brierScore: number;
+  logLoss: number;
+  marketBrierScore: number; // Brier of the market's YES mid at forecast time, for comparison
+  reliability: CalibrationBucket[];
+  byConfidence: ConfidenceBucket[];
 }
 
 /** A detected edge — the core signal */
@@ -38,8 +275,38 @@ export interface Edge {
   side: "yes" | "no";
   marketProb: number;       // implied prob from market price
   modelProb: number;        // our model's prob for this side
-  edge: number;             // modelProb - marketProb
-  expectedValue: number;    // EV per dollar risked
+  fee: number;              // taker fee per contract at marketProb, as a fraction of $1
+  edge: number;             // modelProb - marketProb - fee
+  expectedValue: number;    // EV per dollar risked, fees included
+}
+
+/** One market of an event basket: the same count is bought on every leg */
+export interface BasketLeg {
+  ticker: string;
+  market: KalshiMarket;
+  contracts: number;
+  limitPrice: number;       // cents; the deepest level crossed
+  avgPrice: number;         // cents, volume-weighted
+  feeCents: number;
+  depth: number;            // contracts on offer at or below limitPrice
+}
+
+/**
+ * Buying one side of every market in a mutually exclusive event for less
+ * than its guaranteed payout. YES: exactly one leg pays, so only events
+ * allowlisted as exhaustive qualify. NO: at least N − 1 legs pay.
+ */
+export interface BasketOpportunity {
+  eventTicker: string;
+  title: string;
+  side: "yes" | "no";
+  legs: BasketLeg[];
+  baskets: number;          // one contract per leg each
+  payoutCents: number;      // per basket: 100 for YES, (N − 1) × 100 for NO
+  costCents: number;        // all baskets, before fees
+  feeCents: number;
+  profitCents: number;      // guaranteed, after fees
+  limitedBy: "budget" | "price" | "depth";
 }
 
 /** A trade signal ready for execution */
@@ -48,33 +315,117 @@ export interface TradeSignal {
   side: "yes" | "no";
   action: "buy" | "sell";
   contracts: number;        // number of contracts
-  limitPrice: number;       // cents (1-99)
+  limitPrice: number;       // cents (1-99); the deepest book level the order crosses
+  expectedFillPrice?: number; // volume-weighted average over the book levels crossed (cents)
+  slippageCents?: number;   // expectedFillPrice minus the top-of-book ask
+  expectedFees?: number;    // USD, taking the whole size at expectedFillPrice
+  basketId?: string;        // set on the legs of an event basket arbitrage
+  exitReason?: ExitReason;  // set on sells from the exit engine
   kellyFraction: number;
   positionSizeUsd: number;
   reason: string;
 }
 
+/** Lifecycle of a live limit order */
+export type OrderStatus = "resting" | "partially_filled" | "filled" | "cancelled" | "expired";
+
+/** Why the pre-trade validator blocked an order */
+export type OrderRejectionCode =
+  | "invalid_price"
+  | "invalid_size"
+  | "market_closed"
+  | "market_unavailable"
+  | "price_moved"
+  | "edge_gone"
+  | "duplicate";
+
+export interface OrderRejection {
+  code: OrderRejectionCode;
+  reason: string;
+}
+
 /** Executed or paper trade record */
+/** Why the exit engine sold a position */
+export type ExitReason = "edge" | "take_profit" | "stop_loss" | "expiry";
+
 export interface TradeRecord {
   id: string;
   signal: TradeSignal;
   executedAt: Date;
-  fillPrice?: number;
-  filled: boolean;
+  fillPrice?: number;       // volume-weighted average over fills
+  filled: boolean;          // true once any contracts have filled
   orderId?: string;
-  pnl?: number;             // filled in after settlement
+  pnl?: number;             // filled in once the position is settled or sold out, net of fees
+  fees?: number;            // USD paid on the filled contracts
   mode: "paper" | "live";
+  // Live order tracking (see OrderManager)
+  orderStatus?: OrderStatus;
+  filledContracts?: number;
+  expirationTs?: number;    // unix seconds
+  reprices?: number;        // how many times this order has been re-placed
 }
 
 /** Portfolio state */
+/** Portfolio P&L if one combination of outcomes comes true */
+export interface RiskScenario {
+  label: string;            // e.g. "KXFED-26DEC-CUT YES", "none of these"
+  pnlUsd: number;
+}
+
+/** Every scenario that matters for our positions in one event */
+export interface EventRisk {
+  eventTicker: string;
+  group: string;                    // see getMarketGroup
+  mutuallyExclusive: boolean;
+  scenarios: RiskScenario[];
+  worstCaseUsd: number;             // largest loss across scenarios, 0 if none loses
+  worstScenario: string;
+}
+
+export interface PortfolioRiskReport {
+  events: EventRisk[];
+  groups: { group: string; worstCaseUsd: number }[];
+  worstCaseUsd: number;             // every event going wrong at once
+}
+
+/** Breakers that halt new entries until re-armed */
+export type BreakerKind = "daily_loss" | "drawdown" | "kill_switch";
+
+export interface CircuitBreakerTrip {
+  breaker: BreakerKind;
+  reason: string;
+  trippedAt: string;        // ISO 8601
+}
+
+/** On-disk circuit breaker state, shared by the agent and the breaker CLI */
+export interface CircuitBreakerState {
+  day: string;              // YYYY-MM-DD in circuitBreaker.timezone
+  dailyLossUsd: number;     // realized losses since that day began
+  tradeTimes: number[];     // epoch ms of entries in the last hour
+  peakEquityUsd: number;    // 0 until the first equity reading after (re-)arming
+  trip?: CircuitBreakerTrip;
+}
+
 export interface Portfolio {
   balanceUsd: number;
   positions: Position[];
   totalExposureUsd: number;
+  restingExposureUsd?: number;  // cost of resting (unfilled) buy orders — live only
   realizedPnl: number;
   unrealizedPnl: number;
 }
 
+/** On-disk state of a named paper-trading account */
+export interface PaperLedger {
+  account: string;
+  createdAt: string;        // ISO 8601
+  updatedAt: string;
+  initialBalanceUsd: number;
+  balanceUsd: number;
+  positions: Position[];
+  trades: TradeRecord[];
+}
+
 export interface Position {
   ticker: string;
   side: "yes" | "no";
@@ -82,6 +433,37 @@ export interface Position {
   avgPrice: number;
   currentPrice: number;
   marketTitle: string;
+  entryEdge?: number;       // edge when bought, contract-weighted across scale-ins
+  basketId?: string;        // set on the legs of an event basket, which are held to settlement
+}
+
+/** A point-in-time capture of market prices, replayed by the backtester */
+export interface MarketSnapshot {
+  timestamp: string;        // ISO 8601
+  markets: KalshiMarket[];
+}
+
+/** Summary statistics for a single backtest run */
+export interface BacktestResult {
+  minEdgeThreshold: number;
+  kellyFraction: number;
+  snapshots: number;
+  trades: number;
+  settledPositions: number;
+  unsettledPositions: number;
+  wins: number;
+  hitRate: number;          // wins / settled positions
+  totalPnl: number;         // final equity - initial balance
+  returnPct: number;
+  maxDrawdown: number;      // largest peak-to-trough equity drop, as a fraction of peak
+  sharpe: number;           // mean / stdev of per-snapshot equity returns (not annualized)
+  finalEquity: number;
+}
+
+/** Per-contract fee rates; a fill costs rate × C × P × (1 − P), rounded up to the cent */
+export interface FeeSchedule {
+  takerRate: number;        // orders that cross the book
+  makerRate: number;        // resting orders that get hit
 }
 
 /** Agent configuration (loaded from env) */
@@ -92,6 +474,11 @@ export interface AgentConfig {
     privateKeyPem?: string;
     environment: "prod" | "demo";
     basePath: string;
+    wsUrl: string;
+  };
+  marketData: {
+    source: "rest" | "websocket";     // websocket: stream quotes into a local cache
+    refreshMinutes: number;           // re-list markets over REST this often (new / closed markets)
   };
   anthropic: {
     apiKey: string;
@@ -101,11 +488,106 @@ export interface AgentConfig {
     kellyFraction: number;
     maxPositionUsd: number;
     maxPortfolioExposureUsd: number;
+    maxEventLossUsd: number;      // worst-case loss across one event's outcomes; 0 = no limit
+    maxGroupLossUsd: number;      // summed over the events in one market group; 0 = no limit
     scanIntervalSeconds: number;
     marketCategories: string[];
+    uncertaintySource: UncertaintySource;
+    maxEnsembleSpread: number;  // skip forecasts whose members disagree more than this
+  };
+  forecaster: {
+    backend: ForecasterBackend;
+    model: string;
+    enableWebSearch: boolean;   // Claude backend only
+    openai: {
+      baseUrl: string;          // any OpenAI-compatible server (llama.cpp, vLLM, ...)
+      apiKey: string;
+    };
+    fixturePath?: string;       // fixture backend: JSON map or forecast JSONL
+    ensemble: {
+      samples: number;                  // runs per backend per market (1 = no resampling)
+      backends: ForecasterBackend[];    // empty = just `backend`
+      method: EnsembleMethod;
+      trimFraction: number;             // share trimmed from each end for trimmed_mean
+    };
+    dailyBudgetUsd: number;             // stop forecasting once today's spend hits this (0 = no cap)
+    rateLimit: {
+      concurrency: number;              // markets forecast in parallel
+      requestsPerMinute: number;        // starting limits; Claude adapts from response headers
+      inputTokensPerMinute: number;
+    };
+    cache: {
+      enabled: boolean;
+      ttlSeconds: number;               // reuse a forecast for at most this long
+      maxPriceMoveCents: number;        // re-forecast if the bid or ask moved more than this
+      expiryBufferHours: number;        // always re-forecast markets expiring this soon
+    };
+  };
+  context: {
+    enabled: boolean;
+    sources: ContextSourceName[];
+    tokenBudget: number;              // max context tokens per market prompt
+    newsDir: string;                  // text/markdown files and RSS/Atom dumps
+    newsMaxAgeHours: number;
+  };
+  news: {
+    enabled: boolean;                 // poll for news between cycles and re-forecast matches
+    feeds: string[];                  // RSS / Atom URLs; the drop directory is context.newsDir
+    pollSeconds: number;
+    minRelevance: number;             // min keyword relevance for a market match
+    maxMarketsPerItem: number;
+    maxItemAgeMinutes: number;        // older items are stored but never trigger a re-forecast
+  };
+  fees: FeeSchedule;
+  polymarket: {
+    gammaUrl: string;                 // market listings
+    clobUrl: string;                  // order books
+    takerFeeRate: number;             // most markets are fee-free
+    fixtureDir?: string;              // replay recorded responses instead of calling the API
+    recordDir?: string;               // save every live response here as a fixture
+  };
+  crossVenue: {
+    mappingsPath: string;             // curated Kalshi ↔ Polymarket mappings (JSON)
+    minMatchScore: number;            // title similarity for a fuzzy match to be queued
+    maxDateDiffDays: number;          // close dates further apart than this never match
+    minProfitCents: number;           // per pair, after both venues' fees
+  };
+  arbitrage: {
+    baskets: boolean;                 // look for event basket arbitrage every cycle
+    execute: boolean;                 // trade the baskets found, not just log them
+    minProfitCents: number;           // per basket, after fees
+    maxBasketUsd: number;             // cost of one coordinated basket order, fees included
+    exhaustiveEvents: string[];       // event/series tickers whose markets cover every outcome (YES baskets)
+  };
+  circuitBreaker: {
+    dailyLossLimitUsd: number;        // realized losses in one day that halt trading; 0 = off
+    maxTradesPerHour: number;         // entries per rolling hour; further edges wait
+    maxDrawdownPct: number;           // halt when equity falls this far below its peak (0.2 = 20%); 0 = off
+    timezone: string;                 // IANA zone whose midnight starts a new trading day
+    killSwitchPath: string;           // trips the kill switch while this file exists
+  };
+  exits: {
+    enabled: boolean;                 // re-evaluate held positions every cycle
+    minHoldEdge: number;              // sell when the model's edge over the bid (after fees) drops below this
+    takeProfitPct: number;            // sell when the bid is this far above cost (0.5 = +50%); 0 = off
+    stopLossPct: number;              // sell when the bid is this far below cost; 0 = off
+    hoursBeforeClose: number;         // sell this close to expiration; 0 = hold to settlement
+    scaleInEdgeIncrease: number;      // add to a position once its edge is this much above entry; 0 = off
+  };
+  execution: {
+    orderTtlSeconds: number;          // resting orders expire after this long
+    staleOrderAction: "cancel" | "reprice";
+    maxReprices: number;
+    maxPriceMoveCents: number;        // reject an order when its price moved more than this since the edge was priced
+    shadow: boolean;                  // live mode signs and logs orders instead of sending them
+    allowProdOrders: boolean;         // explicit opt-in to real-money orders on prod
+  };
+  storage: {
+    dataDir: string;        // local directory for forecasts, ledgers, snapshots
   };
-  forecaster?: {
-    enableWebSearch: boolean;
+  paper: {
+    startingBalanceUsd: number;
+    account: string;        // named ledger, so several strategies can run side by side
   };
   logLevel: string;
 }
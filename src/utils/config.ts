@@ -1,21 +1,102 @@
 import "dotenv/config";
-import type { AgentConfig } from "../types/index.js";
+import type {
+  AgentConfig,
+  ContextSourceName,
+  EnsembleMethod,
+  ForecasterBackend,
+  UncertaintySource,
+} from "../types/index.js";
+
+const FORECASTER_BACKENDS: ForecasterBackend[] = ["claude", "openai", "fixture"];
+const ENSEMBLE_METHODS: EnsembleMethod[] = ["mean", "median", "trimmed_mean", "log_odds"];
+const UNCERTAINTY_SOURCES: UncertaintySource[] = ["confidence", "spread", "both"];
+const CONTEXT_SOURCES: ContextSourceName[] = ["rules", "siblings", "price_history", "news"];
+
+export const DEFAULT_MODELS: Record<ForecasterBackend, string> = {
+  claude: "claude-sonnet-4-20250514",
+  openai: "default",
+  fixture: "fixture",
+};
+
+/**
+ * Load agent config from the environment.
+ * Offline tools (backtests, reports) pass `requireCredentials: false` so they
+ * can run without Kalshi API keys.
+ */
+export function loadConfig(options: { requireCredentials?: boolean } = {}): AgentConfig {
+  const requireCredentials = options.requireCredentials ?? true;
+
+  const backend = (process.env.FORECASTER_BACKEND ?? "claude") as ForecasterBackend;
+  if (!FORECASTER_BACKENDS.includes(backend)) {
+    throw new Error(`Invalid FORECASTER_BACKEND "${backend}" (expected ${FORECASTER_BACKENDS.join(", ")})`);
+  }
+  const ensembleBackends = (process.env.ENSEMBLE_BACKENDS ?? "")
+    .split(",")
+    .map((s) => s.trim())
+    .filter(Boolean) as ForecasterBackend[];
+  for (const b of ensembleBackends) {
+    if (!FORECASTER_BACKENDS.includes(b)) {
+      throw new Error(`Invalid ENSEMBLE_BACKENDS entry "${b}" (expected ${FORECASTER_BACKENDS.join(", ")})`);
+    }
+  }
+  const ensembleMethod = (process.env.ENSEMBLE_METHOD ?? "median") as EnsembleMethod;
+  if (!ENSEMBLE_METHODS.includes(ensembleMethod)) {
+    throw new Error(`Invalid ENSEMBLE_METHOD "${ensembleMethod}" (expected ${ENSEMBLE_METHODS.join(", ")})`);
+  }
+  const uncertaintySource = (process.env.UNCERTAINTY_SOURCE ?? "confidence") as UncertaintySource;
+  if (!UNCERTAINTY_SOURCES.includes(uncertaintySource)) {
+    throw new Error(`Invalid UNCERTAINTY_SOURCE "${uncertaintySource}" (expected ${UNCERTAINTY_SOURCES.join(", ")})`);
+  }
+
+  const contextSources = (process.env.CONTEXT_SOURCES ?? CONTEXT_SOURCES.join(","))
+    .split(",")
+    .map((s) => s.trim())
+    .filter(Boolean) as ContextSourceName[];
+  for (const source of contextSources) {
+    if (!CONTEXT_SOURCES.includes(source)) {
+      throw new Error(`Invalid CONTEXT_SOURCES entry "${source}" (expected ${CONTEXT_SOURCES.join(", ")})`);
+    }
+  }
+  const dataDir = process.env.DATA_DIR ?? "data";
+  const maxPortfolioExposureUsd = parseFloat(process.env.MAX_PORTFOLIO_EXPOSURE_USD ?? "500");
+  const breakerTimezone = process.env.BREAKER_TIMEZONE ?? "America/New_York";
+  try {
+    new Intl.DateTimeFormat("en-CA", { timeZone: breakerTimezone });
+  } catch {
+    throw new Error(`Invalid BREAKER_TIMEZONE "${breakerTimezone}" (expected an IANA zone such as America/New_York)`);
+  }
 
-export function loadConfig(): AgentConfig {
   const env = process.env.KALSHI_ENV ?? "demo";
 
+  // KALSHI_BASE_PATH overrides the host, e.g. to point at the local mock exchange
   const basePath =
-    env === "prod"
+    process.env.KALSHI_BASE_PATH ??
+    (env === "prod"
       ? "https://api.elections.kalshi.com/trade-api/v2"
-      : "https://demo-api.kalshi.co/trade-api/v2";
+      : "https://demo-api.kalshi.co/trade-api/v2");
+  // The WebSocket API lives next to REST: https://host/trade-api/v2 → wss://host/trade-api/ws/v2
+  const wsUrl =
+    process.env.KALSHI_WS_URL ??
+    basePath.replace(/^http/, "ws").replace(/\/trade-api\/v2\/?$/, "/trade-api/ws/v2");
+  const marketDataSource = process.env.MARKET_DATA_SOURCE ?? "rest";
+  if (marketDataSource !== "rest" && marketDataSource !== "websocket") {
+    throw new Error(`Invalid MARKET_DATA_SOURCE "${marketDataSource}" (expected rest or websocket)`);
+  }
 
   return {
     kalshi: {
-      apiKeyId: requireEnv("KALSHI_API_KEY_ID"),
+      apiKeyId: requireCredentials
+        ? requireEnv("KALSHI_API_KEY_ID")
+        : process.env.KALSHI_API_KEY_ID ?? "",
       privateKeyPath: process.env.KALSHI_PRIVATE_KEY_PATH,
       privateKeyPem: process.env.KALSHI_PRIVATE_KEY_PEM,
       environment: env as "prod" | "demo",
       basePath,
+      wsUrl,
+    },
+    marketData: {
+      source: marketDataSource,
+      refreshMinutes: parseFloat(process.env.MARKET_REFRESH_MINUTES ?? "30"),
     },
     anthropic: {
       apiKey: process.env.ANTHROPIC_API_KEY ?? "",
@@ -24,14 +105,113 @@ export function loadConfig(): AgentConfig {
       minEdgeThreshold: parseFloat(process.env.MIN_EDGE_THRESHOLD ?? "0.05"),
       kellyFraction: parseFloat(process.env.KELLY_FRACTION ?? "0.25"),
       maxPositionUsd: parseFloat(process.env.MAX_POSITION_USD ?? "50"),
-      maxPortfolioExposureUsd: parseFloat(process.env.MAX_PORTFOLIO_EXPOSURE_USD ?? "500"),
+      maxPortfolioExposureUsd,
+      maxEventLossUsd: parseFloat(process.env.MAX_EVENT_LOSS_USD ?? "100"),
+      maxGroupLossUsd: parseFloat(process.env.MAX_GROUP_LOSS_USD ?? "200"),
       scanIntervalSeconds: parseInt(process.env.SCAN_INTERVAL_SECONDS ?? "300", 10),
       marketCategories: (process.env.MARKET_CATEGORIES ?? "politics,economics,crypto")
         .split(",")
         .map((s) => s.trim()),
+      uncertaintySource,
+      maxEnsembleSpread: parseFloat(process.env.MAX_ENSEMBLE_SPREAD ?? "0.15"),
     },
     forecaster: {
+      backend,
+      model: process.env.FORECASTER_MODEL ?? DEFAULT_MODELS[backend],
       enableWebSearch: process.env.ENABLE_WEB_SEARCH === "true",
+      openai: {
+        baseUrl: process.env.OPENAI_BASE_URL ?? "http://localhost:8000/v1",
+        apiKey: process.env.OPENAI_API_KEY ?? "",
+      },
+      fixturePath: process.env.FORECAST_FIXTURE_PATH,
+      ensemble: {
+        samples: Math.max(1, parseInt(process.env.ENSEMBLE_SAMPLES ?? "1", 10)),
+        backends: ensembleBackends,
+        method: ensembleMethod,
+        trimFraction: parseFloat(process.env.ENSEMBLE_TRIM_FRACTION ?? "0.2"),
+      },
+      dailyBudgetUsd: parseFloat(process.env.LLM_DAILY_BUDGET_USD ?? "10"),
+      rateLimit: {
+        concurrency: Math.max(1, parseInt(process.env.FORECAST_CONCURRENCY ?? "4", 10)),
+        requestsPerMinute: parseInt(process.env.LLM_REQUESTS_PER_MINUTE ?? "50", 10),
+        inputTokensPerMinute: parseInt(process.env.LLM_INPUT_TOKENS_PER_MINUTE ?? "30000", 10),
+      },
+      cache: {
+        enabled: process.env.FORECAST_CACHE !== "false",
+        ttlSeconds: parseInt(process.env.FORECAST_CACHE_TTL_SECONDS ?? "3600", 10),
+        maxPriceMoveCents: parseFloat(process.env.FORECAST_CACHE_MAX_PRICE_MOVE ?? "5"),
+        expiryBufferHours: parseFloat(process.env.FORECAST_CACHE_EXPIRY_BUFFER_HOURS ?? "24"),
+      },
+    },
+    context: {
+      enabled: process.env.CONTEXT_ENABLED !== "false",
+      sources: contextSources,
+      tokenBudget: parseInt(process.env.CONTEXT_TOKEN_BUDGET ?? "1500", 10),
+      newsDir: process.env.CONTEXT_NEWS_DIR ?? `${dataDir}/news`,
+      newsMaxAgeHours: parseFloat(process.env.CONTEXT_NEWS_MAX_AGE_HOURS ?? "72"),
+    },
+    news: {
+      enabled: process.env.NEWS_ENABLED !== "false",
+      feeds: (process.env.NEWS_FEEDS ?? "").split(",").map((s) => s.trim()).filter(Boolean),
+      pollSeconds: parseInt(process.env.NEWS_POLL_SECONDS ?? "60", 10),
+      minRelevance: parseFloat(process.env.NEWS_MIN_RELEVANCE ?? "0.4"),
+      maxMarketsPerItem: parseInt(process.env.NEWS_MAX_MARKETS_PER_ITEM ?? "3", 10),
+      maxItemAgeMinutes: parseFloat(process.env.NEWS_MAX_ITEM_AGE_MINUTES ?? "120"),
+    },
+    fees: {
+      takerRate: parseFloat(process.env.FEE_TAKER_RATE ?? "0.07"),
+      makerRate: parseFloat(process.env.FEE_MAKER_RATE ?? "0.0175"),
+    },
+    polymarket: {
+      gammaUrl: process.env.POLYMARKET_GAMMA_URL ?? "https://gamma-api.polymarket.com",
+      clobUrl: process.env.POLYMARKET_CLOB_URL ?? "https://clob.polymarket.com",
+      takerFeeRate: parseFloat(process.env.POLYMARKET_TAKER_FEE_RATE ?? "0"),
+      fixtureDir: process.env.POLYMARKET_FIXTURE_DIR || undefined,
+      recordDir: process.env.POLYMARKET_RECORD_DIR || undefined,
+    },
+    crossVenue: {
+      mappingsPath: process.env.CROSS_VENUE_MAPPINGS ?? `${dataDir}/venue-mappings.json`,
+      minMatchScore: parseFloat(process.env.CROSS_VENUE_MIN_MATCH_SCORE ?? "0.5"),
+      maxDateDiffDays: parseFloat(process.env.CROSS_VENUE_MAX_DATE_DIFF_DAYS ?? "3"),
+      minProfitCents: parseFloat(process.env.CROSS_VENUE_MIN_PROFIT_CENTS ?? "1"),
+    },
+    arbitrage: {
+      baskets: process.env.ARB_BASKETS !== "false",
+      execute: process.env.ARB_EXECUTE === "true",
+      minProfitCents: parseFloat(process.env.ARB_MIN_PROFIT_CENTS ?? "1"),
+      maxBasketUsd: parseFloat(process.env.ARB_MAX_BASKET_USD ?? "100"),
+      exhaustiveEvents: (process.env.ARB_EXHAUSTIVE_EVENTS ?? "").split(",").map((s) => s.trim()).filter(Boolean),
+    },
+    circuitBreaker: {
+      // Defaults to 10% of max exposure
+      dailyLossLimitUsd: parseFloat(process.env.DAILY_LOSS_LIMIT_USD ?? String(maxPortfolioExposureUsd * 0.1)),
+      maxTradesPerHour: parseInt(process.env.MAX_TRADES_PER_HOUR ?? "20", 10),
+      maxDrawdownPct: parseFloat(process.env.MAX_DRAWDOWN_PCT ?? "0.2"),
+      timezone: breakerTimezone,
+      killSwitchPath: process.env.KILL_SWITCH_FILE ?? `${dataDir}/KILL`,
+    },
+    exits: {
+      enabled: process.env.EXIT_ENABLED !== "false",
+      minHoldEdge: parseFloat(process.env.EXIT_MIN_HOLD_EDGE ?? "0"),
+      takeProfitPct: parseFloat(process.env.EXIT_TAKE_PROFIT_PCT ?? "0"),
+      stopLossPct: parseFloat(process.env.EXIT_STOP_LOSS_PCT ?? "0"),
+      hoursBeforeClose: parseFloat(process.env.EXIT_HOURS_BEFORE_CLOSE ?? "0"),
+      scaleInEdgeIncrease: parseFloat(process.env.SCALE_IN_EDGE_INCREASE ?? "0.05"),
+    },
+    execution: {
+      orderTtlSeconds: parseInt(process.env.ORDER_TTL_SECONDS ?? "600", 10),
+      staleOrderAction: process.env.STALE_ORDER_ACTION === "reprice" ? "reprice" : "cancel",
+      maxReprices: parseInt(process.env.MAX_REPRICES ?? "2", 10),
+      maxPriceMoveCents: parseFloat(process.env.ORDER_MAX_PRICE_MOVE_CENTS ?? "2"),
+      shadow: process.env.SHADOW_LIVE === "true",
+      allowProdOrders: process.env.ALLOW_PROD_ORDERS === "true",
+    },
+    storage: {
+      dataDir,
+    },
+    paper: {
+      startingBalanceUsd: parseFloat(process.env.PAPER_STARTING_BALANCE ?? "1000"),
+      account: process.env.PAPER_ACCOUNT ?? "default",
     },
     logLevel: process.env.LOG_LEVEL ?? "info",
   };
@@ -0,0 +1,67 @@
+// ============================================================
+// Feed parser — Minimal RSS 2.0 / Atom parsing into NewsItems
+// ============================================================
+
+import type { NewsItem } from "../types/index.js";
+
+/**
+ * Parse an RSS or Atom document. Deliberately forgiving: pulls <item> /
+ * <entry> blocks with regexes rather than validating the XML.
+ */
+export function parseFeed(xml: string, source: string): NewsItem[] {
+  const blocks = [
+    ...matchAll(xml, /<item\b[^>]*>([\s\S]*?)<\/item>/gi),
+    ...matchAll(xml, /<entry\b[^>]*>([\s\S]*?)<\/entry>/gi),
+  ];
+
+  const items: NewsItem[] = [];
+  for (const block of blocks) {
+    const title = textOf(block, "title");
+    if (!title) continue;
+
+    // RSS: <link>url</link>; Atom: <link href="url"/>
+    const url = textOf(block, "link") || block.match(/<link\b[^>]*href="([^"]+)"/i)?.[1];
+    const summary = textOf(block, "description") || textOf(block, "summary") || textOf(block, "content");
+    const published = textOf(block, "pubDate") || textOf(block, "published") || textOf(block, "updated");
+    const publishedMs = published ? Date.parse(published) : NaN;
+
+    items.push({
+      id: textOf(block, "guid") || textOf(block, "id") || url || `${source}#${title}`,
+      title,
+      summary,
+      url: url || undefined,
+      publishedAt: Number.isNaN(publishedMs) ? undefined : new Date(publishedMs).toISOString(),
+      source,
+    });
+  }
+  return items;
+}
+
+/** Strip tags and decode the handful of entities feeds actually use */
+export function stripHtml(html: string): string {
+  return html
+    .replace(/<[^>]+>/g, " ")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&amp;/g, "&")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+// --- Helpers ---
+
+function matchAll(text: string, pattern: RegExp): string[] {
+  return [...text.matchAll(pattern)].map((m) => m[1]);
+}
+
+function textOf(block: string, tag: string): string {
+  const m = block.match(new RegExp(`<${tag}\\b[^>]*>([\\s\\S]*?)</${tag}>`, "i"));
+  if (!m) return "";
+  const cdata = m[1].match(/^\s*<!\[CDATA\[([\s\S]*?)\]\]>\s*$/);
+  // Entity-escaped HTML inside RSS descriptions needs decoding before stripping
+  return stripHtml(stripHtml(cdata ? cdata[1] : m[1]));
+}
@@ -0,0 +1,26 @@
+// ============================================================
+// JSONL helpers — append-only local storage for records
+// ============================================================
+
+import fs from "node:fs";
+import path from "node:path";
+
+/** Read a JSONL file (or a plain JSON array) into records. Missing file → [] */
+export function readJsonl<T>(filePath: string): T[] {
+  if (!fs.existsSync(filePath)) return [];
+
+  const text = fs.readFileSync(filePath, "utf8").trim();
+  if (!text) return [];
+  if (text.startsWith("[")) return JSON.parse(text) as T[];
+
+  return text
+    .split("\n")
+    .filter((line) => line.trim())
+    .map((line) => JSON.parse(line) as T);
+}
+
+/** Append one record as a JSON line, creating parent directories as needed */
+export function appendJsonl(filePath: string, record: unknown): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.appendFileSync(filePath, JSON.stringify(record) + "\n");
+}
@@ -0,0 +1,85 @@
+// ============================================================
+// Text matching — Keyword overlap between markets and documents
+// ============================================================
+
+import type { KalshiMarket } from "../types/index.js";
+
+const STOPWORDS = new Set([
+  "the", "and", "for", "will", "with", "than", "that", "this", "from", "are", "was", "were",
+  "be", "by", "on", "in", "of", "to", "at", "or", "an", "a", "is", "it", "as", "its",
+  "before", "after", "above", "below", "between", "more", "less", "any", "all", "have",
+  "has", "who", "what", "when", "which", "how", "over", "under", "into", "about", "end",
+  "market", "yes", "no", "contract", "resolve", "resolves",
+]);
+
+/** Lowercased content words (and numbers) from free text */
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z0-9][a-z0-9.%'-]*[a-z0-9%]|[a-z0-9]/g) ?? [])
+    .map((t) => t.replace(/'s$/, ""))
+    .filter((t) => !STOPWORDS.has(t) && (t.length >= 3 || /^\d+$/.test(t)));
+}
+
+/** The terms a document must mention to be about this market */
+export function marketTerms(market: KalshiMarket): Set<string> {
+  return new Set(tokenize(`${market.title} ${market.subtitle ?? ""}`));
+}
+
+/**
+ * Share of the market's terms that appear in the text (0–1). Requires at
+ * least two distinct matches so a single common word can't make a hit.
+ */
+export function relevance(terms: Set<string>, text: string): number {
+  if (terms.size === 0) return 0;
+  const docTerms = new Set(tokenize(text));
+  let hits = 0;
+  for (const term of terms) {
+    if (docTerms.has(term)) hits++;
+  }
+  return hits >= Math.min(2, terms.size) ? hits / terms.size : 0;
+}
+
+/** Capitalized but not names */
+const CALENDAR_WORDS = new Set([
+  "january", "february", "march", "april", "may", "june", "july", "august", "september",
+  "october", "november", "december", "monday", "tuesday", "wednesday", "thursday", "friday",
+  "saturday", "sunday",
+]);
+
+/**
+ * Named things the market is about: capitalized phrases in the title
+ * ("Federal Reserve", "Bitcoin"), multi-word names in the subtitle (which is
+ * often just an outcome label like "Cut"), and the event series from
+ * `eventTicker` ("KXBTCD-25DEC31" → "btcd"). Lowercased.
+ */
+export function marketEntities(market: KalshiMarket): Set<string> {
+  const entities = new Set<string>();
+  const add = (text: string, minWords: number) => {
+    for (const phrase of text.match(/\b[A-Z][\w.&'-]*(?:\s+(?:of\s+)?[A-Z][\w.&'-]*)*/g) ?? []) {
+      const words = phrase
+        .toLowerCase()
+        .replace(/'s\b/g, "")
+        .split(/\s+/)
+        .filter((w) => !STOPWORDS.has(w) && !CALENDAR_WORDS.has(w));
+      const entity = words.join(" ");
+      if (words.length >= minWords && entity.length >= 3) entities.add(entity);
+    }
+  };
+  add(market.title, 1);
+  add(market.subtitle ?? "", 2);
+
+  const series = market.eventTicker.split("-")[0].toLowerCase().replace(/^kx/, "");
+  if (series.length >= 3) entities.add(series);
+  return entities;
+}
+
+/** Entities mentioned in the text as whole words */
+export function matchedEntities(entities: Set<string>, text: string): string[] {
+  const lower = text.toLowerCase();
+  return [...entities].filter((entity) =>
+    new RegExp(`(^|[^a-z0-9])${escapeRegExp(entity)}([^a-z0-9]|$)`).test(lower)
+  );
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
@@ -0,0 +1,297 @@
+// ============================================================
+// Contract Matcher — Pair up the same contract across venues
+// ============================================================
+
+import crypto from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+import type { AgentConfig, MatchCandidate, MatchedPair, VenueMapping, VenueMarket } from "../types/index.js";
+import type { Logger } from "../utils/logger.js";
+import { tokenize } from "../utils/text-match.js";
+import { invertMarket } from "./venue-market.js";
+
+const DAY_MS = 86_400_000;
+
+/** Kalshi–Polymarket pairs found in one pass */
+export interface MatchResult {
+  confirmed: MatchedPair[];     // curated or approved mappings with both markets listed
+  pending: MatchedPair[];       // fuzzy matches awaiting review
+}
+
+/**
+ * Decides which Kalshi and Polymarket contracts resolve on the same event.
+ *
+ * Curated mappings (`crossVenue.mappingsPath`) are trusted as written,
+ * including inverted pairs where one venue's YES is the other's NO. Every
+ * other Kalshi market is matched by title similarity and close date; the
+ * best match above `minMatchScore` goes into a review queue, never straight
+ * into trading. Approving a match appends it to the mappings file; a
+ * rejected match is remembered and not proposed again.
+ */
+export class ContractMatcher {
+  private mappingsPath: string;
+  private reviewPath: string;
+  private minScore: number;
+  private maxDateDiffDays: number;
+  private logger: Logger;
+
+  constructor(config: AgentConfig, logger: Logger) {
+    this.mappingsPath = config.crossVenue.mappingsPath;
+    this.reviewPath = path.join(config.storage.dataDir, "venue-review.json");
+    this.minScore = config.crossVenue.minMatchScore;
+    this.maxDateDiffDays = config.crossVenue.maxDateDiffDays;
+    this.logger = logger;
+  }
+
+  match(kalshi: VenueMarket[], polymarket: VenueMarket[]): MatchResult {
+    const kalshiById = new Map(kalshi.map((m) => [m.id, m]));
+    const polyById = new Map<string, VenueMarket>();
+    for (const m of polymarket) {
+      polyById.set(m.id, m);
+      if (m.slug) polyById.set(m.slug, m);
+    }
+
+    // Curated first: these markets are spoken for
+    const confirmed: MatchedPair[] = [];
+    const mappedKalshi = new Set<string>();
+    const mappedPoly = new Set<string>();
+    for (const mapping of this.loadMappings()) {
+      const k = kalshiById.get(mapping.kalshi);
+      const p = polyById.get(mapping.polymarket);
+      if (!k || !p) continue;
+      mappedKalshi.add(k.id);
+      mappedPoly.add(p.id);
+      const inverted = mapping.inverted === true;
+      confirmed.push({ kalshi: k, polymarket: inverted ? invertMarket(p) : p, inverted, reviewed: true });
+    }
+
+    // Fuzzy matches for the rest, queued for review
+    const queue = this.loadQueue();
+    const byId = new Map(queue.map((c) => [c.id, c]));
+    const index = new TitleIndex(polymarket.filter((m) => !mappedPoly.has(m.id)));
+    let proposed = 0;
+
+    for (const k of kalshi) {
+      if (mappedKalshi.has(k.id)) continue;
+      const best = index.best(k, this.maxDateDiffDays);
+      if (!best || best.score < this.minScore) continue;
+
+      const id = candidateId(k.id, best.market.id);
+      const existing = byId.get(id);
+      if (existing) {
+        // Approved-then-unmapped and rejected pairs stay decided
+        if (existing.status === "pending") {
+          existing.score = best.score;
+          existing.dateDiffDays = best.dateDiffDays;
+        }
+        continue;
+      }
+      const candidate: MatchCandidate = {
+        id,
+        kalshi: k.id,
+        polymarket: best.market.id,
+        kalshiTitle: k.title,
+        polymarketTitle: best.market.title,
+        score: best.score,
+        dateDiffDays: best.dateDiffDays,
+        status: "pending",
+        proposedAt: new Date().toISOString(),
+      };
+      queue.push(candidate);
+      byId.set(id, candidate);
+      proposed++;
+    }
+    if (proposed > 0) this.logger.info(`Queued ${proposed} new cross-venue matches for review`);
+    this.saveQueue(queue);
+
+    const pending: MatchedPair[] = [];
+    for (const c of queue) {
+      if (c.status !== "pending" || mappedKalshi.has(c.kalshi) || mappedPoly.has(c.polymarket)) continue;
+      const k = kalshiById.get(c.kalshi);
+      const p = polyById.get(c.polymarket);
+      if (k && p) pending.push({ kalshi: k, polymarket: p, inverted: false, reviewed: false, candidateId: c.id });
+    }
+
+    return { confirmed, pending };
+  }
+
+  // --- Review queue ---
+
+  /** Queued matches, optionally only those with `status` */
+  getQueue(status?: MatchCandidate["status"]): MatchCandidate[] {
+    const queue = this.loadQueue();
+    return status ? queue.filter((c) => c.status === status) : queue;
+  }
+
+  /** Confirm a queued match and add it to the curated mappings */
+  approve(id: string, inverted = false, note?: string): VenueMapping {
+    const queue = this.loadQueue();
+    const candidate = queue.find((c) => c.id === id);
+    if (!candidate) throw new Error(`No queued match with id "${id}"`);
+
+    const mapping: VenueMapping = { kalshi: candidate.kalshi, polymarket: candidate.polymarket };
+    if (inverted) mapping.inverted = true;
+    mapping.note = note ?? `${candidate.kalshiTitle} ↔ ${candidate.polymarketTitle}`;
+
+    const mappings = this.loadMappings().filter(
+      (m) => !(m.kalshi === mapping.kalshi && m.polymarket === mapping.polymarket)
+    );
+    writeJsonAtomic(this.mappingsPath, [...mappings, mapping]);
+    candidate.status = "approved";
+    this.saveQueue(queue);
+    return mapping;
+  }
+
+  /** Mark a queued match as wrong so it is never proposed again */
+  reject(id: string): MatchCandidate {
+    const queue = this.loadQueue();
+    const candidate = queue.find((c) => c.id === id);
+    if (!candidate) throw new Error(`No queued match with id "${id}"`);
+    candidate.status = "rejected";
+    this.saveQueue(queue);
+    return candidate;
+  }
+
+  // --- Persistence ---
+
+  private loadMappings(): VenueMapping[] {
+    if (!fs.existsSync(this.mappingsPath)) return [];
+    try {
+      const raw = JSON.parse(fs.readFileSync(this.mappingsPath, "utf-8"));
+      return Array.isArray(raw) ? raw : [];
+    } catch (err) {
+      throw new Error(`Could not read venue mappings at ${this.mappingsPath}: ${err}`);
+    }
+  }
+
+  private loadQueue(): MatchCandidate[] {
+    if (!fs.existsSync(this.reviewPath)) return [];
+    try {
+      return JSON.parse(fs.readFileSync(this.reviewPath, "utf-8"));
+    } catch (err) {
+      this.logger.warn(`Could not read review queue at ${this.reviewPath}: ${err}; starting empty`);
+      return [];
+    }
+  }
+
+  private saveQueue(queue: MatchCandidate[]): void {
+    writeJsonAtomic(this.reviewPath, queue);
+  }
+}
+
+// --- Fuzzy matching ---
+
+interface ScoredMatch {
+  market: VenueMarket;
+  score: number;
+  dateDiffDays: number;
+}
+
+/** Inverted index over Polymarket titles for Dice-coefficient lookups */
+class TitleIndex {
+  private markets: VenueMarket[];
+  private terms: Set<string>[];
+  private thresholds: Set<string>[];
+  private postings = new Map<string, number[]>();
+
+  constructor(markets: VenueMarket[]) {
+    this.markets = markets;
+    this.terms = markets.map((m) => titleTerms(m.title));
+    this.thresholds = markets.map((m) => thresholds(m.title));
+    this.terms.forEach((terms, i) => {
+      for (const term of terms) {
+        const list = this.postings.get(term);
+        if (list) list.push(i);
+        else this.postings.set(term, [i]);
+      }
+    });
+  }
+
+  /** Most similar market closing within `maxDateDiffDays` whose numeric thresholds agree */
+  best(market: VenueMarket, maxDateDiffDays: number): ScoredMatch | null {
+    const terms = titleTerms(market.title);
+    const levels = thresholds(market.title);
+    const shared = new Map<number, number>();
+    for (const term of terms) {
+      for (const i of this.postings.get(term) ?? []) shared.set(i, (shared.get(i) ?? 0) + 1);
+    }
+
+    let best: ScoredMatch | null = null;
+    for (const [i, overlap] of shared) {
+      const score = (2 * overlap) / (terms.size + this.terms[i].size);
+      if (best && score <= best.score) continue;
+      // "Above $100k" and "above $120k" share every word but are different contracts
+      if (levels.size > 0 && this.thresholds[i].size > 0 && !sameSet(levels, this.thresholds[i])) continue;
+      const dateDiffDays = Math.abs(Date.parse(market.closeTime) - Date.parse(this.markets[i].closeTime)) / DAY_MS;
+      if (!(dateDiffDays <= maxDateDiffDays)) continue;
+      best = { market: this.markets[i], score, dateDiffDays };
+    }
+    return best;
+  }
+}
+
+/** Title words for similarity, with numbers written one way ("$100,000" and "100k" → "100000") */
+function titleTerms(title: string): Set<string> {
+  return new Set(tokenize(normalizeNumbers(title)).map((t) => t.replace(/[.%]+$/, "")));
+}
+
+/** Prices and rates a contract is struck at: dollar amounts, percentages and k/m/b figures */
+function thresholds(title: string): Set<string> {
+  const found = new Set<string>();
+  const pattern = /(\$\s?)?(\d+(?:\.\d+)?)\s?(%|k\b|m\b|b\b|bn\b|thousand|million|billion)?/gi;
+  for (const match of normalizeCommas(title).matchAll(pattern)) {
+    const [, dollar, digits, suffix] = match;
+    if (!dollar && !suffix) continue;
+    const unit = suffix?.toLowerCase();
+    if (unit === "%") {
+      found.add(`${parseFloat(digits)}%`);
+    } else {
+      found.add(String(parseFloat(digits) * multiplier(unit)));
+    }
+  }
+  return found;
+}
+
+function normalizeNumbers(title: string): string {
+  return normalizeCommas(title).replace(
+    /\$?(\d+(?:\.\d+)?)\s?(k|m|b|bn|thousand|million|billion)\b/gi,
+    (_, digits: string, unit: string) => String(parseFloat(digits) * multiplier(unit.toLowerCase()))
+  );
+}
+
+function normalizeCommas(title: string): string {
+  return title.replace(/(\d),(?=\d{3}\b)/g, "$1");
+}
+
+function multiplier(unit?: string): number {
+  switch (unit) {
+    case "k":
+    case "thousand":
+      return 1e3;
+    case "m":
+    case "million":
+      return 1e6;
+    case "b":
+    case "bn":
+    case "billion":
+      return 1e9;
+    default:
+      return 1;
+  }
+}
+
+function sameSet(a: Set<string>, b: Set<string>): boolean {
+  return a.size === b.size && [...a].every((x) => b.has(x));
+}
+
+/** Stable id for a pair, short enough to type on the command line */
+function candidateId(kalshi: string, polymarket: string): string {
+  return crypto.createHash("sha256").update(`${kalshi}|${polymarket}`).digest("hex").slice(0, 8);
+}
+
+function writeJsonAtomic(filePath: string, value: unknown): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  const tmpPath = `${filePath}.tmp`;
+  fs.writeFileSync(tmpPath, JSON.stringify(value, null, 2));
+  fs.renameSync(tmpPath, filePath);
+}
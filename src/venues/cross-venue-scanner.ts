@@ -0,0 +1,181 @@
+// ============================================================
+// Cross-Venue Scanner — Price divergence between Kalshi and Polymarket
+// ============================================================
+
+import type { AgentConfig, CrossVenueEdge, MatchedPair, OrderBook, Venue, VenueMarket } from "../types/index.js";
+import type { Logger } from "../utils/logger.js";
+import type { KalshiClient } from "../api/kalshi-client.js";
+import type { PolymarketClient } from "./polymarket-client.js";
+import type { ContractMatcher } from "./contract-matcher.js";
+import { askLevels } from "../risk/book-depth.js";
+import { feePerContract, polymarketFeeCents } from "../risk/fees.js";
+import { fromKalshiMarket, invertBook, yesMid } from "./venue-market.js";
+
+/** Everything one scan found */
+export interface CrossVenueReport {
+  kalshiMarkets: number;
+  polymarketMarkets: number;
+  edges: CrossVenueEdge[];      // reviewed pairs, priced off both order books
+  pending: CrossVenueEdge[];    // unreviewed fuzzy matches, priced off quotes only
+  minProfitCents: number;
+}
+
+/**
+ * Compares matched contracts across venues. Buying YES on one venue and NO
+ * on the other pays $1 whichever way the event goes, so the pair locks in
+ * a profit when both asks plus both venues' taker fees are under 100¢.
+ * Short of that, the mid-price divergence is a cheap signal that one venue
+ * is mispriced — no LLM forecast needed.
+ *
+ * Only reviewed pairs get their books fetched; pending matches are priced
+ * from listed quotes so a reviewer can see what approving them is worth.
+ */
+export class CrossVenueScanner {
+  private kalshi: KalshiClient;
+  private polymarket: PolymarketClient;
+  private matcher: ContractMatcher;
+  private kalshiTakerRate: number;
+  private polymarketTakerRate: number;
+  private minProfitCents: number;
+  private logger: Logger;
+
+  constructor(
+    kalshi: KalshiClient,
+    polymarket: PolymarketClient,
+    matcher: ContractMatcher,
+    config: AgentConfig,
+    logger: Logger
+  ) {
+    this.kalshi = kalshi;
+    this.polymarket = polymarket;
+    this.matcher = matcher;
+    this.kalshiTakerRate = config.fees.takerRate;
+    this.polymarketTakerRate = config.polymarket.takerFeeRate;
+    this.minProfitCents = config.crossVenue.minProfitCents;
+    this.logger = logger;
+  }
+
+  async scan(): Promise<CrossVenueReport> {
+    const [kalshiListed, polymarket] = await Promise.all([
+      this.kalshi.getAllOpenMarkets(),
+      this.polymarket.getActiveMarkets(),
+    ]);
+    const kalshi = kalshiListed
+      .filter((m) => m.status === "open" && (m.yesAsk > 0 || m.yesBid > 0))
+      .map(fromKalshiMarket);
+    this.logger.info(`Cross-venue: ${kalshi.length} quoted Kalshi markets, ${polymarket.length} Polymarket markets`);
+
+    const { confirmed, pending } = this.matcher.match(kalshi, polymarket);
+    this.logger.info(`Cross-venue: ${confirmed.length} reviewed pairs, ${pending.length} pending review`);
+
+    const edges: CrossVenueEdge[] = [];
+    for (const pair of confirmed) {
+      try {
+        const edge = await this.priceFromBooks(pair);
+        if (edge) edges.push(edge);
+      } catch (err) {
+        this.logger.warn(`Could not price ${pair.kalshi.id} ↔ ${pair.polymarket.id}: ${err}`);
+      }
+    }
+
+    const quoted = pending
+      .map((pair) => this.price(pair, quoteLevels(pair.kalshi), quoteLevels(pair.polymarket)))
+      .filter((e): e is CrossVenueEdge => e !== null);
+
+    return {
+      kalshiMarkets: kalshi.length,
+      polymarketMarkets: polymarket.length,
+      edges: edges.sort(byOpportunity),
+      pending: quoted.sort(byOpportunity),
+      minProfitCents: this.minProfitCents,
+    };
+  }
+
+  /** True when the pair locks in at least `minProfitCents` after fees */
+  isArbitrage(edge: CrossVenueEdge): boolean {
+    return edge.contracts > 0 && edge.profitCents >= this.minProfitCents;
+  }
+
+  private async priceFromBooks(pair: MatchedPair): Promise<CrossVenueEdge | null> {
+    if (!pair.polymarket.yesTokenId) return null;
+    const [kalshiBook, polyRaw] = await Promise.all([
+      this.kalshi.getOrderBook(pair.kalshi.id),
+      this.polymarket.getOrderBook(pair.polymarket.yesTokenId),
+    ]);
+    const polyBook = pair.inverted ? invertBook(polyRaw) : polyRaw;
+    return this.price(pair, bookLevels(kalshiBook), bookLevels(polyBook));
+  }
+
+  /** Both directions at the top of each book; keeps the better one */
+  private price(pair: MatchedPair, kalshi: TopOfBook, polymarket: TopOfBook): CrossVenueEdge | null {
+    const kalshiMid = yesMid(pair.kalshi);
+    const polyMid = yesMid(pair.polymarket);
+
+    const directions = [
+      this.direction("kalshi", kalshi.yes, polymarket.no),
+      this.direction("polymarket", polymarket.yes, kalshi.no),
+    ].filter((d): d is Direction => d !== null);
+    if (directions.length === 0) return null;
+    const best = directions.reduce((a, b) => (b.profitCents > a.profitCents ? b : a));
+
+    return {
+      pair,
+      midDivergence: kalshiMid !== null && polyMid !== null ? kalshiMid - polyMid : 0,
+      ...best,
+    };
+  }
+
+  private direction(buyYesOn: Venue, yes?: Level, no?: Level): Direction | null {
+    if (!yes || !no) return null;
+    const [kalshiPrice, polyPrice] = buyYesOn === "kalshi" ? [yes.price, no.price] : [no.price, yes.price];
+    const feesCents =
+      feePerContract(kalshiPrice, this.kalshiTakerRate) + polymarketFeeCents(1, polyPrice, this.polymarketTakerRate);
+    return {
+      buyYesOn,
+      yesAsk: yes.price,
+      noAsk: no.price,
+      feesCents,
+      profitCents: 100 - yes.price - no.price - feesCents,
+      // Kalshi trades whole contracts; Polymarket sizes can be fractional
+      contracts: Math.floor(Math.min(yes.quantity, no.quantity)),
+    };
+  }
+}
+
+/** One-line description for logs and reports */
+export function describeCrossVenueEdge(edge: CrossVenueEdge): string {
+  const noVenue = edge.buyYesOn === "kalshi" ? "polymarket" : "kalshi";
+  return (
+    `YES on ${edge.buyYesOn} @ ${edge.yesAsk.toFixed(1)}¢ + NO on ${noVenue} @ ${edge.noAsk.toFixed(1)}¢ ` +
+    `+ ${edge.feesCents.toFixed(2)}¢ fees → ${edge.profitCents >= 0 ? "+" : ""}${edge.profitCents.toFixed(2)}¢ per pair` +
+    (edge.contracts > 0 ? ` (${edge.contracts} available)` : "")
+  );
+}
+
+// --- Helpers ---
+
+interface Level {
+  price: number;
+  quantity: number;
+}
+
+interface TopOfBook {
+  yes?: Level;
+  no?: Level;
+}
+
+type Direction = Pick<CrossVenueEdge, "buyYesOn" | "yesAsk" | "noAsk" | "feesCents" | "profitCents" | "contracts">;
+
+function bookLevels(book: OrderBook): TopOfBook {
+  return { yes: askLevels(book, "yes")[0], no: askLevels(book, "no")[0] };
+}
+
+/** Listed quotes carry no size; report them as zero contracts available */
+function quoteLevels(market: VenueMarket): TopOfBook {
+  const level = (price: number) => (price > 0 && price < 100 ? { price, quantity: 0 } : undefined);
+  return { yes: level(market.yesAsk), no: level(market.noAsk) };
+}
+
+function byOpportunity(a: CrossVenueEdge, b: CrossVenueEdge): number {
+  return b.profitCents - a.profitCents || Math.abs(b.midDivergence) - Math.abs(a.midDivergence);
+}
@@ -0,0 +1,140 @@
+// ============================================================
+// Polymarket Client — Public Gamma (markets) and CLOB (books) APIs
+// ============================================================
+
+import fs from "node:fs";
+import path from "node:path";
+import type { AgentConfig, OrderBook, VenueMarket } from "../types/index.js";
+import type { Logger } from "../utils/logger.js";
+
+const PAGE_SIZE = 500;
+const MAX_PAGES = 40;
+const FETCH_TIMEOUT_MS = 15_000;
+
+/**
+ * Read-only Polymarket client. Neither endpoint needs authentication.
+ *
+ * With `polymarket.fixtureDir` set, every response is read from recorded
+ * files instead of the network (`gamma-markets-<offset>.json`,
+ * `clob-book-<tokenId>.json`); with `polymarket.recordDir` set, live
+ * responses are saved under the same names for later replay.
+ */
+export class PolymarketClient {
+  private gammaUrl: string;
+  private clobUrl: string;
+  private fixtureDir?: string;
+  private recordDir?: string;
+  private logger: Logger;
+
+  constructor(config: AgentConfig, logger: Logger) {
+    this.gammaUrl = config.polymarket.gammaUrl.replace(/\/$/, "");
+    this.clobUrl = config.polymarket.clobUrl.replace(/\/$/, "");
+    this.fixtureDir = config.polymarket.fixtureDir;
+    this.recordDir = config.polymarket.recordDir;
+    this.logger = logger;
+  }
+
+  /** Every active binary (Yes/No) market with an order book */
+  async getActiveMarkets(): Promise<VenueMarket[]> {
+    const markets: VenueMarket[] = [];
+
+    for (let page = 0; page < MAX_PAGES; page++) {
+      const offset = page * PAGE_SIZE;
+      const raw = await this.get<any[]>(
+        `${this.gammaUrl}/markets?active=true&closed=false&limit=${PAGE_SIZE}&offset=${offset}`,
+        `gamma-markets-${offset}.json`
+      );
+      const mapped = (raw ?? []).map(mapMarket).filter((m): m is VenueMarket => m !== null);
+      markets.push(...mapped);
+      this.logger.debug(`Fetched ${raw?.length ?? 0} Polymarket markets (${markets.length} binary so far)`);
+      if (!raw || raw.length < PAGE_SIZE) break;
+    }
+
+    return markets;
+  }
+
+  /**
+   * Order book for a market's YES token, in Kalshi's shape: bids per side in
+   * cents, best first. Polymarket's YES asks are NO bids at 100 − price.
+   */
+  async getOrderBook(yesTokenId: string): Promise<OrderBook> {
+    const raw = await this.get<any>(`${this.clobUrl}/book?token_id=${yesTokenId}`, `clob-book-${yesTokenId}.json`);
+    const levels = (side: Array<{ price: string; size: string }> | undefined, invert: boolean) =>
+      (side ?? [])
+        .map((l) => {
+          const cents = parseFloat(l.price) * 100;
+          return { price: invert ? 100 - cents : cents, quantity: parseFloat(l.size) };
+        })
+        .filter((l) => l.quantity > 0 && l.price > 0 && l.price < 100)
+        .sort((a, b) => b.price - a.price);
+    return {
+      yes: levels(raw?.bids, false),
+      no: levels(raw?.asks, true),
+    };
+  }
+
+  // --- Transport ---
+
+  private async get<T>(url: string, fixtureName: string): Promise<T> {
+    if (this.fixtureDir) {
+      const file = path.join(this.fixtureDir, fixtureName);
+      // A page or book that was never recorded is empty, like the end of a listing
+      if (!fs.existsSync(file)) {
+        this.logger.debug(`Polymarket fixture ${file} not found; treating as empty`);
+        return (fixtureName.startsWith("gamma-") ? [] : {}) as T;
+      }
+      return JSON.parse(fs.readFileSync(file, "utf-8")) as T;
+    }
+
+    this.logger.debug(`Polymarket GET ${url}`);
+    const response = await fetch(url, { signal: AbortSignal.timeout(FETCH_TIMEOUT_MS) });
+    if (!response.ok) {
+      throw new Error(`Polymarket API error ${response.status}: ${await response.text()}`);
+    }
+    const body = await response.json();
+
+    if (this.recordDir) {
+      fs.mkdirSync(this.recordDir, { recursive: true });
+      fs.writeFileSync(path.join(this.recordDir, fixtureName), JSON.stringify(body, null, 2));
+    }
+    return body as T;
+  }
+}
+
+/** Gamma encodes its arrays as JSON strings */
+function parseList(value: unknown): string[] {
+  if (Array.isArray(value)) return value.map(String);
+  if (typeof value !== "string") return [];
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed.map(String) : [];
+  } catch {
+    return [];
+  }
+}
+
+/** A Gamma market as a VenueMarket, or null unless it is a tradable Yes/No market */
+function mapMarket(raw: any): VenueMarket | null {
+  const outcomes = parseList(raw.outcomes).map((o) => o.toLowerCase());
+  const tokenIds = parseList(raw.clobTokenIds);
+  if (outcomes.length !== 2 || outcomes[0] !== "yes" || outcomes[1] !== "no" || tokenIds.length !== 2) return null;
+  if (raw.closed === true || raw.enableOrderBook === false) return null;
+
+  // Quotes in dollars; a missing side is no quote (0), as on Kalshi — never the last trade
+  const bid = Math.round((parseFloat(raw.bestBid) || 0) * 10_000) / 100;
+  const ask = Math.round((parseFloat(raw.bestAsk) || 0) * 10_000) / 100;
+
+  return {
+    venue: "polymarket",
+    id: String(raw.conditionId ?? raw.id),
+    slug: raw.slug,
+    title: raw.question ?? raw.slug ?? String(raw.id),
+    closeTime: raw.endDate ?? "",
+    yesBid: bid > 0 && bid < 100 ? bid : 0,
+    yesAsk: ask > 0 && ask < 100 ? ask : 0,
+    noBid: ask > 0 && ask < 100 ? 100 - ask : 0,
+    noAsk: bid > 0 && bid < 100 ? 100 - bid : 0,
+    volume: parseFloat(raw.volumeNum ?? raw.volume ?? "0") || 0,
+    yesTokenId: tokenIds[0],
+  };
+}
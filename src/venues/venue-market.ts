@@ -0,0 +1,42 @@
+// ============================================================
+// Venue Market — One market model across exchanges
+// ============================================================
+
+import type { KalshiMarket, OrderBook, VenueMarket } from "../types/index.js";
+
+/** A Kalshi market in venue-agnostic form; the subtitle names the outcome in multi-market events */
+export function fromKalshiMarket(market: KalshiMarket): VenueMarket {
+  return {
+    venue: "kalshi",
+    id: market.ticker,
+    title: market.subtitle ? `${market.title} — ${market.subtitle}` : market.title,
+    closeTime: market.expirationDate,
+    yesBid: market.yesBid,
+    yesAsk: market.yesAsk,
+    noBid: market.noBid,
+    noAsk: market.noAsk,
+    volume: market.volume,
+  };
+}
+
+/** The same contract seen from the other side: YES becomes NO */
+export function invertMarket(market: VenueMarket): VenueMarket {
+  return {
+    ...market,
+    yesBid: market.noBid,
+    yesAsk: market.noAsk,
+    noBid: market.yesBid,
+    noAsk: market.yesAsk,
+  };
+}
+
+/** Swap the sides of a book to match `invertMarket` */
+export function invertBook(book: OrderBook): OrderBook {
+  return { yes: book.no, no: book.yes };
+}
+
+/** Midpoint of the YES quotes, or null without a two-sided market */
+export function yesMid(market: VenueMarket): number | null {
+  if (market.yesBid <= 0 || market.yesAsk <= 0 || market.yesAsk >= 100) return null;
+  return (market.yesBid + market.yesAsk) / 2;
+}
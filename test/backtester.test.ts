@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import { Backtester } from "../src/backtest/backtester.js";
+import type { Forecast, KalshiMarket, MarketSnapshot } from "../src/types/index.js";
+import { captureLogger, loadTestConfig, testMarket } from "./helpers.js";
+
+const PARAMS = { minEdgeThreshold: 0.05, kellyFraction: 0.25, initialBalanceUsd: 100 };
+
+/** Quoted 38/40 YES, 60/62 NO */
+function market(ticker: string, overrides: Partial<KalshiMarket> = {}): KalshiMarket {
+  return testMarket({ ticker, eventTicker: ticker, yesBid: 38, yesAsk: 40, noBid: 60, noAsk: 62, ...overrides });
+}
+
+function snapshot(timestamp: string, ...markets: KalshiMarket[]): MarketSnapshot {
+  return { timestamp, markets };
+}
+
+function forecast(ticker: string, modelProbYes: number, timestamp: string): Forecast {
+  return { ticker, modelProbYes, confidence: 0.8, reasoning: "", sources: [], timestamp: new Date(timestamp) };
+}
+
+function backtester(env: Record<string, string>): Backtester {
+  return new Backtester(loadTestConfig({ FEE_TAKER_RATE: "0", ...env }), captureLogger().logger);
+}
+
+describe("Backtester replay", () => {
+  it("trades only on forecasts already made and books settlement P&L", () => {
+    // Given out of order; KXB's forecast is only visible from the 18:00 snapshot
+    const snapshots = [
+      snapshot("2026-03-02T18:00:00Z", market("KXA", { status: "settled", result: "yes" }), market("KXB")),
+      snapshot("2026-03-02T15:00:00Z", market("KXA"), market("KXB")),
+    ];
+    const forecasts = [forecast("KXA", 0.7, "2026-03-02T14:00:00Z"), forecast("KXB", 0.7, "2026-03-02T16:00:00Z")];
+    const result = backtester({}).run(snapshots, forecasts, PARAMS, new Map([["KXB", "no"]]));
+
+    // ⅛ of $100 buys 31 KXA at 40¢, paying $18.60; ⅛ of $118.60 buys 37 KXB, losing $14.80
+    expect(result).toMatchObject({
+      snapshots: 2,
+      trades: 2,
+      settledPositions: 2,
+      unsettledPositions: 0,
+      wins: 1,
+      hitRate: 0.5,
+    });
+    expect(result.totalPnl).toBeCloseTo(3.8);
+    expect(result.finalEquity).toBeCloseTo(103.8);
+  });
+
+  it("leaves positions without a known result unsettled at their mark", () => {
+    const snapshots = [snapshot("2026-03-02T15:00:00Z", market("KXA"))];
+    const result = backtester({}).run(snapshots, [forecast("KXA", 0.7, "2026-03-02T14:00:00Z")], PARAMS);
+    // 31 contracts bought at 40¢, marked at the 38¢ bid
+    expect(result).toMatchObject({ trades: 1, settledPositions: 0, unsettledPositions: 1 });
+    expect(result.totalPnl).toBeCloseTo(-0.62);
+  });
+});
+
+describe("Backtester circuit breakers", () => {
+  const forecasts = [forecast("KXA", 0.7, "2026-03-02T14:00:00Z"), forecast("KXB", 0.7, "2026-03-02T14:00:00Z")];
+
+  it("keeps a drawdown trip latched for the rest of the replay", () => {
+    const snapshots = [
+      snapshot("2026-03-02T15:00:00Z", market("KXA")),
+      // KXA's bid collapses: equity falls over 10% below its peak
+      snapshot("2026-03-02T18:00:00Z", market("KXA", { yesBid: 1 })),
+      snapshot("2026-03-03T15:00:00Z", market("KXA", { yesBid: 1 }), market("KXB")),
+    ];
+    const result = backtester({ MAX_DRAWDOWN_PCT: "0.1", DAILY_LOSS_LIMIT_USD: "0" }).run(snapshots, forecasts, PARAMS);
+    expect(result.trades).toBe(1);
+  });
+
+  it("lifts a daily-loss trip the next simulated day", () => {
+    const snapshots = [
+      snapshot("2026-03-02T15:00:00Z", market("KXA")),
+      // KXA settles NO: the whole stake is a realized loss over the $5 limit
+      snapshot("2026-03-02T18:00:00Z", market("KXA", { status: "settled", result: "no" }), market("KXB")),
+      snapshot("2026-03-03T15:00:00Z", market("KXB")),
+    ];
+    const result = backtester({ MAX_DRAWDOWN_PCT: "0", DAILY_LOSS_LIMIT_USD: "5" }).run(snapshots, forecasts, PARAMS);
+    expect(result.trades).toBe(2);
+    expect(result.settledPositions).toBe(1);
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import { askLevels, bidLevels, fillContracts, fillForBudget, sellContracts } from "../src/risk/book-depth.js";
+import type { OrderBook, OrderBookLevel } from "../src/types/index.js";
+
+const levels = (...pairs: Array<[number, number]>): OrderBookLevel[] =>
+  pairs.map(([price, quantity]) => ({ price, quantity }));
+
+// The mock exchange's KXFED-26DEC-CUT book
+const BOOK: OrderBook = {
+  yes: levels([38, 500], [40, 200], [45, 0]),
+  no: levels([56, 150], [54, 400]),
+};
+
+describe("book levels", () => {
+  it("prices YES asks off the NO bids, cheapest first", () => {
+    expect(askLevels(BOOK, "yes")).toEqual(levels([44, 150], [46, 400]));
+    expect(askLevels(BOOK, "no")).toEqual(levels([60, 200], [62, 500]));
+  });
+
+  it("lists bids best first, skipping empty levels", () => {
+    expect(bidLevels(BOOK, "yes")).toEqual(levels([40, 200], [38, 500]));
+  });
+});
+
+describe("fillForBudget", () => {
+  const asks = levels([40, 10], [45, 10], [50, 100]);
+
+  it("walks levels until the budget runs out", () => {
+    // 10 × 40¢ + 10 × 45¢ leaves 150¢: three more at 50¢
+    expect(fillForBudget(asks, 1_000, 99)).toMatchObject({
+      contracts: 23,
+      costCents: 1_000,
+      worstPrice: 50,
+      limitedBy: "budget",
+    });
+  });
+
+  it("stops once the average price would pass the cap", () => {
+    // 20 contracts average 42.5¢; five at 50¢ bring it to exactly 44¢
+    const fill = fillForBudget(asks, 100_000, 44);
+    expect(fill).toMatchObject({ contracts: 25, costCents: 1_100, avgPrice: 44, limitedBy: "price" });
+  });
+
+  it("takes the whole book when neither limit binds", () => {
+    expect(fillForBudget(asks, 100_000, 99)).toMatchObject({ contracts: 120, worstPrice: 50, limitedBy: "depth" });
+  });
+
+  it("counts taker fees against the budget, rounding each level up", () => {
+    // All-in 41.68¢, 46.73¢ and 51.75¢ a contract: the budget stops at two on the third level
+    const fill = fillForBudget(asks, 1_000, 99, 0.07);
+    expect(fill).toMatchObject({ contracts: 22, costCents: 950, limitedBy: "budget" });
+    // ⌈16.8⌉ + ⌈17.325⌉ + ⌈3.5⌉
+    expect(fill.feeCents).toBe(39);
+  });
+
+  it("fills nothing from an empty book", () => {
+    expect(fillForBudget([], 1_000, 99)).toMatchObject({ contracts: 0, avgPrice: 0, limitedBy: "depth" });
+  });
+});
+
+describe("fillContracts and sellContracts", () => {
+  it("buys up to the limit price", () => {
+    const asks = askLevels(BOOK, "yes");
+    expect(fillContracts(asks, 200, 45)).toMatchObject({ contracts: 150, worstPrice: 44, limitedBy: "depth" });
+    expect(fillContracts(asks, 200, 46)).toMatchObject({ contracts: 200, avgPrice: 44.5, limitedBy: "size" });
+  });
+
+  it("sells down to the minimum price", () => {
+    const bids = bidLevels(BOOK, "yes");
+    expect(sellContracts(bids, 300, 39)).toMatchObject({ contracts: 200, costCents: 8_000, limitedBy: "depth" });
+    const all = sellContracts(bids, 300, 38);
+    expect(all).toMatchObject({ contracts: 300, worstPrice: 38, limitedBy: "size" });
+    expect(all.avgPrice).toBeCloseTo(11_800 / 300);
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, expect, it } from "vitest";
+import { brierScore, buildCalibrationReport } from "../src/forecaster/calibration.js";
+import { ForecastStore, type ResolvedForecast } from "../src/forecaster/forecast-store.js";
+import type { Forecast } from "../src/types/index.js";
+import { startMock } from "./helpers.js";
+
+function resolved(
+  modelProbYes: number,
+  outcome: 0 | 1,
+  { confidence = 0.5, bid = 40, ask = 42 }: { confidence?: number; bid?: number; ask?: number } = {}
+): ResolvedForecast {
+  return {
+    forecast: {
+      ticker: "KXTEST-26-YES",
+      eventTicker: "KXTEST-26",
+      title: "Test market",
+      modelProbYes,
+      confidence,
+      reasoning: "",
+      sources: [],
+      timestamp: "2026-03-02T15:00:00.000Z",
+      marketYesAsk: ask,
+      marketYesBid: bid,
+    },
+    outcome,
+  };
+}
+
+describe("buildCalibrationReport", () => {
+  it("scores the model and buckets forecasts by probability and confidence", () => {
+    const forecasts = [
+      resolved(0.8, 1, { confidence: 0.9 }),
+      resolved(0.85, 0, { confidence: 0.9 }),
+      resolved(0.2, 0, { confidence: 0.3 }),
+    ];
+    const report = buildCalibrationReport(forecasts);
+
+    // (0.04 + 0.7225 + 0.04) / 3
+    expect(report.brierScore).toBeCloseTo(0.2675);
+    expect(brierScore(forecasts)).toBe(report.brierScore);
+    expect(report.baseRate).toBeCloseTo(1 / 3);
+
+    expect(report.reliability).toHaveLength(2);
+    expect(report.reliability[0]).toMatchObject({ lower: 0.2, count: 1, observedRate: 0 });
+    expect(report.reliability[1]).toMatchObject({ lower: 0.8, count: 2, observedRate: 0.5 });
+    expect(report.reliability[1].meanForecast).toBeCloseTo(0.825);
+
+    const high = report.byConfidence.find((b) => b.lower === 0.9)!;
+    expect(high).toMatchObject({ count: 2, directionalAccuracy: 0.5 });
+  });
+
+  it("scores the market at its mid, or its ask with no bid", () => {
+    const report = buildCalibrationReport([
+      resolved(0.5, 1, { bid: 40, ask: 60 }),
+      resolved(0.5, 0, { bid: 0, ask: 20 }),
+    ]);
+    // ((0.5 − 1)² + (0.2 − 0)²) / 2
+    expect(report.marketBrierScore).toBeCloseTo(0.145);
+  });
+
+  it("reports zeros with nothing resolved", () => {
+    expect(buildCalibrationReport([])).toMatchObject({ count: 0, brierScore: 0, reliability: [] });
+  });
+});
+
+describe("ForecastStore", () => {
+  it("joins stored forecasts to settled outcomes, leaving out voided and open markets", async () => {
+    const h = await startMock();
+    try {
+      const store = new ForecastStore(h.config.storage.dataDir, h.logger);
+      const markets = await h.kalshi.getAllOpenMarkets();
+      const forecast = (ticker: string, extra: Partial<Forecast> = {}): Forecast => ({
+        ticker,
+        modelProbYes: 0.7,
+        confidence: 0.8,
+        reasoning: "",
+        sources: [],
+        timestamp: new Date(),
+        ...extra,
+      });
+      store.recordBatch(
+        [
+          forecast("KXFED-26DEC-CUT"),
+          forecast("KXFED-26DEC-HOLD"),
+          forecast("KXCPI-26NOV-T3"),
+          // Neither is a fresh opinion worth scoring
+          forecast("KXBTC-26DEC31-T100K", { cached: true }),
+          forecast("KXFED-26DEC-HIKE", { parseFailed: true }),
+        ],
+        markets
+      );
+      expect(store.getForecasts().map((f) => f.ticker)).toEqual([
+        "KXFED-26DEC-CUT",
+        "KXFED-26DEC-HOLD",
+        "KXCPI-26NOV-T3",
+      ]);
+      expect(store.getForecasts()[0]).toMatchObject({ marketYesBid: 40, marketYesAsk: 44 });
+
+      h.mock.settleMarket("KXFED-26DEC-CUT", "yes");
+      h.mock.settleMarket("KXFED-26DEC-HOLD", "voided");
+      expect(await store.resolvePending(h.kalshi)).toBe(2);
+      expect(store.getUnresolvedTickers()).toEqual(["KXCPI-26NOV-T3"]);
+
+      const scored = store.getResolvedForecasts();
+      expect(scored).toHaveLength(1);
+      expect(scored[0]).toMatchObject({ forecast: { ticker: "KXFED-26DEC-CUT" }, outcome: 1 });
+    } finally {
+      await h.stop();
+    }
+  });
+});
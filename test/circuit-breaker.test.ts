@@ -0,0 +1,129 @@
+import fs from "node:fs";
+import path from "node:path";
+import { describe, expect, it } from "vitest";
+import { CircuitBreaker, breakerStatePath } from "../src/risk/circuit-breaker.js";
+import type { AgentConfig } from "../src/types/index.js";
+import { captureLogger, loadTestConfig } from "./helpers.js";
+
+/** A breaker on a settable clock, persisting under the config's data dir */
+function setup(env: Record<string, string> = {}) {
+  const config = loadTestConfig({
+    DAILY_LOSS_LIMIT_USD: "50",
+    MAX_DRAWDOWN_PCT: "0.1",
+    MAX_TRADES_PER_HOUR: "2",
+    BREAKER_TIMEZONE: "America/New_York",
+    ...env,
+  });
+  const clock = { now: Date.parse("2026-03-02T15:00:00Z") };
+  const statePath = breakerStatePath(config.storage.dataDir, "live", "default");
+  const open = (c: AgentConfig = config) => new CircuitBreaker(c, captureLogger().logger, statePath, () => clock.now);
+  return { config, clock, open, statePath };
+}
+
+describe("CircuitBreaker daily loss", () => {
+  it("rolls the loss count over at midnight in its timezone, not UTC", () => {
+    const { clock, open } = setup();
+    const breaker = open();
+    breaker.recordLoss(30);
+
+    // 22:00 in New York is already the next day in UTC
+    clock.now = Date.parse("2026-03-03T03:00:00Z");
+    expect(breaker.today()).toBe("2026-03-02");
+    breaker.recordLoss(15);
+    expect(breaker.status().dailyLossUsd).toBe(45);
+
+    clock.now = Date.parse("2026-03-03T05:30:00Z");
+    expect(breaker.today()).toBe("2026-03-03");
+    expect(breaker.status().dailyLossUsd).toBe(0);
+  });
+
+  it("trips at the limit and stays tripped across restarts and days until re-armed", () => {
+    const { clock, open } = setup();
+    open().recordLoss(20);
+    open().recordLoss(30);
+    expect(open().check()).toMatchObject({ breaker: "daily_loss" });
+
+    clock.now = Date.parse("2026-03-04T15:00:00Z");
+    const restarted = open();
+    expect(restarted.check()).toMatchObject({ breaker: "daily_loss" });
+    expect(restarted.rearm()).toMatchObject({ breaker: "daily_loss" });
+    expect(open().check()).toBeNull();
+  });
+
+  it("lifts only a daily-loss trip from an earlier day on rearmDailyLoss", () => {
+    const { clock, open } = setup();
+    const breaker = open();
+    breaker.recordLoss(60);
+    expect(breaker.rearmDailyLoss()).toBeNull();
+
+    clock.now = Date.parse("2026-03-03T15:00:00Z");
+    expect(breaker.rearmDailyLoss()).toMatchObject({ breaker: "daily_loss" });
+    expect(breaker.check()).toBeNull();
+
+    breaker.observeEquity(100);
+    breaker.observeEquity(80);
+    clock.now = Date.parse("2026-03-04T15:00:00Z");
+    expect(breaker.rearmDailyLoss()).toBeNull();
+    expect(breaker.check()).toMatchObject({ breaker: "drawdown" });
+  });
+});
+
+describe("CircuitBreaker drawdown, kill switch and trade rate", () => {
+  it("trips when equity falls the limit below its peak, keeping the first reason", () => {
+    const { open } = setup();
+    const breaker = open();
+    breaker.observeEquity(100);
+    breaker.observeEquity(120);
+    breaker.observeEquity(109);
+    expect(breaker.check()).toBeNull();
+
+    breaker.observeEquity(108);
+    expect(breaker.check()).toMatchObject({ breaker: "drawdown" });
+    breaker.recordLoss(100);
+    expect(breaker.check()).toMatchObject({ breaker: "drawdown" });
+
+    // Re-arming starts the peak afresh
+    breaker.rearm();
+    breaker.observeEquity(100);
+    expect(breaker.check()).toBeNull();
+    expect(breaker.status()).toMatchObject({ peakEquityUsd: 100, dailyLossUsd: 0 });
+  });
+
+  it("trips on the kill switch file and refuses to re-arm until it is gone", () => {
+    const { config, open } = setup();
+    const breaker = open();
+    const killPath = config.circuitBreaker.killSwitchPath;
+    fs.mkdirSync(path.dirname(killPath), { recursive: true });
+    fs.writeFileSync(killPath, "");
+
+    expect(breaker.check()).toMatchObject({ breaker: "kill_switch" });
+    expect(() => breaker.rearm()).toThrow(/Remove the kill switch file/);
+
+    fs.rmSync(killPath);
+    expect(breaker.rearm()).toMatchObject({ breaker: "kill_switch" });
+    expect(breaker.check()).toBeNull();
+  });
+
+  it("persists to its state file, so a re-arm elsewhere reaches a running breaker", () => {
+    const { open, statePath } = setup();
+    const running = open();
+    running.trip("kill_switch", "SIGUSR2");
+    expect(JSON.parse(fs.readFileSync(statePath, "utf-8")).trip).toMatchObject({ reason: "SIGUSR2" });
+
+    open().rearm();
+    expect(running.check()).toBeNull();
+  });
+
+  it("throttles entries over a rolling hour without tripping", () => {
+    const { clock, open } = setup();
+    const breaker = open();
+    breaker.recordTrade();
+    clock.now += 30 * 60_000;
+    breaker.recordTrade();
+    expect(breaker.canTrade()).toBe(false);
+    expect(breaker.check()).toBeNull();
+
+    clock.now += 31 * 60_000;
+    expect(breaker.canTrade()).toBe(true);
+  });
+});
@@ -0,0 +1,113 @@
+import fs from "node:fs";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { loadScenario } from "../src/mock/scenarios.js";
+import { PolymarketClient } from "../src/venues/polymarket-client.js";
+import { ContractMatcher } from "../src/venues/contract-matcher.js";
+import { CrossVenueScanner } from "../src/venues/cross-venue-scanner.js";
+import { fromKalshiMarket } from "../src/venues/venue-market.js";
+import type { VenueMarket } from "../src/types/index.js";
+import { startMock, tempDataDir, type MockHarness } from "./helpers.js";
+
+const FIXTURES = "fixtures/cross-venue";
+const BTC = "KXBTC-26DEC31-T100K";
+const CUT = "KXFED-26DEC-CUT";
+const HOLD = "KXFED-26DEC-HOLD";
+const CPI = "KXCPI-26NOV-T3";
+
+describe("cross-venue matching and pricing over the recorded fixtures", () => {
+  let h: MockHarness;
+  let matcher: ContractMatcher;
+  let scanner: CrossVenueScanner;
+  let kalshi: VenueMarket[];
+  let polymarket: VenueMarket[];
+
+  beforeEach(async () => {
+    // A copy, so approvals don't rewrite the checked-in mappings
+    const mappingsPath = path.join(tempDataDir(), "venue-mappings.json");
+    fs.copyFileSync(path.join(FIXTURES, "venue-mappings.json"), mappingsPath);
+
+    h = await startMock(loadScenario(path.join(FIXTURES, "kalshi-scenario.json")), {
+      POLYMARKET_FIXTURE_DIR: path.join(FIXTURES, "polymarket"),
+      CROSS_VENUE_MAPPINGS: mappingsPath,
+    });
+    const poly = new PolymarketClient(h.config, h.logger);
+    matcher = new ContractMatcher(h.config, h.logger);
+    scanner = new CrossVenueScanner(h.kalshi, poly, matcher, h.config, h.logger);
+    kalshi = (await h.kalshi.getAllOpenMarkets()).map(fromKalshiMarket);
+    polymarket = await poly.getActiveMarkets();
+  });
+  afterEach(() => h.stop());
+
+  const pairIds = (pairs: { kalshi: VenueMarket; polymarket: VenueMarket }[]) =>
+    pairs.map((p) => [p.kalshi.id, p.polymarket.slug]);
+
+  it("lists only the Yes/No Polymarket markets, quoted in cents", () => {
+    expect(polymarket.map((m) => m.slug)).not.toContain("texas-senate-2026");
+    expect(polymarket).toHaveLength(5);
+    const btc = polymarket.find((m) => m.slug === "bitcoin-above-100k-on-december-31-2026");
+    expect(btc).toMatchObject({ yesBid: 58, yesAsk: 59, noBid: 41, noAsk: 42 });
+  });
+
+  it("confirms the curated pair and queues fuzzy matches for review", () => {
+    const { confirmed, pending } = matcher.match(kalshi, polymarket);
+
+    expect(pairIds(confirmed)).toEqual([[BTC, "bitcoin-above-100k-on-december-31-2026"]]);
+    expect(confirmed[0]).toMatchObject({ inverted: false, reviewed: true });
+
+    expect(pairIds(pending).sort()).toEqual([
+      [CUT, "fed-cut-rates-december-2026"],
+      [HOLD, "fed-hold-rates-december-2026"],
+    ]);
+    expect(pending.every((p) => !p.reviewed && p.candidateId)).toBe(true);
+    expect(matcher.getQueue("pending")).toHaveLength(2);
+  });
+
+  it("never matches contracts struck at different rates", () => {
+    const { confirmed, pending } = matcher.match(kalshi, polymarket);
+    const matched = [...confirmed, ...pending].map((p) => p.kalshi.id);
+    expect(matched).not.toContain(CPI);
+    expect(matcher.getQueue().map((c) => c.kalshi)).not.toContain(CPI);
+  });
+
+  it("promotes approved matches and forgets rejected ones", () => {
+    const { pending } = matcher.match(kalshi, polymarket);
+    const cut = pending.find((p) => p.kalshi.id === CUT)!;
+    const hold = pending.find((p) => p.kalshi.id === HOLD)!;
+
+    const mapping = matcher.approve(cut.candidateId!);
+    expect(mapping).toMatchObject({ kalshi: CUT, polymarket: cut.polymarket.id });
+    matcher.reject(hold.candidateId!);
+
+    const next = matcher.match(kalshi, polymarket);
+    expect(next.confirmed.map((p) => p.kalshi.id).sort()).toEqual([BTC, CUT]);
+    expect(next.pending).toEqual([]);
+    expect(matcher.getQueue("rejected").map((c) => c.kalshi)).toEqual([HOLD]);
+  });
+
+  it("prices reviewed pairs from both books and flags the arbitrage", async () => {
+    const report = await scanner.scan();
+
+    expect(report).toMatchObject({ kalshiMarkets: 4, polymarketMarkets: 5, minProfitCents: 1 });
+    expect(report.edges).toHaveLength(1);
+    const [edge] = report.edges;
+    // YES on Polymarket at its 59¢ ask (150 deep), NO on Kalshi at 100 − the 62¢
+    // YES bid (80 deep); Kalshi's taker fee is 7% × 0.38 × 0.62 per contract
+    expect(edge).toMatchObject({ buyYesOn: "polymarket", yesAsk: 59, noAsk: 38, contracts: 80 });
+    expect(edge.feesCents).toBeCloseTo(1.6492);
+    expect(edge.profitCents).toBeCloseTo(100 - 59 - 38 - 1.6492);
+    expect(edge.midDivergence).toBeCloseTo(5);
+    expect(scanner.isArbitrage(edge)).toBe(true);
+  });
+
+  it("prices pending pairs from listed quotes, with no size", async () => {
+    const report = await scanner.scan();
+
+    expect(report.pending.map((e) => e.pair.kalshi.id).sort()).toEqual([CUT, HOLD]);
+    const cut = report.pending.find((e) => e.pair.kalshi.id === CUT)!;
+    // Kalshi 44¢ YES / 60¢ NO against Polymarket 43¢ YES / 59¢ NO: no lock either way
+    expect(cut.profitCents).toBeLessThan(0);
+    expect(cut.contracts).toBe(0);
+    expect(report.pending.some((e) => scanner.isArbitrage(e))).toBe(false);
+  });
+});
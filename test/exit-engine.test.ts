@@ -0,0 +1,111 @@
+import { describe, expect, it } from "vitest";
+import { ExitEngine } from "../src/risk/exit-engine.js";
+import type { Forecast, KalshiMarket, OrderBook, Portfolio, Position } from "../src/types/index.js";
+import { captureLogger, loadTestConfig, testMarket } from "./helpers.js";
+
+const NOW = Date.parse("2026-06-01T12:00:00Z");
+const TICKER = "KXTEST-26-YES";
+
+/** Quoted 58/60 YES, 40/42 NO */
+function market(overrides: Partial<KalshiMarket> = {}): KalshiMarket {
+  return testMarket({ ticker: TICKER, yesBid: 58, yesAsk: 60, noBid: 40, noAsk: 42, ...overrides });
+}
+
+function portfolio(position: Partial<Position> = {}): Portfolio {
+  return {
+    balanceUsd: 1_000,
+    positions: [
+      { ticker: TICKER, side: "yes", contracts: 20, avgPrice: 50, currentPrice: 50, marketTitle: "Test market", ...position },
+    ],
+    totalExposureUsd: 10,
+    realizedPnl: 0,
+    unrealizedPnl: 0,
+  };
+}
+
+function forecast(modelProbYes: number): Forecast {
+  return { ticker: TICKER, modelProbYes, confidence: 0.8, reasoning: "", sources: [], timestamp: new Date(NOW) };
+}
+
+function engine(env: Record<string, string> = {}): ExitEngine {
+  const config = loadTestConfig({ FEE_TAKER_RATE: "0", ...env });
+  return new ExitEngine(config, captureLogger().logger, () => NOW);
+}
+
+const bids = (...levels: Array<[number, number]>): OrderBook => ({
+  yes: levels.map(([price, quantity]) => ({ price, quantity })),
+  no: [],
+});
+
+describe("ExitEngine edge exits", () => {
+  const exits = engine({ EXIT_MIN_HOLD_EDGE: "0.05" });
+
+  it("sells when the bid is inside the hold band, down to model − minHoldEdge", () => {
+    // Model 60%, bid 58¢: only 2% of edge left, under the 5% needed to hold
+    const plan = exits.review(portfolio(), [market()], [forecast(0.6)], [], new Map());
+    expect(plan.exits).toHaveLength(1);
+    expect(plan.exits[0]).toMatchObject({ action: "sell", exitReason: "edge", contracts: 20, limitPrice: 58 });
+  });
+
+  it("walks the bids no lower than the edge floor", () => {
+    const book = bids([58, 8], [56, 7], [54, 100]);
+    const plan = exits.review(portfolio(), [market()], [forecast(0.6)], [], new Map([[TICKER, book]]));
+    // 55¢ is the floor: the 54¢ level stays untouched
+    expect(plan.exits[0]).toMatchObject({ contracts: 15, limitPrice: 56 });
+  });
+
+  it("holds while the model still values the position minHoldEdge above the bid", () => {
+    const plan = exits.review(portfolio(), [market({ yesBid: 54 })], [forecast(0.6)], [], new Map());
+    expect(plan.exits).toEqual([]);
+  });
+
+  it("counts the taker fee against the bid", () => {
+    // 58¢ nets 56.3¢ after a 7% fee, within 5% of a 60% model; 57¢ nets 55.3¢, 56¢ under the 55¢ floor
+    const withFees = engine({ EXIT_MIN_HOLD_EDGE: "0.05", FEE_TAKER_RATE: "0.07" });
+    const book = bids([58, 10], [57, 10], [56, 10]);
+    const plan = withFees.review(portfolio(), [market()], [forecast(0.6)], [], new Map([[TICKER, book]]));
+    expect(plan.exits[0]).toMatchObject({ exitReason: "edge", contracts: 20, limitPrice: 57 });
+  });
+
+  it("values NO positions at one minus the YES forecast", () => {
+    // NO bid 40¢ against a 42% NO model
+    const plan = exits.review(portfolio({ side: "no", avgPrice: 35 }), [market()], [forecast(0.58)], [], new Map());
+    expect(plan.exits[0]).toMatchObject({ side: "no", exitReason: "edge", limitPrice: 40 });
+  });
+});
+
+describe("ExitEngine price and time exits", () => {
+  it("takes profit only at bids that meet the target after fees", () => {
+    const exits = engine({ EXIT_TAKE_PROFIT_PCT: "0.2", FEE_TAKER_RATE: "0.07" });
+    // 20% over a 50¢ cost is 60¢ net, which takes a 62¢ bid
+    const book = bids([63, 5], [62, 5], [61, 50]);
+    const plan = exits.review(portfolio(), [market({ yesBid: 63 })], [], [], new Map([[TICKER, book]]));
+    expect(plan.exits[0]).toMatchObject({ exitReason: "take_profit", contracts: 10, limitPrice: 62 });
+  });
+
+  it("stops out into whatever bids there are", () => {
+    const exits = engine({ EXIT_STOP_LOSS_PCT: "0.3" });
+    const book = bids([34, 5], [20, 5], [5, 50]);
+    const plan = exits.review(portfolio(), [market({ yesBid: 34 })], [forecast(0.9)], [], new Map([[TICKER, book]]));
+    expect(plan.exits[0]).toMatchObject({ exitReason: "stop_loss", contracts: 20, limitPrice: 5 });
+  });
+
+  it("exits near expiration before any price rule", () => {
+    const exits = engine({ EXIT_HOURS_BEFORE_CLOSE: "6", EXIT_STOP_LOSS_PCT: "0.3" });
+    const closing = market({ yesBid: 30, expirationDate: new Date(NOW + 3 * 3600_000).toISOString() });
+    const plan = exits.review(portfolio(), [closing], [], [], new Map());
+    expect(plan.exits[0]).toMatchObject({ exitReason: "expiry", limitPrice: 30 });
+  });
+
+  it("never sells a basket leg", () => {
+    const exits = engine({ EXIT_STOP_LOSS_PCT: "0.3", EXIT_HOURS_BEFORE_CLOSE: "6" });
+    const closing = market({ yesBid: 20, expirationDate: new Date(NOW + 3600_000).toISOString() });
+    expect(exits.review(portfolio({ basketId: "b1" }), [closing], [forecast(0.1)], [], new Map()).exits).toEqual([]);
+  });
+
+  it("leaves positions alone with no bid or an order still working", () => {
+    const exits = engine({ EXIT_STOP_LOSS_PCT: "0.3" });
+    expect(exits.review(portfolio(), [market({ yesBid: 0 })], [], [], new Map()).exits).toEqual([]);
+    expect(exits.review(portfolio(), [market({ yesBid: 20 })], [], [], new Map(), new Set([TICKER])).exits).toEqual([]);
+  });
+});
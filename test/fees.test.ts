@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import { EdgeDetector } from "../src/agent/edge-detector.js";
+import { KALSHI_FEES, feePerContract, fillFeeCents, tradingFeeCents } from "../src/risk/fees.js";
+import { RiskManager } from "../src/risk/risk-manager.js";
+import type { Forecast, Portfolio } from "../src/types/index.js";
+import { captureLogger, loadTestConfig, testMarket } from "./helpers.js";
+
+const TICKER = "KXTEST-26-YES";
+// Quoted 42/44 YES, 56/58 NO
+const market = testMarket({ yesBid: 42, yesAsk: 44, noBid: 56, noAsk: 58 });
+
+function forecast(modelProbYes: number): Forecast {
+  return { ticker: TICKER, modelProbYes, confidence: 0.8, reasoning: "", sources: [], timestamp: new Date() };
+}
+
+describe("Kalshi trading fees", () => {
+  it("rounds each fill up to the cent", () => {
+    // 7% × 0.5 × 0.5 = 1.75¢ a contract
+    expect(feePerContract(50, 0.07)).toBeCloseTo(1.75);
+    expect(tradingFeeCents(1, 50, 0.07)).toBe(2);
+    expect(tradingFeeCents(10, 50, 0.07)).toBe(18);
+    expect(tradingFeeCents(1, 1, 0.07)).toBe(1);
+  });
+
+  it("doesn't round float noise up a whole cent", () => {
+    // 7% × 100 × 0.3 × 0.7 is 147.00000000000003 in floating point
+    expect(tradingFeeCents(100, 30, 0.07)).toBe(147);
+    expect(tradingFeeCents(300, 50, 0.07)).toBe(525);
+  });
+
+  it("charges nothing for no contracts or a zero rate", () => {
+    expect(tradingFeeCents(0, 50, 0.07)).toBe(0);
+    expect(tradingFeeCents(10, 50, 0)).toBe(0);
+  });
+
+  it("charges makers the maker rate", () => {
+    // 1.75% × 100 × 0.5 × 0.5 = 43.75¢
+    expect(fillFeeCents(100, 50, false, KALSHI_FEES)).toBe(44);
+    expect(fillFeeCents(100, 50, true, KALSHI_FEES)).toBe(175);
+  });
+});
+
+describe("fee-aware edges and sizing", () => {
+  const config = loadTestConfig({ FEE_TAKER_RATE: "0.07", MIN_EDGE_THRESHOLD: "0.05", KELLY_FRACTION: "0.25" });
+  const detector = new EdgeDetector(config, captureLogger().logger);
+
+  it("nets the taker fee at the ask out of the edge", () => {
+    const [edge] = detector.detectEdges([market], [forecast(0.55)]);
+    // 7% × 0.44 × 0.56 = 1.7248¢
+    expect(edge).toMatchObject({ side: "yes", marketProb: 0.44 });
+    expect(edge.fee).toBeCloseTo(0.017248);
+    expect(edge.edge).toBeCloseTo(0.55 - 0.44 - 0.017248);
+    expect(edge.expectedValue).toBeCloseTo(0.55 / 0.457248 - 1);
+  });
+
+  it("drops an edge the fee takes under the threshold", () => {
+    // 6% before fees, 4.3% after
+    expect(detector.detectEdges([market], [forecast(0.5)])).toEqual([]);
+  });
+
+  it("sizes Kelly on the all-in price and reports the rounded fee", () => {
+    const portfolio: Portfolio = { balanceUsd: 1_000, positions: [], totalExposureUsd: 0, realizedPnl: 0, unrealizedPnl: 0 };
+    const edges = detector.detectEdges([market], [forecast(0.55)]);
+    const [signal] = new RiskManager(config, captureLogger().logger).generateSignals(edges, portfolio);
+    // ¼ Kelly at a 45.7248¢ cost is $42.72: 93 contracts at 44¢ plus fee
+    expect(signal).toMatchObject({ contracts: 93, limitPrice: 44 });
+    expect(signal.kellyFraction).toBeCloseTo(0.0427, 4);
+    expect(signal.expectedFees).toBeCloseTo(1.61);
+  });
+});
@@ -0,0 +1,158 @@
+// ============================================================
+// Test Helpers — Mock exchange harness, config and log capture
+// ============================================================
+
+import crypto from "node:crypto";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import winston from "winston";
+import type { AgentConfig, KalshiMarket, TradeSignal } from "../src/types/index.js";
+import type { Logger } from "../src/utils/logger.js";
+import { loadConfig } from "../src/utils/config.js";
+import { KalshiClient } from "../src/api/kalshi-client.js";
+import { MockExchange, type MockScenario } from "../src/mock/mock-exchange.js";
+import { defaultScenario } from "../src/mock/scenarios.js";
+
+const API_KEY_ID = "test-key";
+
+/** Every log line, for assertions on warnings and reasons */
+export interface CapturedLog {
+  level: string;
+  message: string;
+}
+
+/** A logger that records instead of printing (and writes no log files) */
+export function captureLogger(): { logger: Logger; logs: CapturedLog[] } {
+  const logs: CapturedLog[] = [];
+  const capture = winston.format((info) => {
+    logs.push({ level: info.level, message: String(info.message) });
+    return false;
+  });
+  const logger = winston.createLogger({
+    level: "debug",
+    format: capture(),
+    transports: [new winston.transports.Console({ silent: true })],
+  });
+  return { logger, logs };
+}
+
+/** A fresh, empty data directory under the OS temp dir */
+export function tempDataDir(): string {
+  return fs.mkdtempSync(path.join(os.tmpdir(), "kalshi-ev-test-"));
+}
+
+/**
+ * Config loaded as the CLIs load it, from `env` layered over the process
+ * environment (restored afterwards), with a temp `DATA_DIR` by default.
+ */
+export function loadTestConfig(env: Record<string, string> = {}): AgentConfig {
+  const vars = { DATA_DIR: tempDataDir(), ...env };
+  const saved = Object.fromEntries(Object.keys(vars).map((k) => [k, process.env[k]]));
+  Object.assign(process.env, vars);
+  try {
+    return loadConfig({ requireCredentials: false });
+  } finally {
+    for (const [key, value] of Object.entries(saved)) {
+      if (value === undefined) delete process.env[key];
+      else process.env[key] = value;
+    }
+  }
+}
+
+export interface MockHarness {
+  mock: MockExchange;
+  config: AgentConfig;
+  kalshi: KalshiClient;
+  logger: Logger;
+  logs: CapturedLog[];
+  /** A private key the mock does not trust, for auth failure tests */
+  foreignKeyPem: string;
+  stop(): Promise<void>;
+}
+
+/** Start a mock exchange on a free port with a client configured to sign for it */
+export async function startMock(
+  scenario: MockScenario = defaultScenario(),
+  env: Record<string, string> = {}
+): Promise<MockHarness> {
+  const { privateKey, publicKey } = crypto.generateKeyPairSync("rsa", { modulusLength: 2048 });
+  const foreign = crypto.generateKeyPairSync("rsa", { modulusLength: 2048 });
+  const mock = new MockExchange(scenario, { apiKeyId: API_KEY_ID, publicKey });
+  const url = await mock.start();
+
+  const config = loadTestConfig({
+    KALSHI_API_KEY_ID: API_KEY_ID,
+    KALSHI_PRIVATE_KEY_PEM: privateKey.export({ type: "pkcs8", format: "pem" }).toString(),
+    KALSHI_BASE_PATH: url,
+    ...env,
+  });
+  const { logger, logs } = captureLogger();
+  return {
+    mock,
+    config,
+    kalshi: new KalshiClient(config, logger),
+    logger,
+    logs,
+    foreignKeyPem: foreign.privateKey.export({ type: "pkcs8", format: "pem" }).toString(),
+    stop: () => mock.stop(),
+  };
+}
+
+/** An open market quoted 48/50 YES, 50/52 NO; override anything */
+export function testMarket(overrides: Partial<KalshiMarket> = {}): KalshiMarket {
+  return {
+    ticker: "KXTEST-26-YES",
+    eventTicker: "KXTEST-26",
+    title: "Test market",
+    category: "Test",
+    status: "open",
+    yesBid: 48,
+    yesAsk: 50,
+    noBid: 50,
+    noAsk: 52,
+    volume: 1_000,
+    openInterest: 500,
+    expirationDate: "2026-12-31T00:00:00Z",
+    ...overrides,
+  };
+}
+
+/** A trade signal on `market` with a 60% YES forecast; override anything */
+export function testSignal(
+  market: KalshiMarket,
+  action: "buy" | "sell",
+  contracts: number,
+  limitPrice: number,
+  overrides: Partial<TradeSignal> = {}
+): TradeSignal {
+  const side = overrides.side ?? "yes";
+  return {
+    edge: {
+      ticker: market.ticker,
+      market,
+      forecast: {
+        ticker: market.ticker,
+        modelProbYes: 0.6,
+        confidence: 0.8,
+        reasoning: "",
+        sources: [],
+        timestamp: new Date(),
+      },
+      side,
+      marketProb: limitPrice / 100,
+      modelProb: side === "yes" ? 0.6 : 0.4,
+      fee: 0,
+      edge: 0.1,
+      expectedValue: 0.2,
+    },
+    side,
+    action,
+    contracts,
+    limitPrice,
+    kellyFraction: 0,
+    positionSizeUsd: (contracts * limitPrice) / 100,
+    reason: "test",
+    ...overrides,
+  };
+}
@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import { exitPrice, markPositions, markedValue, totalUnrealizedPnl, tradePnl } from "../src/agent/mark-to-market.js";
+import { PaperTrader } from "../src/agent/paper-trader.js";
+import type { Position, TradeRecord } from "../src/types/index.js";
+import { captureLogger, testMarket, testSignal } from "./helpers.js";
+
+// Quoted 48/50 YES, 50/52 NO
+const market = testMarket();
+
+function position(overrides: Partial<Position> = {}): Position {
+  return {
+    ticker: market.ticker,
+    side: "yes",
+    contracts: 10,
+    avgPrice: 40,
+    currentPrice: 40,
+    marketTitle: market.title,
+    ...overrides,
+  };
+}
+
+function fill(action: "buy" | "sell", contracts: number, price: number, overrides: Partial<TradeRecord> = {}): TradeRecord {
+  return {
+    id: `${action}-${contracts}-${price}`,
+    signal: testSignal(market, action, contracts, price),
+    executedAt: new Date(),
+    fillPrice: price,
+    filled: true,
+    filledContracts: contracts,
+    fees: 0,
+    mode: "paper",
+    ...overrides,
+  };
+}
+
+describe("marking positions", () => {
+  it("values each side at its own bid", () => {
+    expect(exitPrice(market, "yes")).toBe(48);
+    expect(exitPrice(market, "no")).toBe(50);
+    expect(exitPrice(testMarket({ yesBid: 0 }), "yes")).toBe(0);
+  });
+
+  it("marks positions with a quote and keeps the last mark on the rest", () => {
+    const quoted = position();
+    const unquoted = position({ ticker: "KXOTHER-26-X", side: "no", currentPrice: 70, avgPrice: 60 });
+    markPositions([quoted, unquoted], new Map([[market.ticker, market]]));
+
+    expect(quoted.currentPrice).toBe(48);
+    expect(unquoted.currentPrice).toBe(70);
+    // 10 × (48 − 40)¢ + 10 × (70 − 60)¢
+    expect(totalUnrealizedPnl([quoted, unquoted])).toBeCloseTo(1.8);
+    expect(markedValue([quoted, unquoted])).toBeCloseTo(11.8);
+  });
+
+  it("reports a paper account's unrealized P&L at the bid, not the ask it paid", () => {
+    const trader = new PaperTrader(100, { takerRate: 0, makerRate: 0 }, captureLogger().logger);
+    trader.execute(testSignal(market, "buy", 10, 50));
+    expect(trader.getPortfolio().unrealizedPnl).toBeCloseTo(-0.2);
+
+    trader.markToMarket([testMarket({ yesBid: 60 })]);
+    expect(trader.getPortfolio()).toMatchObject({ realizedPnl: 0 });
+    expect(trader.getPortfolio().unrealizedPnl).toBeCloseTo(1);
+  });
+});
+
+describe("realized trade P&L", () => {
+  it("values buys and sells at the contract's final worth, less fees", () => {
+    expect(tradePnl(fill("buy", 10, 40, { fees: 0.17 }), 100)).toBeCloseTo(5.83);
+    expect(tradePnl(fill("buy", 10, 40), 0)).toBeCloseTo(-4);
+    // A sale at 55¢ gave up the 45¢ the contracts would have paid
+    expect(tradePnl(fill("sell", 4, 55), 100)).toBeCloseTo(-1.8);
+  });
+
+  it("nets a sold-out position to its cash P&L at any value", () => {
+    const trades = [fill("buy", 10, 40), fill("sell", 6, 50), fill("sell", 4, 30)];
+    for (const value of [0, 37, 100]) {
+      expect(trades.reduce((sum, t) => sum + tradePnl(t, value), 0)).toBeCloseTo(0.2);
+    }
+  });
+});
@@ -0,0 +1,123 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { KalshiWebSocket } from "../src/api/kalshi-ws.js";
+import { MarketCache } from "../src/api/market-cache.js";
+import type { MockLevel } from "../src/mock/mock-exchange.js";
+import { startMock, type MockHarness } from "./helpers.js";
+
+const CUT = "KXFED-26DEC-CUT";
+const BTC = "KXBTC-26DEC31-T100K";
+
+/** A mock book as the cache reports it: levels best price first */
+function asOrderBook(book: { yes: MockLevel[]; no: MockLevel[] }) {
+  const levels = (side: MockLevel[]) =>
+    side.map(([price, quantity]) => ({ price, quantity })).sort((a, b) => b.price - a.price);
+  return { yes: levels(book.yes), no: levels(book.no) };
+}
+
+describe("MarketCache over the mock WebSocket feed", () => {
+  let h: MockHarness;
+  let ws: KalshiWebSocket;
+  let cache: MarketCache;
+
+  beforeEach(async () => {
+    h = await startMock();
+    ws = new KalshiWebSocket(h.kalshi, h.config, h.logger);
+    cache = new MarketCache(h.kalshi, ws, h.config, h.logger);
+    await cache.start();
+  });
+  afterEach(async () => {
+    cache.stop();
+    await h.stop();
+  });
+
+  const warnings = () => h.logs.filter((l) => l.level === "warn").map((l) => l.message);
+
+  it("builds a local book from the snapshot", async () => {
+    cache.trackBooks([CUT]);
+    await vi.waitFor(() => expect(cache.getOrderBook(CUT)).toBeDefined());
+
+    expect(cache.getOrderBook(CUT)).toEqual(
+      asOrderBook({ yes: [[40, 200], [38, 500], [35, 1_000]], no: [[56, 150], [54, 400], [50, 800]] })
+    );
+    expect(cache.getMarket(CUT)).toMatchObject({ yesBid: 40, yesAsk: 44, noBid: 56, noAsk: 60 });
+  });
+
+  it("applies deltas to the local book and its quotes", async () => {
+    cache.trackBooks([CUT]);
+    await vi.waitFor(() => expect(cache.getOrderBook(CUT)).toBeDefined());
+
+    const next = { yes: [[42, 100], [40, 50]] as MockLevel[], no: [[55, 300]] as MockLevel[] };
+    h.mock.setOrderBook(CUT, next);
+
+    await vi.waitFor(() => expect(cache.getOrderBook(CUT)).toEqual(asOrderBook(next)));
+    expect(cache.getMarket(CUT)).toMatchObject({ yesBid: 42, yesAsk: 45, noBid: 55, noAsk: 58 });
+  });
+
+  it("takes quotes for untracked markets from the ticker channel", async () => {
+    h.mock.setOrderBook(BTC, { yes: [[70, 100]], no: [[25, 100]] });
+
+    await vi.waitFor(() => expect(cache.getMarket(BTC)).toMatchObject({ yesBid: 70, yesAsk: 75 }));
+    expect(cache.getOrderBook(BTC)).toBeUndefined();
+  });
+
+  it("resyncs from a fresh snapshot after a seq gap", { timeout: 15_000 }, async () => {
+    cache.trackBooks([CUT]);
+    await vi.waitFor(() => expect(cache.getOrderBook(CUT)).toBeDefined());
+
+    h.mock.dropNextDeltas();
+    h.mock.setOrderBook(CUT, { yes: [[41, 100]], no: [[56, 150]] });
+    const final = { yes: [[41, 100]] as MockLevel[], no: [[57, 90]] as MockLevel[] };
+    h.mock.setOrderBook(CUT, final);
+
+    await vi.waitFor(() => expect(warnings().some((w) => w.includes("seq gap"))).toBe(true));
+    await vi.waitFor(() => expect(ws.connected).toBe(true), { timeout: 5_000 });
+    await vi.waitFor(() => expect(cache.getOrderBook(CUT)).toEqual(asOrderBook(final)), { timeout: 5_000 });
+  });
+
+  it("falls back to REST while disconnected and rebuilds books on reconnect", { timeout: 15_000 }, async () => {
+    cache.trackBooks([CUT]);
+    await vi.waitFor(() => expect(cache.getOrderBook(CUT)).toBeDefined());
+
+    h.mock.dropConnections();
+    await vi.waitFor(() => expect(ws.connected).toBe(false));
+    // Local books are dropped with the connection; reads go to REST
+    expect(cache.getOrderBook(CUT)).toBeUndefined();
+    h.mock.setOrderBook(BTC, { yes: [[66, 100]], no: [[30, 100]] });
+    const btc = (await cache.getOpenMarkets()).find((m) => m.ticker === BTC);
+    expect(btc).toMatchObject({ yesBid: 66, yesAsk: 70 });
+    expect(h.logs.some((l) => l.message.includes("listed over REST"))).toBe(true);
+
+    expect(warnings()).toContain("WebSocket closed, reconnecting in 1s");
+    await vi.waitFor(() => expect(ws.connected).toBe(true), { timeout: 5_000 });
+    await vi.waitFor(() => expect(cache.getOrderBook(CUT)).toBeDefined());
+  });
+});
+
+describe("KalshiWebSocket reconnects", () => {
+  it("backs off exponentially while the server is down", { timeout: 15_000 }, async () => {
+    const h = await startMock();
+    const ws = new KalshiWebSocket(h.kalshi, h.config, h.logger);
+    await ws.connect();
+    await h.stop();
+
+    const delays = () =>
+      h.logs.map((l) => l.message.match(/reconnecting in (\d+)s/)?.[1]).filter((d) => d !== undefined);
+    try {
+      await vi.waitFor(() => expect(delays()).toEqual(["1", "2", "4"]), { timeout: 10_000, interval: 100 });
+    } finally {
+      ws.close();
+    }
+  });
+
+  it("rejects the first connect when the handshake is refused", async () => {
+    const h = await startMock();
+    const config = { ...h.config, kalshi: { ...h.config.kalshi, wsUrl: h.mock.wsUrl.replace("/ws/v2", "/ws/v9") } };
+    const ws = new KalshiWebSocket(h.kalshi, config, h.logger);
+    try {
+      await expect(ws.connect()).rejects.toThrow(/401/);
+    } finally {
+      ws.close();
+      await h.stop();
+    }
+  });
+});
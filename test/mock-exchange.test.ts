@@ -0,0 +1,268 @@
+import fs from "node:fs";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { KalshiClient } from "../src/api/kalshi-client.js";
+import { TradingAgent } from "../src/agent/trading-agent.js";
+import { PaperTrader } from "../src/agent/paper-trader.js";
+import { loadPaperLedger, paperLedgerPath } from "../src/agent/paper-ledger.js";
+import { CircuitBreaker, breakerStatePath } from "../src/risk/circuit-breaker.js";
+import { defaultScenario } from "../src/mock/scenarios.js";
+import type { MockMarket } from "../src/mock/mock-exchange.js";
+import { KALSHI_FEES, fillFeeCents } from "../src/risk/fees.js";
+import { startMock, testSignal, type MockHarness } from "./helpers.js";
+
+describe("MockExchange", () => {
+  let h: MockHarness;
+
+  beforeEach(async () => {
+    h = await startMock();
+  });
+  afterEach(async () => {
+    await h.stop();
+  });
+
+  describe("request signing", () => {
+    it("accepts requests signed with the configured key", async () => {
+      expect(await h.kalshi.getBalance()).toBe(1000);
+    });
+
+    it("rejects unsigned requests", async () => {
+      const response = await fetch(`${h.mock.url}/portfolio/balance`);
+      expect(response.status).toBe(401);
+      expect(await response.text()).toContain("Missing KALSHI-ACCESS-* headers");
+    });
+
+    it("rejects requests signed with another key", async () => {
+      const config = { ...h.config, kalshi: { ...h.config.kalshi, privateKeyPem: h.foreignKeyPem } };
+      const impostor = new KalshiClient(config, h.logger);
+      await expect(impostor.getBalance()).rejects.toThrow(/401.*Invalid signature/);
+    });
+
+    it("rejects a signature replayed against another path", async () => {
+      const headers = h.kalshi.signRequest("GET", "/trade-api/v2/portfolio/balance");
+      const response = await fetch(`${h.mock.url}/portfolio/positions`, { headers });
+      expect(response.status).toBe(401);
+    });
+  });
+
+  describe("/markets", () => {
+    it("lists only active markets as open", async () => {
+      const markets = await h.kalshi.getAllOpenMarkets();
+      expect(markets.map((m) => m.ticker)).not.toContain("KXDONE-26OCT-Y");
+      expect(markets).toHaveLength(6);
+    });
+
+    it("derives quotes from the bid-only book", async () => {
+      const cut = await h.kalshi.getMarket("KXFED-26DEC-CUT");
+      expect(cut).toMatchObject({ status: "open", yesBid: 40, yesAsk: 44, noBid: 56, noAsk: 60 });
+    });
+  });
+
+  describe("orders", () => {
+    it("fills an order that crosses the book at the resting price, charging the taker fee", async () => {
+      const result = await h.kalshi.placeOrder({
+        ticker: "KXFED-26DEC-CUT", action: "buy", side: "yes", type: "limit", count: 100, yesPrice: 44,
+      });
+      expect(result.order.status).toBe("executed");
+
+      const fills = await h.kalshi.getFills({ orderId: result.order.order_id });
+      expect(fills).toHaveLength(1);
+      expect(fills[0]).toMatchObject({ count: 100, yes_price: 44, is_taker: true });
+
+      const fee = fillFeeCents(100, 44, true, KALSHI_FEES);
+      expect(await h.kalshi.getBalance()).toBeCloseTo((100_000 - 100 * 44 - fee) / 100, 2);
+      const [position] = await h.kalshi.getPositions();
+      expect(position).toMatchObject({ ticker: "KXFED-26DEC-CUT", position: 100, market_exposure: 4400, fees_paid: fee });
+    });
+
+    it("walks the book and rests what doesn't fill", async () => {
+      // 150 NO bid at 56 (YES ask 44), 400 at 54 (YES ask 46): a 45¢ limit takes only the first level
+      const result = await h.kalshi.placeOrder({
+        ticker: "KXFED-26DEC-CUT", action: "buy", side: "yes", type: "limit", count: 200, yesPrice: 45,
+      });
+      const order = await h.kalshi.getOrder(result.order.order_id);
+      expect(order).toMatchObject({ status: "resting", fill_count: 150, remaining_count: 50 });
+    });
+
+    it("rests an order below the ask and fills it as maker when the book comes to it", async () => {
+      const result = await h.kalshi.placeOrder({
+        ticker: "KXFED-26DEC-CUT", action: "buy", side: "yes", type: "limit", count: 50, yesPrice: 30,
+      });
+      expect(result.order.status).toBe("resting");
+      expect(await h.kalshi.getOrders({ status: "resting" })).toHaveLength(1);
+
+      h.mock.setOrderBook("KXFED-26DEC-CUT", { yes: [[40, 200]], no: [[70, 80]] });
+
+      const order = await h.kalshi.getOrder(result.order.order_id);
+      expect(order).toMatchObject({ status: "executed", remaining_count: 0 });
+      const [fill] = await h.kalshi.getFills({ orderId: result.order.order_id });
+      expect(fill).toMatchObject({ count: 50, yes_price: 30, is_taker: false });
+    });
+
+    it("cancels a resting order", async () => {
+      const result = await h.kalshi.placeOrder({
+        ticker: "KXFED-26DEC-CUT", action: "buy", side: "yes", type: "limit", count: 10, yesPrice: 30,
+      });
+      await h.kalshi.cancelOrder(result.order.order_id);
+      expect((await h.kalshi.getOrder(result.order.order_id)).status).toBe("canceled");
+    });
+
+    it("pays out positions on settlement", async () => {
+      await h.kalshi.placeOrder({
+        ticker: "KXFED-26DEC-CUT", action: "buy", side: "yes", type: "limit", count: 10, yesPrice: 44,
+      });
+      const before = await h.kalshi.getBalance();
+      h.mock.settleMarket("KXFED-26DEC-CUT", "yes");
+      expect(await h.kalshi.getBalance()).toBeCloseTo(before + 10, 2);
+      expect((await h.kalshi.getMarket("KXFED-26DEC-CUT")).status).toBe("settled");
+    });
+  });
+});
+
+describe("MockExchange pagination", () => {
+  let h: MockHarness;
+
+  beforeEach(async () => {
+    const scenario = defaultScenario();
+    const template = scenario.markets[0];
+    const generated: MockMarket[] = Array.from({ length: 450 }, (_, i) => ({
+      market: { ...template.market, ticker: `KXGEN-${String(i).padStart(3, "0")}`, event_ticker: "KXGEN" },
+      orderbook: template.orderbook,
+    }));
+    h = await startMock({ ...scenario, markets: generated });
+  });
+  afterEach(async () => {
+    await h.stop();
+  });
+
+  it("pages /markets by cursor", async () => {
+    const page = async (cursor?: string) => {
+      const query = new URLSearchParams({ status: "open", limit: "200", ...(cursor ? { cursor } : {}) });
+      const headers = h.kalshi.signRequest("GET", "/trade-api/v2/markets");
+      const response = await fetch(`${h.mock.url}/markets?${query}`, { headers });
+      return (await response.json()) as { markets: { ticker: string }[]; cursor: string };
+    };
+
+    const first = await page();
+    expect(first.markets).toHaveLength(200);
+    expect(first.cursor).not.toBe("");
+    const second = await page(first.cursor);
+    expect(second.markets[0].ticker).toBe("KXGEN-200");
+    const last = await page(second.cursor);
+    expect(last.markets).toHaveLength(50);
+    expect(last.cursor).toBe("");
+  });
+
+  it("lists every open market across pages", async () => {
+    const markets = await h.kalshi.getAllOpenMarkets();
+    expect(markets).toHaveLength(450);
+    expect(new Set(markets.map((m) => m.ticker)).size).toBe(450);
+  });
+});
+
+describe("TradingAgent against the mock exchange", () => {
+  let h: MockHarness;
+  let fixturePath: string;
+
+  beforeEach(async () => {
+    h = await startMock(defaultScenario(), { FORECASTER_BACKEND: "fixture", CONTEXT_SOURCES: "rules" });
+    fixturePath = path.join(h.config.storage.dataDir, "forecasts.json");
+    fs.writeFileSync(
+      fixturePath,
+      JSON.stringify({
+        // Edges on these two; the rest at their market mid, so nothing else trades
+        "KXFED-26DEC-CUT": { probability: 0.6, confidence: 0.8 },
+        "KXBTC-26DEC31-T100K": { probability: 0.8, confidence: 0.8 },
+        "KXFED-26DEC-HOLD": { probability: 0.5, confidence: 0.8 },
+        "KXFED-26DEC-HIKE": { probability: 0.06, confidence: 0.8 },
+        "KXCPI-26NOV-T3": { probability: 0.32, confidence: 0.8 },
+        "KXTHIN-26DEC-X": { probability: 0.2, confidence: 0.8 },
+      })
+    );
+    h.config.forecaster.fixturePath = fixturePath;
+  });
+  afterEach(async () => {
+    await h.stop();
+  });
+
+  it("runs a live cycle end to end: forecasts, sizes and places signed orders", async () => {
+    const agent = new TradingAgent(h.config, h.logger, "live");
+    await agent.runCycle();
+    agent.stop();
+
+    const orders = await h.kalshi.getOrders();
+    const tickers = new Set(orders.map((o) => o.ticker));
+    expect(tickers).toContain("KXFED-26DEC-CUT");
+    expect(tickers).toContain("KXBTC-26DEC31-T100K");
+    expect(tickers.size).toBe(2);
+    expect(orders.every((o) => o.side === "yes" && o.action === "buy")).toBe(true);
+
+    const tradeLog = path.join(h.config.storage.dataDir, "live", "trades.jsonl");
+    expect(fs.readFileSync(tradeLog, "utf8").trim().split("\n").length).toBeGreaterThanOrEqual(orders.length);
+    expect((await h.kalshi.getPositions()).length).toBeGreaterThan(0);
+  });
+
+  it("settles paper positions from Kalshi's results, feeding losses to the breaker", async () => {
+    const { dataDir } = h.config.storage;
+    const account = h.config.paper.account;
+    const ledgerPath = paperLedgerPath(dataDir, account);
+    const seed = new PaperTrader(1_000, { takerRate: 0, makerRate: 0 }, h.logger, ledgerPath);
+    seed.execute(testSignal(await h.kalshi.getMarket("KXCPI-26NOV-T3"), "buy", 10, 34));
+
+    h.mock.settleMarket("KXCPI-26NOV-T3", "no");
+    const agent = new TradingAgent(h.config, h.logger, "paper");
+    await agent.runCycle();
+    agent.stop();
+
+    const ledger = loadPaperLedger(ledgerPath)!;
+    expect(ledger.positions.map((p) => p.ticker)).not.toContain("KXCPI-26NOV-T3");
+    expect(ledger.trades[0].pnl).toBeCloseTo(-3.4);
+    const breaker = new CircuitBreaker(h.config, h.logger, breakerStatePath(dataDir, "paper", account));
+    expect(breaker.status().dailyLossUsd).toBeCloseTo(3.4);
+  });
+
+  it("counts a settled basket's net P&L toward the daily-loss limit, not its losing legs", async () => {
+    h.config.circuitBreaker.dailyLossLimitUsd = 5;
+    const { dataDir } = h.config.storage;
+    const account = h.config.paper.account;
+    // 10 NO baskets across the Fed event for $19.60: pays $20 whichever market resolves YES
+    const seed = new PaperTrader(1_000, { takerRate: 0, makerRate: 0 }, h.logger, paperLedgerPath(dataDir, account));
+    for (const [ticker, price] of [["KXFED-26DEC-CUT", 58], ["KXFED-26DEC-HOLD", 50], ["KXFED-26DEC-HIKE", 88]] as const) {
+      const market = await h.kalshi.getMarket(ticker);
+      seed.execute(testSignal(market, "buy", 10, price, { side: "no", basketId: "fed-basket" }));
+    }
+
+    const agent = new TradingAgent(h.config, h.logger, "paper");
+    const breaker = new CircuitBreaker(h.config, h.logger, breakerStatePath(dataDir, "paper", account));
+
+    // The losing leg settles first: −$5.80 on its own, but the basket is still open
+    h.mock.settleMarket("KXFED-26DEC-CUT", "yes");
+    await agent.runCycle();
+    expect(breaker.status().dailyLossUsd).toBe(0);
+
+    h.mock.settleMarket("KXFED-26DEC-HOLD", "no");
+    h.mock.settleMarket("KXFED-26DEC-HIKE", "no");
+    await agent.runCycle();
+    agent.stop();
+
+    expect(breaker.status()).toMatchObject({ dailyLossUsd: 0 });
+    expect(breaker.check()).toBeNull();
+    expect(h.logs.some((l) => l.message.includes("Settled KXFED-26DEC-HIKE"))).toBe(true);
+  });
+
+  it("refetches open events only when due or when an event's markets change", async () => {
+    const fetchEvents = vi.spyOn(KalshiClient.prototype, "getAllOpenEvents");
+    const agent = new TradingAgent(h.config, h.logger, "paper");
+
+    await agent.runCycle();
+    await agent.runCycle();
+    expect(fetchEvents).toHaveBeenCalledTimes(1);
+
+    // A Fed market closing drops out of the open list: the cached event is stale
+    h.mock.settleMarket("KXFED-26DEC-HIKE", "no");
+    await agent.runCycle();
+    agent.stop();
+    expect(fetchEvents).toHaveBeenCalledTimes(2);
+    fetchEvents.mockRestore();
+  });
+});
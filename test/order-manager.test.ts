@@ -0,0 +1,45 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { OrderManager } from "../src/agent/order-manager.js";
+import { TradeLog } from "../src/agent/trade-log.js";
+import { startMock, testSignal, type MockHarness } from "./helpers.js";
+
+const CUT = "KXFED-26DEC-CUT";
+
+describe("OrderManager against the mock exchange", () => {
+  let h: MockHarness;
+  let tradeLog: TradeLog;
+  let orders: OrderManager;
+
+  beforeEach(async () => {
+    h = await startMock();
+    tradeLog = new TradeLog(h.config.storage.dataDir);
+    orders = new OrderManager(h.kalshi, tradeLog, h.config, h.logger);
+  });
+  afterEach(async () => {
+    await h.stop();
+  });
+
+  it("records fills since the last poll when cancelling", async () => {
+    // 30¢ is under the 44¢ ask: the order rests
+    const market = await h.kalshi.getMarket(CUT);
+    const record = await orders.submit(testSignal(market, "buy", 50, 30));
+    expect(record).toMatchObject({ orderStatus: "resting", filledContracts: 0 });
+
+    // A 70¢ NO bid for 20 crosses it (YES at 30¢) before the next poll
+    h.mock.setOrderBook(CUT, { yes: [[40, 200]], no: [[70, 20]] });
+    expect(await orders.cancelAll("test")).toBe(1);
+
+    const [logged] = tradeLog.getTrades();
+    expect(logged).toMatchObject({ orderStatus: "cancelled", filled: true, filledContracts: 20, fillPrice: 30 });
+    expect(tradeLog.getExpectedHoldings().get(CUT)).toEqual({ side: "yes", contracts: 20 });
+    expect(orders.getOpenOrders()).toEqual([]);
+  });
+
+  it("keeps only what fills on arrival for an immediate order", async () => {
+    // 150 YES on offer at 44¢, then 400 at 46¢: a 45¢ limit takes the first level
+    const market = await h.kalshi.getMarket(CUT);
+    const record = await orders.submitImmediate(testSignal(market, "buy", 200, 45));
+    expect(record).toMatchObject({ orderStatus: "cancelled", filledContracts: 150, fillPrice: 44 });
+    expect(await h.kalshi.getOrders({ status: "resting" })).toEqual([]);
+  });
+});
@@ -0,0 +1,105 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { OrderManager } from "../src/agent/order-manager.js";
+import { OrderValidator } from "../src/agent/order-validator.js";
+import { TradeLog } from "../src/agent/trade-log.js";
+import { defaultScenario } from "../src/mock/scenarios.js";
+import type { KalshiMarket } from "../src/types/index.js";
+import { startMock, testMarket, testSignal, type MockHarness } from "./helpers.js";
+
+const CUT = "KXFED-26DEC-CUT";
+
+describe("OrderValidator against the mock exchange", () => {
+  let h: MockHarness;
+  let orders: OrderManager;
+  let validator: OrderValidator;
+  let cut: KalshiMarket;
+
+  beforeEach(async () => {
+    h = await startMock();
+    orders = new OrderManager(h.kalshi, new TradeLog(h.config.storage.dataDir), h.config, h.logger);
+    validator = new OrderValidator(h.kalshi, orders, h.config, h.logger);
+    // YES 40/44, NO 56/60
+    cut = await h.kalshi.getMarket(CUT);
+  });
+  afterEach(async () => {
+    await h.stop();
+  });
+
+  const code = async (...args: Parameters<OrderValidator["validate"]>) => (await validator.validate(...args))?.code;
+
+  it("passes a buy at the quoted ask with its edge intact", async () => {
+    expect(await validator.validate(testSignal(cut, "buy", 10, 44))).toBeNull();
+  });
+
+  it("rejects prices outside whole cents 1–99 and non-positive counts", async () => {
+    expect(await code(testSignal(cut, "buy", 10, 0))).toBe("invalid_price");
+    expect(await code(testSignal(cut, "buy", 10, 100))).toBe("invalid_price");
+    expect(await code(testSignal(cut, "buy", 10, 44.5))).toBe("invalid_price");
+    expect(await code(testSignal(cut, "buy", 0, 44))).toBe("invalid_size");
+    expect(await code(testSignal(cut, "buy", 2.5, 44))).toBe("invalid_size");
+  });
+
+  it("rejects a second working order on the same market, side and action", async () => {
+    // 30¢ is under the ask: the first order rests
+    expect(await orders.submit(testSignal(cut, "buy", 10, 30))).toMatchObject({ orderStatus: "resting" });
+    expect(await code(testSignal(cut, "buy", 10, 44))).toBe("duplicate");
+    expect(await validator.validate(testSignal(cut, "sell", 10, 40))).toBeNull();
+  });
+
+  it("rejects markets it can't quote, and closed ones", async () => {
+    expect(await code(testSignal(testMarket(), "buy", 10, 50))).toBe("market_unavailable");
+
+    h.mock.settleMarket(CUT, "no");
+    const rejection = await validator.validate(testSignal(cut, "buy", 10, 44));
+    expect(rejection).toMatchObject({ code: "market_closed" });
+  });
+
+  it("rejects when the price traded against has moved past the tolerance", async () => {
+    // YES ask 44¢ → 45¢ is within 2¢; → 50¢ is not
+    h.mock.setOrderBook(CUT, { yes: [[40, 200]], no: [[55, 100]] });
+    expect(await validator.validate(testSignal(cut, "buy", 10, 44))).toBeNull();
+    h.mock.setOrderBook(CUT, { yes: [[35, 200]], no: [[50, 100]] });
+    expect(await validator.validate(testSignal(cut, "buy", 10, 44))).toMatchObject({
+      code: "price_moved",
+      reason: expect.stringContaining("44¢ → 50¢"),
+    });
+    // Sells trade against the bid, here 40¢ → 35¢
+    expect(await code(testSignal(cut, "sell", 10, 40))).toBe("price_moved");
+  });
+
+  it("rejects with nothing left to trade against", async () => {
+    h.mock.setOrderBook(CUT, { yes: [[40, 200]], no: [] });
+    expect(await validator.validate(testSignal(cut, "buy", 10, 44))).toMatchObject({
+      code: "price_moved",
+      reason: "no YES ask left to trade against",
+    });
+  });
+
+  it("rejects a buy whose edge after fees fell under the threshold, unless told not to check", async () => {
+    // 48% model against 44¢ plus a 1.7¢ fee leaves 2.3%
+    const signal = testSignal(cut, "buy", 10, 44);
+    signal.edge = { ...signal.edge, modelProb: 0.48 };
+    expect(await code(signal)).toBe("edge_gone");
+    expect(await validator.validate(signal, { checkEdge: false })).toBeNull();
+  });
+});
+
+describe("OrderValidator expiration", () => {
+  it("rejects an open market past its expiration", async () => {
+    const scenario = defaultScenario();
+    const past = new Date(Date.now() - 60_000).toISOString();
+    Object.assign(scenario.markets[0].market, { close_time: past, expiration_time: past });
+    const h = await startMock(scenario);
+    try {
+      const orders = new OrderManager(h.kalshi, new TradeLog(h.config.storage.dataDir), h.config, h.logger);
+      const validator = new OrderValidator(h.kalshi, orders, h.config, h.logger);
+      const cut = await h.kalshi.getMarket(CUT);
+      expect(await validator.validate(testSignal(cut, "buy", 10, 44))).toMatchObject({
+        code: "market_closed",
+        reason: expect.stringContaining("expired"),
+      });
+    } finally {
+      await h.stop();
+    }
+  });
+});
@@ -0,0 +1,62 @@
+import fs from "node:fs";
+import { describe, expect, it } from "vitest";
+import { PaperTrader } from "../src/agent/paper-trader.js";
+import { archivePaperLedger, listPaperLedgers, loadPaperLedger, paperLedgerPath } from "../src/agent/paper-ledger.js";
+import { KALSHI_FEES } from "../src/risk/fees.js";
+import { captureLogger, tempDataDir, testMarket, testSignal } from "./helpers.js";
+
+const market = testMarket();
+
+describe("paper ledger persistence", () => {
+  it("restores balance, positions and trades after a restart", () => {
+    const dataDir = tempDataDir();
+    const ledgerPath = paperLedgerPath(dataDir, "alpha");
+    const first = new PaperTrader(100, KALSHI_FEES, captureLogger().logger, ledgerPath);
+    // 10 at 50¢ plus a ⌈17.5⌉¢ fee
+    first.execute(testSignal(market, "buy", 10, 50));
+
+    // The starting balance only applies to a new account
+    const restarted = new PaperTrader(999, KALSHI_FEES, captureLogger().logger, ledgerPath);
+    const portfolio = restarted.getPortfolio();
+    expect(portfolio.balanceUsd).toBeCloseTo(94.82);
+    expect(portfolio.positions).toMatchObject([{ ticker: market.ticker, side: "yes", contracts: 10, avgPrice: 50 }]);
+    expect(restarted.toLedger()).toMatchObject({ account: "alpha", initialBalanceUsd: 100 });
+
+    const [trade] = restarted.getTrades();
+    expect(trade).toMatchObject({ filled: true, filledContracts: 10, fees: 0.18 });
+    expect(trade.executedAt).toBeInstanceOf(Date);
+    expect(trade.signal.edge.forecast.timestamp).toBeInstanceOf(Date);
+  });
+
+  it("keeps settlements booked across restarts", () => {
+    const ledgerPath = paperLedgerPath(tempDataDir(), "alpha");
+    new PaperTrader(100, KALSHI_FEES, captureLogger().logger, ledgerPath).execute(testSignal(market, "buy", 10, 50));
+    expect(new PaperTrader(100, KALSHI_FEES, captureLogger().logger, ledgerPath).settle(market.ticker, "yes")).toBeCloseTo(4.82);
+
+    const ledger = loadPaperLedger(ledgerPath)!;
+    expect(ledger.balanceUsd).toBeCloseTo(104.82);
+    expect(ledger.positions).toEqual([]);
+    expect(ledger.trades[0].pnl).toBeCloseTo(4.82);
+  });
+
+  it("keeps accounts apart, and starts an archived one afresh", () => {
+    const dataDir = tempDataDir();
+    new PaperTrader(100, KALSHI_FEES, captureLogger().logger, paperLedgerPath(dataDir, "alpha"))
+      .execute(testSignal(market, "buy", 10, 50));
+    new PaperTrader(250, KALSHI_FEES, captureLogger().logger, paperLedgerPath(dataDir, "beta"));
+    expect(listPaperLedgers(dataDir).map((l) => [l.account, l.trades.length]).sort()).toEqual([
+      ["alpha", 1],
+      ["beta", 0],
+    ]);
+
+    const backup = archivePaperLedger(paperLedgerPath(dataDir, "alpha"))!;
+    expect(fs.existsSync(backup)).toBe(true);
+    const fresh = new PaperTrader(50, KALSHI_FEES, captureLogger().logger, paperLedgerPath(dataDir, "alpha"));
+    expect(fresh.getPortfolio()).toMatchObject({ balanceUsd: 50, positions: [] });
+    expect(listPaperLedgers(dataDir)).toHaveLength(2);
+  });
+
+  it("rejects account names that could escape the ledger directory", () => {
+    expect(() => paperLedgerPath(tempDataDir(), "../live")).toThrow(/Invalid paper account name/);
+  });
+});
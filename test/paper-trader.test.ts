@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest";
+import { PaperTrader } from "../src/agent/paper-trader.js";
+import { KALSHI_FEES } from "../src/risk/fees.js";
+import type { OrderBook } from "../src/types/index.js";
+import { captureLogger, testMarket, testSignal } from "./helpers.js";
+
+const NO_FEES = { takerRate: 0, makerRate: 0 };
+const market = testMarket();
+
+describe("PaperTrader buys", () => {
+  it("records no contracts for a buy the balance can't cover", () => {
+    const trader = new PaperTrader(10, NO_FEES, captureLogger().logger);
+    const result = trader.execute(testSignal(market, "buy", 30, 50));
+    expect(result.record).toMatchObject({ filled: false, filledContracts: 0 });
+    expect(trader.getPortfolio()).toMatchObject({ balanceUsd: 10, positions: [] });
+  });
+
+  it("fills only the depth at or under the limit", () => {
+    const trader = new PaperTrader(100, NO_FEES, captureLogger().logger);
+    // YES asks 44¢ ×5, 46¢ ×50
+    const book: OrderBook = { yes: [], no: [{ price: 56, quantity: 5 }, { price: 54, quantity: 50 }] };
+
+    const result = trader.execute(testSignal(market, "buy", 10, 45), book);
+    expect(result.record).toMatchObject({ filled: true, filledContracts: 5, fillPrice: 44 });
+    expect(trader.getPortfolio().balanceUsd).toBeCloseTo(97.8);
+  });
+});
+
+describe("PaperTrader sells", () => {
+  it("returns the closed position's P&L when a sell empties it", () => {
+    const trader = new PaperTrader(100, NO_FEES, captureLogger().logger);
+    trader.execute(testSignal(market, "buy", 10, 50));
+
+    const partial = trader.execute(testSignal(market, "sell", 4, 45));
+    expect(partial.record).toMatchObject({ filled: true, filledContracts: 4 });
+    expect(partial.closedPnl).toBeUndefined();
+
+    const rest = trader.execute(testSignal(market, "sell", 6, 40));
+    // 4 × −5¢ + 6 × −10¢
+    expect(rest.closedPnl).toBeCloseTo(-0.8);
+    expect(trader.getPortfolio().positions).toEqual([]);
+  });
+
+  it("walks the bids and books nothing for an unfilled sell", () => {
+    const trader = new PaperTrader(100, NO_FEES, captureLogger().logger);
+    trader.execute(testSignal(market, "buy", 10, 50));
+    const book: OrderBook = { yes: [{ price: 30, quantity: 10 }], no: [] };
+
+    const result = trader.execute(testSignal(market, "sell", 10, 40), book);
+    expect(result.record).toMatchObject({ filled: false, filledContracts: 0 });
+    expect(result.closedPnl).toBeUndefined();
+    expect(trader.getPortfolio().positions[0].contracts).toBe(10);
+  });
+});
+
+describe("PaperTrader settlement", () => {
+  it("pays $1 a winning contract and nothing a losing one, net of fees", () => {
+    const trader = new PaperTrader(100, KALSHI_FEES, captureLogger().logger);
+    // 10 YES at 50¢ and 10 NO at 52¢ on another market, ⌈17.5⌉¢ and ⌈17.47⌉¢ in fees
+    const other = testMarket({ ticker: "KXTEST-26-NO" });
+    trader.execute(testSignal(market, "buy", 10, 50));
+    trader.execute(testSignal(other, "buy", 10, 52, { side: "no" }));
+
+    expect(trader.settle(market.ticker, "yes")).toBeCloseTo(4.82);
+    expect(trader.settle(other.ticker, "yes")).toBeCloseTo(-5.38);
+    expect(trader.getPortfolio()).toMatchObject({ positions: [] });
+    expect(trader.getPortfolio().balanceUsd).toBeCloseTo(100 + 4.82 - 5.38);
+    expect(trader.settle(market.ticker, "yes")).toBe(0);
+  });
+
+  it("nets sales out of the position against its settlement", () => {
+    const trader = new PaperTrader(100, NO_FEES, captureLogger().logger);
+    trader.execute(testSignal(market, "buy", 10, 50));
+    trader.execute(testSignal(market, "sell", 4, 60));
+
+    // 10 bought at 50¢ are worth $5 more at $1; the 4 sold at 60¢ gave up 40¢ each
+    expect(trader.settle(market.ticker, "yes")).toBeCloseTo(3.4);
+    expect(trader.getTrades().map((t) => t.pnl)).toEqual([5, -1.6]);
+    expect(trader.getPortfolio().balanceUsd).toBeCloseTo(103.4);
+  });
+
+  it("refunds the stake but not the fees when a market is voided", () => {
+    const trader = new PaperTrader(100, KALSHI_FEES, captureLogger().logger);
+    trader.execute(testSignal(market, "buy", 10, 50));
+    expect(trader.settle(market.ticker, "voided")).toBeCloseTo(-0.18);
+    expect(trader.getPortfolio().balanceUsd).toBeCloseTo(99.82);
+  });
+
+  it("books what was sold when a partly sold position is voided", () => {
+    const trader = new PaperTrader(100, NO_FEES, captureLogger().logger);
+    trader.execute(testSignal(market, "buy", 10, 50));
+    trader.execute(testSignal(market, "sell", 4, 60));
+
+    // The 6 left are refunded at 50¢; the 4 sold made 10¢ each
+    expect(trader.settle(market.ticker, "voided")).toBeCloseTo(0.4);
+    expect(trader.getPortfolio().balanceUsd).toBeCloseTo(100.4);
+  });
+});
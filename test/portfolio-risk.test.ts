@@ -0,0 +1,124 @@
+import { describe, expect, it } from "vitest";
+import { EdgeDetector } from "../src/agent/edge-detector.js";
+import { PortfolioRisk, buildRiskContext, fullKellyFraction, type Holding } from "../src/risk/portfolio-risk.js";
+import { RiskManager } from "../src/risk/risk-manager.js";
+import type { AgentConfig, Edge, Forecast, KalshiEvent, KalshiMarket, Portfolio } from "../src/types/index.js";
+import { captureLogger, loadTestConfig, testMarket } from "./helpers.js";
+
+const EVENT = "KXFED-26DEC";
+const A = `${EVENT}-A`;
+const B = `${EVENT}-B`;
+const OTHER = "KXCPI-26NOV-T3";
+
+// A at 40¢ YES, B at 20¢ YES; OTHER is in another event of the same "Test" category
+const MARKETS: KalshiMarket[] = [
+  testMarket({ ticker: A, eventTicker: EVENT, yesBid: 38, yesAsk: 40, noBid: 60, noAsk: 62 }),
+  testMarket({ ticker: B, eventTicker: EVENT, yesBid: 18, yesAsk: 20, noBid: 80, noAsk: 82 }),
+  testMarket({ ticker: OTHER, eventTicker: "KXCPI-26NOV", yesBid: 48, yesAsk: 50, noBid: 50, noAsk: 52 }),
+];
+
+function events(mutuallyExclusive: boolean): KalshiEvent[] {
+  return [
+    { eventTicker: EVENT, seriesTicker: "KXFED", title: "Fed decision", mutuallyExclusive, markets: MARKETS.slice(0, 2) },
+    { eventTicker: "KXCPI-26NOV", seriesTicker: "KXCPI", title: "CPI", mutuallyExclusive: false, markets: [MARKETS[2]] },
+  ];
+}
+
+function forecast(ticker: string, modelProbYes: number): Forecast {
+  return { ticker, modelProbYes, confidence: 0.8, reasoning: "", sources: [], timestamp: new Date() };
+}
+
+function edges(config: AgentConfig, ...forecasts: Forecast[]): Edge[] {
+  return new EdgeDetector(config, captureLogger().logger).detectEdges(MARKETS, forecasts);
+}
+
+const held = (ticker: string, side: "yes" | "no", contracts: number, avgPrice: number): Holding => ({
+  ticker,
+  side,
+  contracts,
+  avgPrice,
+});
+
+describe("PortfolioRisk joint Kelly", () => {
+  const config = loadTestConfig({ FEE_TAKER_RATE: "0" });
+  const risk = new PortfolioRisk(config, captureLogger().logger);
+  // A: 50% model at 40¢; B: 30% model at 20¢
+  const both = edges(config, forecast(A, 0.5), forecast(B, 0.3));
+
+  it("sizes YES bets on exclusive outcomes as one bet across the event", () => {
+    // Reserve rate (1 − 0.8) / (1 − 0.6) = 0.5, so each stake is p − 0.5 × cost
+    const fractions = risk.jointKelly(both, [], 1_000, buildRiskContext(events(true)));
+    expect(fractions.get(A)).toBeCloseTo(0.3, 3);
+    expect(fractions.get(B)).toBeCloseTo(0.2, 3);
+    // Each hedges the other, so both outgrow their own Kelly fractions (1/6 and 1/8)
+    expect(fractions.get(A)!).toBeGreaterThan(fullKellyFraction(both[0]));
+    expect(fractions.get(B)!).toBeGreaterThan(fullKellyFraction(both[1]));
+  });
+
+  it("scales bets in an ordinary shared event down to the largest alone", () => {
+    const fractions = risk.jointKelly(both, [], 1_000, buildRiskContext(events(false)));
+    const alone = both.map(fullKellyFraction);
+    expect(fractions.get(A)! + fractions.get(B)!).toBeCloseTo(Math.max(...alone));
+    expect(fractions.get(A)! / fractions.get(B)!).toBeCloseTo(alone[0] / alone[1]);
+  });
+
+  it("leaves a lone bet in its event to its own Kelly fraction", () => {
+    expect(risk.jointKelly(both.slice(0, 1), [], 1_000, buildRiskContext(events(true))).size).toBe(0);
+  });
+});
+
+describe("PortfolioRisk limits and scenarios", () => {
+  const config = loadTestConfig({ FEE_TAKER_RATE: "0", MAX_EVENT_LOSS_USD: "100", MAX_GROUP_LOSS_USD: "200" });
+  const risk = new PortfolioRisk(config, captureLogger().logger);
+  // NO on B: 5% YES model against an 82¢ NO ask
+  const [noOnB] = edges(config, forecast(B, 0.05));
+
+  it("counts a hedge inside an exclusive event at what it can actually lose", () => {
+    // NO on A ($60 at risk) pays $40 in the one scenario NO on B loses: B YES
+    const holdings = [held(A, "no", 100, 60)];
+    expect(risk.headroomUsd(noOnB, holdings, buildRiskContext(events(true)))).toBeCloseTo(140);
+    // Otherwise both are assumed to lose together
+    expect(risk.headroomUsd(noOnB, holdings, buildRiskContext(events(false)))).toBeCloseTo(40);
+  });
+
+  it("caps the group's summed worst case across events", () => {
+    const tight = new PortfolioRisk(loadTestConfig({ MAX_GROUP_LOSS_USD: "50" }), captureLogger().logger);
+    const holdings = [held(OTHER, "yes", 60, 50)];
+    expect(tight.headroomUsd(noOnB, holdings, buildRiskContext(events(true)))).toBeCloseTo(20);
+  });
+
+  it("reports each scenario's P&L and the worst case", () => {
+    const holdings = [held(A, "yes", 100, 40), held(B, "yes", 100, 20)];
+    const report = risk.report(holdings, buildRiskContext(events(true)));
+    expect(report.events).toHaveLength(1);
+    expect(report.events[0]).toMatchObject({ worstCaseUsd: 60, worstScenario: "none of these", group: "Test" });
+    expect(report.events[0].scenarios.map((s) => s.pnlUsd)).toEqual([40, 40, -60]);
+    expect(report.worstCaseUsd).toBe(60);
+  });
+});
+
+describe("RiskManager event limits", () => {
+  // $20 already at risk on YES A
+  const portfolio: Portfolio = {
+    balanceUsd: 1_000,
+    positions: [{ ticker: A, side: "yes", contracts: 50, avgPrice: 40, currentPrice: 38, marketTitle: "A" }],
+    totalExposureUsd: 20,
+    realizedPnl: 0,
+    unrealizedPnl: 0,
+  };
+
+  it("caps a signal at the event's worst-case loss headroom", () => {
+    const config = loadTestConfig({ FEE_TAKER_RATE: "0", MAX_EVENT_LOSS_USD: "30" });
+    const rm = new RiskManager(config, captureLogger().logger);
+    // $10 left for B: 50 contracts at 20¢
+    const [signal] = rm.generateSignals(edges(config, forecast(B, 0.3)), portfolio, undefined, new Set(), events(false));
+    expect(signal.edge.ticker).toBe(B);
+    expect(signal).toMatchObject({ contracts: 50, limitPrice: 20 });
+  });
+
+  it("skips edges once the event limit is used up", () => {
+    const config = loadTestConfig({ FEE_TAKER_RATE: "0", MAX_EVENT_LOSS_USD: "20" });
+    const rm = new RiskManager(config, captureLogger().logger);
+    expect(rm.generateSignals(edges(config, forecast(B, 0.3)), portfolio, undefined, new Set(), events(false))).toEqual([]);
+  });
+});
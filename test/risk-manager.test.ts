@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import { EdgeDetector } from "../src/agent/edge-detector.js";
+import { RiskManager } from "../src/risk/risk-manager.js";
+import type { AgentConfig, Edge, Forecast, KalshiMarket, OrderBook, Portfolio } from "../src/types/index.js";
+import { captureLogger, loadTestConfig, testMarket } from "./helpers.js";
+
+const TICKER = "KXTEST-26-YES";
+
+/** Quoted 42/44 YES, 56/58 NO */
+function market(overrides: Partial<KalshiMarket> = {}): KalshiMarket {
+  return testMarket({ yesBid: 42, yesAsk: 44, noBid: 56, noAsk: 58, ...overrides });
+}
+
+function forecast(ticker: string, modelProbYes: number): Forecast {
+  return { ticker, modelProbYes, confidence: 0.8, reasoning: "", sources: [], timestamp: new Date() };
+}
+
+function portfolio(balanceUsd = 1_000): Portfolio {
+  return { balanceUsd, positions: [], totalExposureUsd: 0, realizedPnl: 0, unrealizedPnl: 0 };
+}
+
+function edgesFor(config: AgentConfig, markets: KalshiMarket[], forecasts: Forecast[]): Edge[] {
+  return new EdgeDetector(config, captureLogger().logger).detectEdges(markets, forecasts);
+}
+
+describe("RiskManager sizing against book depth", () => {
+  const config = loadTestConfig({ FEE_TAKER_RATE: "0", KELLY_FRACTION: "0.25", MIN_EDGE_THRESHOLD: "0.05" });
+  // ¼ Kelly on a 55% model at 44¢ is $49 of a $1,000 bankroll
+  const edges = edgesFor(config, [market()], [forecast(TICKER, 0.55)]);
+
+  it("fills at the top-of-book ask without a book", () => {
+    const [signal] = new RiskManager(config, captureLogger().logger).generateSignals(edges, portfolio());
+    expect(signal).toMatchObject({ side: "yes", contracts: 111, limitPrice: 44, expectedFillPrice: 44 });
+  });
+
+  it("walks the asks until the average price leaves only the minimum edge", () => {
+    // YES asks 44¢ ×20, 46¢ ×20, 60¢ ×500: 20 more at 60¢ bring the average to 50¢, model − 5%
+    const book: OrderBook = {
+      yes: [],
+      no: [
+        { price: 56, quantity: 20 },
+        { price: 54, quantity: 20 },
+        { price: 40, quantity: 500 },
+      ],
+    };
+    const risk = new RiskManager(config, captureLogger().logger);
+    const [signal] = risk.generateSignals(edges, portfolio(), new Map([[TICKER, book]]));
+    expect(signal).toMatchObject({ contracts: 60, limitPrice: 60, expectedFillPrice: 50, slippageCents: 6 });
+    expect(signal.positionSizeUsd).toBeCloseTo(30);
+  });
+
+  it("skips an edge with no depth inside the minimum edge", () => {
+    const book: OrderBook = { yes: [], no: [{ price: 45, quantity: 100 }] };
+    const risk = new RiskManager(config, captureLogger().logger);
+    expect(risk.generateSignals(edges, portfolio(), new Map([[TICKER, book]]))).toEqual([]);
+  });
+});